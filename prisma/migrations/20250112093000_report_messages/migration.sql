@@ -0,0 +1,23 @@
+-- CreateEnum
+CREATE TYPE "MessageSender" AS ENUM ('REPORTER', 'AGENCY');
+
+-- CreateTable
+CREATE TABLE "ReportMessage" (
+    "id" TEXT NOT NULL,
+    "reportId" TEXT NOT NULL,
+    "sender" "MessageSender" NOT NULL,
+    "body" TEXT NOT NULL,
+    "authorId" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReportMessage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ReportMessage_reportId_createdAt_idx" ON "ReportMessage"("reportId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ReportMessage" ADD CONSTRAINT "ReportMessage_reportId_fkey" FOREIGN KEY ("reportId") REFERENCES "Report"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReportMessage" ADD CONSTRAINT "ReportMessage_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
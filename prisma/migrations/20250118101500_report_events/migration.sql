@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "ReportEventType" AS ENUM ('CREATED', 'STATUS_CHANGED', 'ASSIGNED', 'EDITED');
+
+-- CreateTable
+CREATE TABLE "ReportEvent" (
+    "id" TEXT NOT NULL,
+    "reportId" TEXT NOT NULL,
+    "type" "ReportEventType" NOT NULL,
+    "field" TEXT,
+    "oldValue" TEXT,
+    "newValue" TEXT,
+    "note" TEXT,
+    "actorId" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReportEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ReportEvent_reportId_createdAt_idx" ON "ReportEvent"("reportId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ReportEvent" ADD CONSTRAINT "ReportEvent_reportId_fkey" FOREIGN KEY ("reportId") REFERENCES "Report"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReportEvent" ADD CONSTRAINT "ReportEvent_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill a creation entry for existing reports so every timeline has a start
+INSERT INTO "ReportEvent" ("id", "reportId", "type", "newValue", "createdAt")
+SELECT 'evt_' || "id", "id", 'CREATED', "status"::TEXT, "createdAt" FROM "Report";
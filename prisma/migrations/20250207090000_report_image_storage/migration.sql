@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Report" ADD COLUMN     "imageKey" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Report_imageKey_key" ON "Report"("imageKey");
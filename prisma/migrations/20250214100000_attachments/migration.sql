@@ -0,0 +1,48 @@
+-- CreateTable
+CREATE TABLE "Attachment" (
+    "id" TEXT NOT NULL,
+    "reportId" TEXT,
+    "storageKey" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "checksum" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Attachment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Attachment_storageKey_key" ON "Attachment"("storageKey");
+
+-- CreateIndex
+CREATE INDEX "Attachment_reportId_idx" ON "Attachment"("reportId");
+
+-- AddForeignKey
+ALTER TABLE "Attachment" ADD CONSTRAINT "Attachment_reportId_fkey" FOREIGN KEY ("reportId") REFERENCES "Report"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Carry over single images already in object storage. Their size is not known
+-- here, and the key's extension tells us the type.
+INSERT INTO "Attachment" ("id", "reportId", "storageKey", "fileName", "mimeType", "size", "createdAt")
+SELECT
+    'att_' || "id",
+    "id",
+    "imageKey",
+    'image.' || substring("imageKey" from '\.([a-z]+)$'),
+    CASE substring("imageKey" from '\.([a-z]+)$')
+        WHEN 'jpg' THEN 'image/jpeg'
+        WHEN 'png' THEN 'image/png'
+        WHEN 'gif' THEN 'image/gif'
+        WHEN 'webp' THEN 'image/webp'
+        ELSE 'application/octet-stream'
+    END,
+    0,
+    "createdAt"
+FROM "Report"
+WHERE "imageKey" IS NOT NULL;
+
+-- DropIndex
+DROP INDEX "Report_imageKey_key";
+
+-- AlterTable
+ALTER TABLE "Report" DROP COLUMN "imageKey";
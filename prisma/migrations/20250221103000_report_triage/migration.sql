@@ -0,0 +1,16 @@
+-- CreateEnum
+CREATE TYPE "Severity" AS ENUM ('LOW', 'MEDIUM', 'HIGH', 'CRITICAL');
+
+-- AlterTable
+ALTER TABLE "Report" ADD COLUMN     "department" TEXT,
+ADD COLUMN     "hazards" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "possibleDuplicateOfId" TEXT,
+ADD COLUMN     "priorityScore" INTEGER,
+ADD COLUMN     "severity" "Severity",
+ADD COLUMN     "triagedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Report_priorityScore_idx" ON "Report"("priorityScore");
+
+-- AddForeignKey
+ALTER TABLE "Report" ADD CONSTRAINT "Report_possibleDuplicateOfId_fkey" FOREIGN KEY ("possibleDuplicateOfId") REFERENCES "Report"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,41 @@
+-- AlterEnum
+ALTER TYPE "ReportEventType" ADD VALUE 'MERGED';
+ALTER TYPE "ReportEventType" ADD VALUE 'UNMERGED';
+ALTER TYPE "ReportEventType" ADD VALUE 'LINKED';
+ALTER TYPE "ReportEventType" ADD VALUE 'UNLINKED';
+
+-- AlterTable
+ALTER TABLE "Report" ADD COLUMN     "mergedAt" TIMESTAMP(3),
+ADD COLUMN     "parentId" TEXT;
+
+-- CreateTable
+CREATE TABLE "ReportLink" (
+    "id" TEXT NOT NULL,
+    "reportId" TEXT NOT NULL,
+    "relatedId" TEXT NOT NULL,
+    "createdById" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReportLink_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Report_parentId_idx" ON "Report"("parentId");
+
+-- CreateIndex
+CREATE INDEX "ReportLink_relatedId_idx" ON "ReportLink"("relatedId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReportLink_reportId_relatedId_key" ON "ReportLink"("reportId", "relatedId");
+
+-- AddForeignKey
+ALTER TABLE "Report" ADD CONSTRAINT "Report_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "Report"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReportLink" ADD CONSTRAINT "ReportLink_reportId_fkey" FOREIGN KEY ("reportId") REFERENCES "Report"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReportLink" ADD CONSTRAINT "ReportLink_relatedId_fkey" FOREIGN KEY ("relatedId") REFERENCES "Report"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReportLink" ADD CONSTRAINT "ReportLink_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,58 @@
+-- AlterTable
+-- "C" collation lets the btree index serve LIKE 'prefix%' lookups
+ALTER TABLE "Report" ADD COLUMN     "geohash" VARCHAR(12) COLLATE "C";
+
+-- CreateIndex
+CREATE INDEX "Report_geohash_idx" ON "Report"("geohash");
+
+-- Backfill reports that already have coordinates, at the same precision as
+-- encodeGeohash in src/lib/geo.ts
+CREATE FUNCTION pg_temp.geohash_encode(lat DOUBLE PRECISION, lng DOUBLE PRECISION, precision INTEGER)
+RETURNS TEXT AS $$
+DECLARE
+  alphabet TEXT := '0123456789bcdefghjkmnpqrstuvwxyz';
+  min_lat DOUBLE PRECISION := -90;
+  max_lat DOUBLE PRECISION := 90;
+  min_lng DOUBLE PRECISION := -180;
+  max_lng DOUBLE PRECISION := 180;
+  mid DOUBLE PRECISION;
+  hash TEXT := '';
+  bits INTEGER := 0;
+  idx INTEGER := 0;
+  is_lng BOOLEAN := TRUE;
+BEGIN
+  WHILE length(hash) < precision LOOP
+    IF is_lng THEN
+      mid := (min_lng + max_lng) / 2;
+      IF lng >= mid THEN
+        idx := idx * 2 + 1;
+        min_lng := mid;
+      ELSE
+        idx := idx * 2;
+        max_lng := mid;
+      END IF;
+    ELSE
+      mid := (min_lat + max_lat) / 2;
+      IF lat >= mid THEN
+        idx := idx * 2 + 1;
+        min_lat := mid;
+      ELSE
+        idx := idx * 2;
+        max_lat := mid;
+      END IF;
+    END IF;
+    is_lng := NOT is_lng;
+    bits := bits + 1;
+    IF bits = 5 THEN
+      hash := hash || substr(alphabet, idx + 1, 1);
+      bits := 0;
+      idx := 0;
+    END IF;
+  END LOOP;
+  RETURN hash;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+UPDATE "Report"
+SET "geohash" = pg_temp.geohash_encode("latitude", "longitude", 9)
+WHERE "latitude" IS NOT NULL AND "longitude" IS NOT NULL;
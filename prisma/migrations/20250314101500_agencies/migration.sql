@@ -0,0 +1,38 @@
+-- AlterEnum
+ALTER TYPE "ReportEventType" ADD VALUE 'ROUTED';
+
+-- AlterTable
+ALTER TABLE "Report" ADD COLUMN     "agencyId" TEXT,
+ADD COLUMN     "routedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "agencyId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Agency" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "boundary" JSONB NOT NULL,
+    "minLatitude" DOUBLE PRECISION NOT NULL,
+    "maxLatitude" DOUBLE PRECISION NOT NULL,
+    "minLongitude" DOUBLE PRECISION NOT NULL,
+    "maxLongitude" DOUBLE PRECISION NOT NULL,
+    "incidentTypes" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Agency_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Agency_name_key" ON "Agency"("name");
+
+-- CreateIndex
+CREATE INDEX "Report_agencyId_idx" ON "Report"("agencyId");
+
+-- AddForeignKey
+ALTER TABLE "Report" ADD CONSTRAINT "Report_agencyId_fkey" FOREIGN KEY ("agencyId") REFERENCES "Agency"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "User" ADD CONSTRAINT "User_agencyId_fkey" FOREIGN KEY ("agencyId") REFERENCES "Agency"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Report" ADD COLUMN     "assignedAt" TIMESTAMP(3),
+ADD COLUMN     "assigneeId" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "Report_assigneeId_status_idx" ON "Report"("assigneeId", "status");
+
+-- AddForeignKey
+ALTER TABLE "Report" ADD CONSTRAINT "Report_assigneeId_fkey" FOREIGN KEY ("assigneeId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
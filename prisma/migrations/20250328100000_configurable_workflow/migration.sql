@@ -0,0 +1,10 @@
+-- Report statuses are defined by the configurable workflow in
+-- src/lib/workflow.ts, so the column holds plain text instead of an enum.
+
+-- AlterTable
+ALTER TABLE "Report" ALTER COLUMN "status" DROP DEFAULT,
+ALTER COLUMN "status" SET DATA TYPE TEXT USING "status"::TEXT,
+ALTER COLUMN "status" SET DEFAULT 'PENDING';
+
+-- DropEnum
+DROP TYPE "ReportStatus";
@@ -0,0 +1,53 @@
+-- CreateTable
+CREATE TABLE "ReportNote" (
+    "id" TEXT NOT NULL,
+    "reportId" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "authorId" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "editedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ReportNote_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ReportNoteRevision" (
+    "id" TEXT NOT NULL,
+    "noteId" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReportNoteRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ReportNoteMention" (
+    "noteId" TEXT NOT NULL,
+    "userId" INTEGER NOT NULL,
+
+    CONSTRAINT "ReportNoteMention_pkey" PRIMARY KEY ("noteId","userId")
+);
+
+-- CreateIndex
+CREATE INDEX "ReportNote_reportId_createdAt_idx" ON "ReportNote"("reportId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ReportNoteRevision_noteId_createdAt_idx" ON "ReportNoteRevision"("noteId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ReportNoteMention_userId_idx" ON "ReportNoteMention"("userId");
+
+-- AddForeignKey
+ALTER TABLE "ReportNote" ADD CONSTRAINT "ReportNote_reportId_fkey" FOREIGN KEY ("reportId") REFERENCES "Report"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReportNote" ADD CONSTRAINT "ReportNote_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReportNoteRevision" ADD CONSTRAINT "ReportNoteRevision_noteId_fkey" FOREIGN KEY ("noteId") REFERENCES "ReportNote"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReportNoteMention" ADD CONSTRAINT "ReportNoteMention_noteId_fkey" FOREIGN KEY ("noteId") REFERENCES "ReportNote"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReportNoteMention" ADD CONSTRAINT "ReportNoteMention_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
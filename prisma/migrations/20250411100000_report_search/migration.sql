@@ -0,0 +1,13 @@
+-- AlterTable
+-- Generated, so every insert and update keeps it in step with the text
+ALTER TABLE "Report" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+  setweight(to_tsvector('english', coalesce("description", '')), 'B') ||
+  setweight(to_tsvector('english', coalesce("location", '')), 'C')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "Report_searchVector_idx" ON "Report" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "Report_createdAt_idx" ON "Report"("createdAt");
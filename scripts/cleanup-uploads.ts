@@ -0,0 +1,27 @@
+// Deletes uploads that were never attached to a report, from storage and the
+// database, once they are older than ATTACHMENT_UNCLAIMED_TTL_HOURS (24 by
+// default). Run it from cron every hour or so.
+//
+//   npm run uploads:cleanup
+import prisma from "../src/lib/prisma";
+import { deleteExpiredUploads } from "../src/lib/attachments";
+
+const BATCH_SIZE = 100;
+
+async function main() {
+  let total = 0;
+  for (;;) {
+    const deleted = await deleteExpiredUploads({ limit: BATCH_SIZE });
+    total += deleted;
+    // A short batch means nothing else has expired
+    if (deleted < BATCH_SIZE) break;
+  }
+  console.log(`Deleted ${total} unclaimed uploads.`);
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
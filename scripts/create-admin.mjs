@@ -0,0 +1,31 @@
+// Creates the first ADMIN account. Staff accounts after that are invited from
+// /admin/users, and public signup only ever creates USER accounts.
+//
+//   node scripts/create-admin.mjs <email> <name> <password>
+import { PrismaClient } from "@prisma/client";
+import bcrypt from "bcryptjs";
+
+const [email, name, password] = process.argv.slice(2);
+
+if (!email || !name || !password) {
+  console.error("Usage: node scripts/create-admin.mjs <email> <name> <password>");
+  process.exit(1);
+}
+
+const prisma = new PrismaClient();
+
+try {
+  const user = await prisma.user.upsert({
+    where: { email },
+    update: { role: "ADMIN", active: true },
+    create: {
+      email,
+      name,
+      password: await bcrypt.hash(password, 10),
+      role: "ADMIN",
+    },
+  });
+  console.log(`Admin account ready: ${user.email}`);
+} finally {
+  await prisma.$disconnect();
+}
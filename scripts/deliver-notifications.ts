@@ -0,0 +1,33 @@
+// Sends every notification whose next attempt is due: retries of failed
+// sends and anything left pending when a server stopped. Run it from cron
+// every minute or so.
+//
+//   npm run notifications:deliver
+import prisma from "../src/lib/prisma";
+import { deliverDueNotifications } from "../src/lib/notifications/dispatcher";
+
+const BATCH_SIZE = 100;
+
+async function main() {
+  let total = { sent: 0, retrying: 0, failed: 0 };
+  for (;;) {
+    const counts = await deliverDueNotifications({ limit: BATCH_SIZE });
+    total = {
+      sent: total.sent + counts.sent,
+      retrying: total.retrying + counts.retrying,
+      failed: total.failed + counts.failed,
+    };
+    // A short batch means nothing else is due
+    if (counts.sent + counts.retrying + counts.failed < BATCH_SIZE) break;
+  }
+  console.log(
+    `Sent ${total.sent}, will retry ${total.retrying}, gave up on ${total.failed}.`
+  );
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,33 @@
+// Sends every webhook delivery whose next attempt is due: retries after a
+// receiver failed and anything left pending when a server stopped. Run it
+// from cron every minute or so.
+//
+//   npm run webhooks:deliver
+import prisma from "../src/lib/prisma";
+import { deliverDueWebhooks } from "../src/lib/webhooks";
+
+const BATCH_SIZE = 100;
+
+async function main() {
+  let total = { succeeded: 0, retrying: 0, failed: 0 };
+  for (;;) {
+    const counts = await deliverDueWebhooks({ limit: BATCH_SIZE });
+    total = {
+      succeeded: total.succeeded + counts.succeeded,
+      retrying: total.retrying + counts.retrying,
+      failed: total.failed + counts.failed,
+    };
+    // A short batch means nothing else is due
+    if (counts.succeeded + counts.retrying + counts.failed < BATCH_SIZE) break;
+  }
+  console.log(
+    `Delivered ${total.succeeded}, will retry ${total.retrying}, gave up on ${total.failed}.`
+  );
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,88 @@
+// Moves images stored inline as base64 data URLs in Report.image into the
+// configured object storage as attachments of their report, with metadata
+// stripped, then clears the column. Safe to re-run: each report is handled on
+// its own and only rows that still have inline data are picked up.
+//
+//   npm run storage:migrate-images
+import { PrismaClient } from "@prisma/client";
+import { getStorage } from "../src/lib/storage";
+import {
+  MEDIA_TYPES,
+  newStorageKey,
+  parseDataUrl,
+  sha256,
+  sniffMediaType,
+} from "../src/lib/media";
+import { sanitizeMedia } from "../src/lib/sanitize-media";
+
+const BATCH_SIZE = 20;
+
+const prisma = new PrismaClient();
+
+async function main() {
+  const storage = getStorage();
+  let migrated = 0;
+  let skipped = 0;
+  let cursor: string | undefined;
+
+  for (;;) {
+    // Only ids first; the blobs are fetched one by one to bound memory use
+    const batch = await prisma.report.findMany({
+      where: { image: { not: null } },
+      select: { id: true },
+      orderBy: { id: "asc" },
+      take: BATCH_SIZE,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    });
+    if (batch.length === 0) break;
+
+    for (const { id } of batch) {
+      const report = await prisma.report.findUnique({
+        where: { id },
+        select: { reportId: true, image: true },
+      });
+      const parsed = report?.image ? parseDataUrl(report.image) : null;
+      const mimeType = parsed && sniffMediaType(parsed.data);
+      const sanitized =
+        parsed && mimeType?.startsWith("image/")
+          ? await sanitizeMedia(parsed.data, mimeType)
+          : null;
+
+      if (!report || !mimeType || !sanitized) {
+        console.warn(`Skipping ${report?.reportId ?? id}: not a supported image`);
+        skipped++;
+        continue;
+      }
+
+      const storageKey = newStorageKey(mimeType);
+      await storage.put(storageKey, sanitized.data, mimeType);
+      await prisma.report.update({
+        where: { id },
+        data: {
+          image: null,
+          attachments: {
+            create: {
+              storageKey,
+              fileName: `image.${MEDIA_TYPES[mimeType]}`,
+              mimeType,
+              size: sanitized.data.length,
+              checksum: sha256(sanitized.data),
+            },
+          },
+        },
+      });
+      migrated++;
+    }
+
+    cursor = batch[batch.length - 1].id;
+  }
+
+  console.log(`Migrated ${migrated} images, skipped ${skipped}`);
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,311 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { REPORT_TYPES } from "@/lib/report-types";
+
+interface BoundaryPoint {
+  latitude: number;
+  longitude: number;
+}
+
+interface Agency {
+  id: string;
+  name: string;
+  boundary: BoundaryPoint[];
+  incidentTypes: string[];
+  active: boolean;
+  _count: { reports: number; staff: number };
+}
+
+interface AgencyForm {
+  name: string;
+  // One "latitude,longitude" pair per line
+  boundary: string;
+  incidentTypes: string[];
+  active: boolean;
+}
+
+const EMPTY_FORM: AgencyForm = {
+  name: "",
+  boundary: "",
+  incidentTypes: [],
+  active: true,
+};
+
+const inputClass =
+  "w-full px-3 py-2 border border-neutral-800 rounded-lg bg-neutral-900 placeholder-neutral-500 text-neutral-200 focus:outline-none focus:ring-2 focus:ring-blue-500/20";
+const buttonClass =
+  "px-3 py-2 text-sm font-medium text-neutral-300 bg-neutral-900 rounded-lg hover:bg-neutral-800 border border-neutral-800 transition-all hover:border-neutral-700 disabled:opacity-50";
+
+function formatBoundary(boundary: BoundaryPoint[]) {
+  return boundary
+    .map(({ latitude, longitude }) => `${latitude},${longitude}`)
+    .join("\n");
+}
+
+function parseBoundary(text: string): BoundaryPoint[] | null {
+  const points = text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => line.split(",").map((part) => Number(part.trim())));
+  if (points.some((point) => point.length !== 2 || point.some(isNaN))) {
+    return null;
+  }
+  return points.map(([latitude, longitude]) => ({ latitude, longitude }));
+}
+
+export default function AgencyManagement() {
+  const [agencies, setAgencies] = useState<Agency[]>([]);
+  const [form, setForm] = useState<AgencyForm>(EMPTY_FORM);
+  // The agency being edited, or null when the form creates a new one
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    fetchAgencies();
+  }, []);
+
+  const fetchAgencies = async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch("/api/admin/agencies");
+      setAgencies(await response.json());
+    } catch (error) {
+      console.error("Error fetching agencies:", error);
+      setError("Failed to load agencies");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const request = async (url: string, init: RequestInit) => {
+    setError("");
+    const response = await fetch(url, {
+      ...init,
+      headers: { "Content-Type": "application/json" },
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      setError(data.error || "Request failed");
+      return null;
+    }
+    return data;
+  };
+
+  const startEditing = (agency: Agency) => {
+    setEditingId(agency.id);
+    setForm({
+      name: agency.name,
+      boundary: formatBoundary(agency.boundary),
+      incidentTypes: agency.incidentTypes,
+      active: agency.active,
+    });
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const toggleType = (type: string) =>
+    setForm((prev) => ({
+      ...prev,
+      incidentTypes: prev.incidentTypes.includes(type)
+        ? prev.incidentTypes.filter((t) => t !== type)
+        : [...prev.incidentTypes, type],
+    }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const boundary = parseBoundary(form.boundary);
+    if (!boundary) {
+      setError("Enter the boundary as one latitude,longitude pair per line");
+      return;
+    }
+
+    const saved = await request(
+      editingId ? `/api/admin/agencies/${editingId}` : "/api/admin/agencies",
+      {
+        method: editingId ? "PATCH" : "POST",
+        body: JSON.stringify({ ...form, boundary }),
+      }
+    );
+    if (saved) {
+      resetForm();
+      fetchAgencies();
+    }
+  };
+
+  const deleteAgency = async (agency: Agency) => {
+    if (!confirm(`Delete ${agency.name}?`)) return;
+    const data = await request(`/api/admin/agencies/${agency.id}`, {
+      method: "DELETE",
+    });
+    if (data) {
+      setAgencies((prev) => prev.filter((a) => a.id !== agency.id));
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-black">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-black text-white">
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        <div className="flex justify-between items-center">
+          <h1 className="text-2xl font-bold bg-gradient-to-r from-blue-400 to-blue-600 bg-clip-text text-transparent">
+            Agencies
+          </h1>
+          <Link href="/dashboard" className="text-sm text-blue-500 hover:text-blue-400">
+            Back to dashboard
+          </Link>
+        </div>
+
+        {error && (
+          <div className="text-red-500 text-sm bg-red-500/10 border border-red-500/20 rounded-lg p-3">
+            {error}
+          </div>
+        )}
+
+        <section className="bg-neutral-900/50 rounded-xl p-6 border border-neutral-800 space-y-4">
+          <h2 className="text-lg font-medium text-neutral-200">
+            {editingId ? "Edit agency" : "Add agency"}
+          </h2>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <input
+              type="text"
+              required
+              value={form.name}
+              onChange={(e) =>
+                setForm((prev) => ({ ...prev, name: e.target.value }))
+              }
+              placeholder="Agency name"
+              className={inputClass}
+            />
+            <div className="space-y-2">
+              <p className="text-sm text-neutral-400">
+                Incident types handled (none selected means every type)
+              </p>
+              <div className="flex flex-wrap gap-4">
+                {REPORT_TYPES.map((type) => (
+                  <label
+                    key={type}
+                    className="flex items-center gap-2 text-sm text-neutral-300"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={form.incidentTypes.includes(type)}
+                      onChange={() => toggleType(type)}
+                      className="rounded border-neutral-700 bg-neutral-900"
+                    />
+                    {type}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <label className="block space-y-2">
+              <span className="text-sm text-neutral-400">
+                Boundary, one latitude,longitude point per line
+              </span>
+              <textarea
+                required
+                rows={6}
+                value={form.boundary}
+                onChange={(e) =>
+                  setForm((prev) => ({ ...prev, boundary: e.target.value }))
+                }
+                placeholder={"6.60,3.30\n6.60,3.45\n6.45,3.45\n6.45,3.30"}
+                className={`${inputClass} font-mono text-sm`}
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-neutral-300">
+              <input
+                type="checkbox"
+                checked={form.active}
+                onChange={(e) =>
+                  setForm((prev) => ({ ...prev, active: e.target.checked }))
+                }
+                className="rounded border-neutral-700 bg-neutral-900"
+              />
+              Route new reports to this agency
+            </label>
+            <div className="flex gap-2">
+              <button type="submit" className={buttonClass}>
+                {editingId ? "Save changes" : "Add agency"}
+              </button>
+              {editingId && (
+                <button type="button" onClick={resetForm} className={buttonClass}>
+                  Cancel
+                </button>
+              )}
+            </div>
+          </form>
+        </section>
+
+        <section className="bg-neutral-900/50 rounded-xl border border-neutral-800 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="text-left text-neutral-500 border-b border-neutral-800">
+              <tr>
+                <th className="px-6 py-3 font-medium">Name</th>
+                <th className="px-6 py-3 font-medium">Incident types</th>
+                <th className="px-6 py-3 font-medium">Reports</th>
+                <th className="px-6 py-3 font-medium">Staff</th>
+                <th className="px-6 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-neutral-800">
+              {agencies.map((agency) => (
+                <tr key={agency.id} className={agency.active ? "" : "opacity-50"}>
+                  <td className="px-6 py-3 text-neutral-200">{agency.name}</td>
+                  <td className="px-6 py-3 text-neutral-400">
+                    {agency.incidentTypes.length > 0
+                      ? agency.incidentTypes.join(", ")
+                      : "All types"}
+                  </td>
+                  <td className="px-6 py-3 text-neutral-400">
+                    {agency._count.reports}
+                  </td>
+                  <td className="px-6 py-3 text-neutral-400">
+                    {agency._count.staff}
+                  </td>
+                  <td className="px-6 py-3">
+                    <div className="flex justify-end gap-2">
+                      <button
+                        onClick={() => startEditing(agency)}
+                        className={buttonClass}
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => deleteAgency(agency)}
+                        className={buttonClass}
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+              {agencies.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-6 py-8 text-center text-neutral-500">
+                    No agencies yet. Until one is added, every report stays in
+                    the shared queue.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </section>
+      </main>
+    </div>
+  );
+}
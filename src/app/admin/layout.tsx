@@ -0,0 +1,23 @@
+import { redirect } from "next/navigation";
+import AccessDenied from "@/components/AccessDenied";
+import { getActiveUser } from "@/lib/authorize";
+import { Permission, hasPermission } from "@/lib/permissions";
+
+export default async function AdminLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const user = await getActiveUser();
+  if (!user) {
+    redirect("/auth/signin");
+  }
+
+  if (!hasPermission(user.role, Permission.MANAGE_USERS)) {
+    return (
+      <AccessDenied message="Only administrators can manage user accounts and agencies." />
+    );
+  }
+
+  return children;
+}
@@ -0,0 +1,507 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { REPORT_TYPES } from "@/lib/report-types";
+
+type Channel = "EMAIL" | "SMS" | "WEBHOOK";
+type Severity = "LOW" | "MEDIUM" | "HIGH" | "CRITICAL";
+
+interface Rule {
+  id: string;
+  name: string;
+  active: boolean;
+  reportType: "EMERGENCY" | "NON_EMERGENCY" | null;
+  incidentType: string | null;
+  agency: { id: string; name: string } | null;
+  minSeverity: Severity | null;
+  channel: Channel;
+  address: string;
+}
+
+interface Agency {
+  id: string;
+  name: string;
+}
+
+interface Notification {
+  id: string;
+  event: string;
+  channel: Channel;
+  address: string;
+  subject: string;
+  reportId: string | null;
+  status: "PENDING" | "SENT" | "FAILED";
+  attempts: number;
+  lastError: string | null;
+  sentAt: string | null;
+  createdAt: string;
+  user: { id: number; name: string } | null;
+  rule: { id: string; name: string } | null;
+}
+
+interface RuleForm {
+  name: string;
+  reportType: string;
+  incidentType: string;
+  agencyId: string;
+  minSeverity: string;
+  channel: Channel;
+  address: string;
+  active: boolean;
+}
+
+const EMPTY_FORM: RuleForm = {
+  name: "",
+  reportType: "",
+  incidentType: "",
+  agencyId: "",
+  minSeverity: "",
+  channel: "EMAIL",
+  address: "",
+  active: true,
+};
+
+const ADDRESS_PLACEHOLDERS: Record<Channel, string> = {
+  EMAIL: "oncall@agency.gov",
+  SMS: "+15550100",
+  WEBHOOK: "https://pager.example.com/hooks/oncall",
+};
+
+const STATUS_COLORS: Record<Notification["status"], string> = {
+  PENDING: "text-yellow-500",
+  SENT: "text-green-500",
+  FAILED: "text-red-500",
+};
+
+const inputClass =
+  "w-full px-3 py-2 border border-neutral-800 rounded-lg bg-neutral-900 placeholder-neutral-500 text-neutral-200 focus:outline-none focus:ring-2 focus:ring-blue-500/20";
+const buttonClass =
+  "px-3 py-2 text-sm font-medium text-neutral-300 bg-neutral-900 rounded-lg hover:bg-neutral-800 border border-neutral-800 transition-all hover:border-neutral-700 disabled:opacity-50";
+
+function describeConditions(rule: Rule) {
+  const conditions = [
+    rule.reportType === "EMERGENCY" && "Emergency",
+    rule.reportType === "NON_EMERGENCY" && "Non-emergency",
+    rule.incidentType,
+    rule.agency && `in ${rule.agency.name}`,
+    rule.minSeverity && `${rule.minSeverity} or worse`,
+  ].filter(Boolean);
+  return conditions.length > 0 ? conditions.join(", ") : "Every new report";
+}
+
+// Empty selects clear a condition
+function toPayload(form: RuleForm) {
+  return {
+    ...form,
+    reportType: form.reportType || null,
+    incidentType: form.incidentType || null,
+    agencyId: form.agencyId || null,
+    minSeverity: form.minSeverity || null,
+  };
+}
+
+export default function NotificationManagement() {
+  const [rules, setRules] = useState<Rule[]>([]);
+  const [agencies, setAgencies] = useState<Agency[]>([]);
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [statusFilter, setStatusFilter] = useState("");
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM);
+  // The rule being edited, or null when the form creates a new one
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [rulesResponse, agenciesResponse] = await Promise.all([
+          fetch("/api/admin/notification-rules"),
+          fetch("/api/admin/agencies"),
+        ]);
+        setRules(await rulesResponse.json());
+        if (agenciesResponse.ok) {
+          setAgencies(await agenciesResponse.json());
+        }
+      } catch (error) {
+        console.error("Error fetching notification rules:", error);
+        setError("Failed to load notification rules");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    load();
+  }, []);
+
+  useEffect(() => {
+    fetchNotifications(statusFilter);
+  }, [statusFilter]);
+
+  const fetchNotifications = async (status: string) => {
+    try {
+      const query = status ? `?status=${status}` : "";
+      const response = await fetch(`/api/admin/notifications${query}`);
+      setNotifications(await response.json());
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+      setError("Failed to load the delivery log");
+    }
+  };
+
+  const request = async (url: string, init: RequestInit) => {
+    setError("");
+    const response = await fetch(url, {
+      ...init,
+      headers: { "Content-Type": "application/json" },
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      setError(data.error || "Request failed");
+      return null;
+    }
+    return data;
+  };
+
+  const startEditing = (rule: Rule) => {
+    setEditingId(rule.id);
+    setForm({
+      name: rule.name,
+      reportType: rule.reportType ?? "",
+      incidentType: rule.incidentType ?? "",
+      agencyId: rule.agency?.id ?? "",
+      minSeverity: rule.minSeverity ?? "",
+      channel: rule.channel,
+      address: rule.address,
+      active: rule.active,
+    });
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const saved: Rule | null = await request(
+      editingId
+        ? `/api/admin/notification-rules/${editingId}`
+        : "/api/admin/notification-rules",
+      {
+        method: editingId ? "PATCH" : "POST",
+        body: JSON.stringify(toPayload(form)),
+      }
+    );
+    if (saved) {
+      setRules((prev) =>
+        editingId
+          ? prev.map((rule) => (rule.id === saved.id ? saved : rule))
+          : [...prev, saved].sort((a, b) => a.name.localeCompare(b.name))
+      );
+      resetForm();
+    }
+  };
+
+  const deleteRule = async (rule: Rule) => {
+    if (!confirm(`Delete the rule "${rule.name}"?`)) return;
+    const data = await request(`/api/admin/notification-rules/${rule.id}`, {
+      method: "DELETE",
+    });
+    if (data) {
+      setRules((prev) => prev.filter((r) => r.id !== rule.id));
+    }
+  };
+
+  const retry = async (notification: Notification) => {
+    const updated: Notification | null = await request(
+      `/api/admin/notifications/${notification.id}/retry`,
+      { method: "POST" }
+    );
+    if (updated) {
+      setNotifications((prev) =>
+        prev.map((n) => (n.id === updated.id ? updated : n))
+      );
+    }
+  };
+
+  const setField = <K extends keyof RuleForm>(key: K, value: RuleForm[K]) =>
+    setForm((prev) => ({ ...prev, [key]: value }));
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-black">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-black text-white">
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        <div className="flex justify-between items-center">
+          <h1 className="text-2xl font-bold bg-gradient-to-r from-blue-400 to-blue-600 bg-clip-text text-transparent">
+            Notifications
+          </h1>
+          <Link href="/dashboard" className="text-sm text-blue-500 hover:text-blue-400">
+            Back to dashboard
+          </Link>
+        </div>
+
+        {error && (
+          <div className="text-red-500 text-sm bg-red-500/10 border border-red-500/20 rounded-lg p-3">
+            {error}
+          </div>
+        )}
+
+        <section className="bg-neutral-900/50 rounded-xl p-6 border border-neutral-800 space-y-4">
+          <h2 className="text-lg font-medium text-neutral-200">
+            {editingId ? "Edit routing rule" : "Add routing rule"}
+          </h2>
+          <p className="text-sm text-neutral-400">
+            New reports that meet every condition set below are sent to the
+            address, in addition to the staff who can see them.
+          </p>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <input
+              type="text"
+              required
+              value={form.name}
+              onChange={(e) => setField("name", e.target.value)}
+              placeholder="Rule name, e.g. Fire on-call"
+              className={inputClass}
+            />
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <select
+                value={form.reportType}
+                onChange={(e) => setField("reportType", e.target.value)}
+                className={inputClass}
+              >
+                <option value="">Any classification</option>
+                <option value="EMERGENCY">Emergency</option>
+                <option value="NON_EMERGENCY">Non-emergency</option>
+              </select>
+              <select
+                value={form.incidentType}
+                onChange={(e) => setField("incidentType", e.target.value)}
+                className={inputClass}
+              >
+                <option value="">Any incident type</option>
+                {REPORT_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {type}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={form.agencyId}
+                onChange={(e) => setField("agencyId", e.target.value)}
+                className={inputClass}
+              >
+                <option value="">Any agency</option>
+                {agencies.map((agency) => (
+                  <option key={agency.id} value={agency.id}>
+                    {agency.name}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={form.minSeverity}
+                onChange={(e) => setField("minSeverity", e.target.value)}
+                className={inputClass}
+              >
+                <option value="">Any severity</option>
+                <option value="MEDIUM">Medium or worse</option>
+                <option value="HIGH">High or worse</option>
+                <option value="CRITICAL">Critical</option>
+              </select>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <select
+                value={form.channel}
+                onChange={(e) => setField("channel", e.target.value as Channel)}
+                className={inputClass}
+              >
+                <option value="EMAIL">Email</option>
+                <option value="SMS">Text message</option>
+                <option value="WEBHOOK">Webhook</option>
+              </select>
+              <input
+                type="text"
+                required
+                value={form.address}
+                onChange={(e) => setField("address", e.target.value)}
+                placeholder={ADDRESS_PLACEHOLDERS[form.channel]}
+                className={`${inputClass} md:col-span-3`}
+              />
+            </div>
+            <label className="flex items-center gap-2 text-sm text-neutral-300">
+              <input
+                type="checkbox"
+                checked={form.active}
+                onChange={(e) => setField("active", e.target.checked)}
+                className="rounded border-neutral-700 bg-neutral-900"
+              />
+              Active
+            </label>
+            <div className="flex gap-2">
+              <button type="submit" className={buttonClass}>
+                {editingId ? "Save changes" : "Add rule"}
+              </button>
+              {editingId && (
+                <button type="button" onClick={resetForm} className={buttonClass}>
+                  Cancel
+                </button>
+              )}
+            </div>
+          </form>
+        </section>
+
+        <section className="bg-neutral-900/50 rounded-xl border border-neutral-800 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="text-left text-neutral-500 border-b border-neutral-800">
+              <tr>
+                <th className="px-6 py-3 font-medium">Name</th>
+                <th className="px-6 py-3 font-medium">When</th>
+                <th className="px-6 py-3 font-medium">Send to</th>
+                <th className="px-6 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-neutral-800">
+              {rules.map((rule) => (
+                <tr key={rule.id} className={rule.active ? "" : "opacity-50"}>
+                  <td className="px-6 py-3 text-neutral-200">{rule.name}</td>
+                  <td className="px-6 py-3 text-neutral-400">
+                    {describeConditions(rule)}
+                  </td>
+                  <td className="px-6 py-3 text-neutral-400">
+                    {rule.channel.toLowerCase()}: {rule.address}
+                  </td>
+                  <td className="px-6 py-3">
+                    <div className="flex justify-end gap-2">
+                      <button
+                        onClick={() => startEditing(rule)}
+                        className={buttonClass}
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => deleteRule(rule)}
+                        className={buttonClass}
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+              {rules.length === 0 && (
+                <tr>
+                  <td colSpan={4} className="px-6 py-8 text-center text-neutral-500">
+                    No routing rules. Staff are still told about emergencies in
+                    their own queue.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </section>
+
+        <section className="space-y-4">
+          <div className="flex justify-between items-center">
+            <h2 className="text-lg font-medium text-neutral-200">
+              Delivery log
+            </h2>
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value)}
+              className={`${inputClass} w-auto`}
+            >
+              <option value="">All</option>
+              <option value="PENDING">Pending</option>
+              <option value="SENT">Sent</option>
+              <option value="FAILED">Failed</option>
+            </select>
+          </div>
+          <div className="bg-neutral-900/50 rounded-xl border border-neutral-800 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="text-left text-neutral-500 border-b border-neutral-800">
+                <tr>
+                  <th className="px-6 py-3 font-medium">Created</th>
+                  <th className="px-6 py-3 font-medium">Subject</th>
+                  <th className="px-6 py-3 font-medium">Recipient</th>
+                  <th className="px-6 py-3 font-medium">Status</th>
+                  <th className="px-6 py-3" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-neutral-800">
+                {notifications.map((notification) => (
+                  <tr key={notification.id}>
+                    <td className="px-6 py-3 text-neutral-400 whitespace-nowrap">
+                      {new Date(notification.createdAt).toLocaleString()}
+                    </td>
+                    <td className="px-6 py-3 text-neutral-200">
+                      {notification.reportId ? (
+                        <Link
+                          href={`/dashboard/reports/${notification.reportId}`}
+                          className="hover:text-blue-400"
+                        >
+                          {notification.subject}
+                        </Link>
+                      ) : (
+                        notification.subject
+                      )}
+                    </td>
+                    <td className="px-6 py-3 text-neutral-400">
+                      <div>
+                        {notification.channel.toLowerCase()}:{" "}
+                        {notification.address}
+                      </div>
+                      <div className="text-xs text-neutral-500">
+                        {notification.user?.name ??
+                          (notification.rule
+                            ? `Rule: ${notification.rule.name}`
+                            : "Deleted rule")}
+                      </div>
+                    </td>
+                    <td className="px-6 py-3">
+                      <div className={STATUS_COLORS[notification.status]}>
+                        {notification.status.toLowerCase()}
+                        <span className="text-neutral-500">
+                          {" "}
+                          after {notification.attempts}{" "}
+                          {notification.attempts === 1 ? "attempt" : "attempts"}
+                        </span>
+                      </div>
+                      {notification.lastError && (
+                        <div className="text-xs text-neutral-500">
+                          {notification.lastError}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-6 py-3 text-right">
+                      {notification.status === "FAILED" && (
+                        <button
+                          onClick={() => retry(notification)}
+                          className={buttonClass}
+                        >
+                          Retry
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+                {notifications.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="px-6 py-8 text-center text-neutral-500">
+                      Nothing has been sent yet.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,323 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Role } from "@prisma/client";
+
+interface ManagedUser {
+  id: number;
+  email: string;
+  name: string;
+  role: Role;
+  active: boolean;
+  agencyId: string | null;
+  createdAt: string;
+}
+
+interface AgencyOption {
+  id: string;
+  name: string;
+}
+
+interface Invitation {
+  id: string;
+  email: string;
+  role: Role;
+  expiresAt: string;
+  createdBy: { name: string } | null;
+}
+
+const selectClass =
+  "bg-neutral-900 border border-neutral-800 text-neutral-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500/20";
+const buttonClass =
+  "px-3 py-2 text-sm font-medium text-neutral-300 bg-neutral-900 rounded-lg hover:bg-neutral-800 border border-neutral-800 transition-all hover:border-neutral-700 disabled:opacity-50";
+
+export default function UserManagement() {
+  const [users, setUsers] = useState<ManagedUser[]>([]);
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [agencies, setAgencies] = useState<AgencyOption[]>([]);
+  const [inviteForm, setInviteForm] = useState({
+    email: "",
+    role: "MODERATOR" as Role,
+  });
+  // A freshly issued invite or reset link; it cannot be retrieved again
+  const [issuedLink, setIssuedLink] = useState<{
+    label: string;
+    url: string;
+  } | null>(null);
+  const [error, setError] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    fetchAll();
+  }, []);
+
+  const fetchAll = async () => {
+    setIsLoading(true);
+    try {
+      const [usersResponse, invitationsResponse, agenciesResponse] =
+        await Promise.all([
+          fetch("/api/admin/users"),
+          fetch("/api/admin/invitations"),
+          fetch("/api/admin/agencies"),
+        ]);
+      setUsers(await usersResponse.json());
+      setInvitations(await invitationsResponse.json());
+      setAgencies(await agenciesResponse.json());
+    } catch (error) {
+      console.error("Error fetching users:", error);
+      setError("Failed to load users");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const request = async (url: string, init: RequestInit) => {
+    setError("");
+    const response = await fetch(url, {
+      ...init,
+      headers: { "Content-Type": "application/json" },
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      setError(data.error || "Request failed");
+      return null;
+    }
+    return data;
+  };
+
+  const updateUser = async (
+    userId: number,
+    changes: Partial<Pick<ManagedUser, "role" | "active" | "agencyId">>
+  ) => {
+    const updated = await request(`/api/admin/users/${userId}`, {
+      method: "PATCH",
+      body: JSON.stringify(changes),
+    });
+    if (updated) {
+      setUsers((prev) => prev.map((u) => (u.id === userId ? updated : u)));
+    }
+  };
+
+  const resetPassword = async (user: ManagedUser) => {
+    const data = await request(`/api/admin/users/${user.id}/reset-password`, {
+      method: "POST",
+    });
+    if (data) {
+      setIssuedLink({
+        label: `Password reset link for ${user.email}`,
+        url: data.resetUrl,
+      });
+    }
+  };
+
+  const sendInvitation = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = await request("/api/admin/invitations", {
+      method: "POST",
+      body: JSON.stringify(inviteForm),
+    });
+    if (data) {
+      setIssuedLink({
+        label: `Invitation link for ${inviteForm.email}`,
+        url: data.inviteUrl,
+      });
+      setInviteForm((prev) => ({ ...prev, email: "" }));
+      fetchAll();
+    }
+  };
+
+  const revokeInvitation = async (invitationId: string) => {
+    const data = await request(`/api/admin/invitations/${invitationId}`, {
+      method: "DELETE",
+    });
+    if (data) {
+      setInvitations((prev) => prev.filter((i) => i.id !== invitationId));
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-black">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-black text-white">
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        <div className="flex justify-between items-center">
+          <h1 className="text-2xl font-bold bg-gradient-to-r from-blue-400 to-blue-600 bg-clip-text text-transparent">
+            User Management
+          </h1>
+          <div className="flex gap-6">
+            <Link
+              href="/admin/agencies"
+              className="text-sm text-blue-500 hover:text-blue-400"
+            >
+              Agencies
+            </Link>
+            <Link href="/dashboard" className="text-sm text-blue-500 hover:text-blue-400">
+              Back to dashboard
+            </Link>
+          </div>
+        </div>
+
+        {error && (
+          <div className="text-red-500 text-sm bg-red-500/10 border border-red-500/20 rounded-lg p-3">
+            {error}
+          </div>
+        )}
+
+        {issuedLink && (
+          <div className="bg-blue-500/10 border border-blue-500/20 rounded-lg p-4 space-y-2">
+            <p className="text-sm text-neutral-300">
+              {issuedLink.label}. Copy it now, it will not be shown again.
+            </p>
+            <code className="block break-all text-sm text-blue-400">
+              {issuedLink.url}
+            </code>
+          </div>
+        )}
+
+        <section className="bg-neutral-900/50 rounded-xl p-6 border border-neutral-800 space-y-4">
+          <h2 className="text-lg font-medium text-neutral-200">Invite staff</h2>
+          <form onSubmit={sendInvitation} className="flex flex-wrap gap-4">
+            <input
+              type="email"
+              required
+              value={inviteForm.email}
+              onChange={(e) =>
+                setInviteForm((prev) => ({ ...prev, email: e.target.value }))
+              }
+              placeholder="Email address"
+              className="flex-1 min-w-[16rem] px-3 py-2 border border-neutral-800 rounded-lg bg-neutral-900 placeholder-neutral-500 text-neutral-200 focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+            />
+            <select
+              value={inviteForm.role}
+              onChange={(e) =>
+                setInviteForm((prev) => ({
+                  ...prev,
+                  role: e.target.value as Role,
+                }))
+              }
+              className={selectClass}
+            >
+              {Object.values(Role).map((role) => (
+                <option key={role} value={role}>
+                  {role}
+                </option>
+              ))}
+            </select>
+            <button type="submit" className={buttonClass}>
+              Create invitation
+            </button>
+          </form>
+
+          {invitations.length > 0 && (
+            <ul className="divide-y divide-neutral-800">
+              {invitations.map((invitation) => (
+                <li
+                  key={invitation.id}
+                  className="flex justify-between items-center py-3 text-sm"
+                >
+                  <span className="text-neutral-300">
+                    {invitation.email}{" "}
+                    <span className="text-neutral-500">
+                      · {invitation.role} · expires{" "}
+                      {new Date(invitation.expiresAt).toLocaleDateString()}
+                    </span>
+                  </span>
+                  <button
+                    onClick={() => revokeInvitation(invitation.id)}
+                    className="text-red-500 hover:text-red-400"
+                  >
+                    Revoke
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        <section className="bg-neutral-900/50 rounded-xl border border-neutral-800 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="text-left text-neutral-500 border-b border-neutral-800">
+              <tr>
+                <th className="px-6 py-3 font-medium">Name</th>
+                <th className="px-6 py-3 font-medium">Email</th>
+                <th className="px-6 py-3 font-medium">Role</th>
+                <th className="px-6 py-3 font-medium">Agency</th>
+                <th className="px-6 py-3 font-medium">Status</th>
+                <th className="px-6 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-neutral-800">
+              {users.map((user) => (
+                <tr key={user.id} className={user.active ? "" : "opacity-50"}>
+                  <td className="px-6 py-3 text-neutral-200">{user.name}</td>
+                  <td className="px-6 py-3 text-neutral-400">{user.email}</td>
+                  <td className="px-6 py-3">
+                    <select
+                      value={user.role}
+                      onChange={(e) =>
+                        updateUser(user.id, { role: e.target.value as Role })
+                      }
+                      className={selectClass}
+                    >
+                      {Object.values(Role).map((role) => (
+                        <option key={role} value={role}>
+                          {role}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-6 py-3">
+                    <select
+                      value={user.agencyId ?? ""}
+                      onChange={(e) =>
+                        updateUser(user.id, {
+                          agencyId: e.target.value || null,
+                        })
+                      }
+                      className={selectClass}
+                    >
+                      <option value="">No agency</option>
+                      {agencies.map((agency) => (
+                        <option key={agency.id} value={agency.id}>
+                          {agency.name}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-6 py-3 text-neutral-400">
+                    {user.active ? "Active" : "Deactivated"}
+                  </td>
+                  <td className="px-6 py-3">
+                    <div className="flex justify-end gap-2">
+                      <button
+                        onClick={() => resetPassword(user)}
+                        className={buttonClass}
+                      >
+                        Reset password
+                      </button>
+                      <button
+                        onClick={() =>
+                          updateUser(user.id, { active: !user.active })
+                        }
+                        className={buttonClass}
+                      >
+                        {user.active ? "Deactivate" : "Reactivate"}
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      </main>
+    </div>
+  );
+}
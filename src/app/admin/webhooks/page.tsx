@@ -0,0 +1,531 @@
+"use client";
+
+import { Fragment, useEffect, useState } from "react";
+import Link from "next/link";
+import { WEBHOOK_EVENTS } from "@/lib/webhook-events";
+
+interface Subscription {
+  id: string;
+  name: string;
+  url: string;
+  events: string[];
+  active: boolean;
+}
+
+interface Delivery {
+  id: string;
+  event: string;
+  payload: unknown;
+  status: "PENDING" | "SUCCEEDED" | "FAILED";
+  attempts: number;
+  nextAttemptAt: string;
+  responseStatus: number | null;
+  lastError: string | null;
+  deliveredAt: string | null;
+  replayOfId: string | null;
+  createdAt: string;
+  subscription: { id: string; name: string; url: string };
+}
+
+interface SubscriptionForm {
+  name: string;
+  url: string;
+  events: string[];
+  active: boolean;
+}
+
+const EMPTY_FORM: SubscriptionForm = {
+  name: "",
+  url: "",
+  events: [],
+  active: true,
+};
+
+const STATUS_COLORS: Record<Delivery["status"], string> = {
+  PENDING: "text-yellow-500",
+  SUCCEEDED: "text-green-500",
+  FAILED: "text-red-500",
+};
+
+const inputClass =
+  "w-full px-3 py-2 border border-neutral-800 rounded-lg bg-neutral-900 placeholder-neutral-500 text-neutral-200 focus:outline-none focus:ring-2 focus:ring-blue-500/20";
+const buttonClass =
+  "px-3 py-2 text-sm font-medium text-neutral-300 bg-neutral-900 rounded-lg hover:bg-neutral-800 border border-neutral-800 transition-all hover:border-neutral-700 disabled:opacity-50";
+
+export default function WebhookManagement() {
+  const [subscriptions, setSubscriptions] = useState<Subscription[]>([]);
+  const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+  const [subscriptionFilter, setSubscriptionFilter] = useState("");
+  const [statusFilter, setStatusFilter] = useState("");
+  const [form, setForm] = useState<SubscriptionForm>(EMPTY_FORM);
+  // The subscription being edited, or null when the form creates a new one
+  const [editingId, setEditingId] = useState<string | null>(null);
+  // A secret just issued, shown until dismissed since it cannot be fetched
+  // again
+  const [newSecret, setNewSecret] = useState<{
+    name: string;
+    secret: string;
+  } | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [replayingId, setReplayingId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await fetch("/api/admin/webhooks");
+        setSubscriptions(await response.json());
+      } catch (error) {
+        console.error("Error fetching webhooks:", error);
+        setError("Failed to load webhooks");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    load();
+  }, []);
+
+  useEffect(() => {
+    fetchDeliveries(subscriptionFilter, statusFilter);
+  }, [subscriptionFilter, statusFilter]);
+
+  const fetchDeliveries = async (subscriptionId: string, status: string) => {
+    try {
+      const params = new URLSearchParams();
+      if (subscriptionId) params.set("subscriptionId", subscriptionId);
+      if (status) params.set("status", status);
+      const response = await fetch(`/api/admin/webhook-deliveries?${params}`);
+      setDeliveries(await response.json());
+    } catch (error) {
+      console.error("Error fetching webhook deliveries:", error);
+      setError("Failed to load the delivery log");
+    }
+  };
+
+  const request = async (url: string, init: RequestInit) => {
+    setError("");
+    const response = await fetch(url, {
+      ...init,
+      headers: { "Content-Type": "application/json" },
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      setError(data.error || "Request failed");
+      return null;
+    }
+    return data;
+  };
+
+  const replaceSubscription = (saved: Subscription) =>
+    setSubscriptions((prev) =>
+      prev.map((s) => (s.id === saved.id ? saved : s))
+    );
+
+  const startEditing = (subscription: Subscription) => {
+    setEditingId(subscription.id);
+    setForm({
+      name: subscription.name,
+      url: subscription.url,
+      events: subscription.events,
+      active: subscription.active,
+    });
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const toggleEvent = (event: string) =>
+    setForm((prev) => ({
+      ...prev,
+      events: prev.events.includes(event)
+        ? prev.events.filter((e) => e !== event)
+        : [...prev.events, event],
+    }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const saved = await request(
+      editingId ? `/api/admin/webhooks/${editingId}` : "/api/admin/webhooks",
+      {
+        method: editingId ? "PATCH" : "POST",
+        body: JSON.stringify(form),
+      }
+    );
+    if (!saved) return;
+
+    if (editingId) {
+      replaceSubscription(saved);
+    } else {
+      const { secret, ...subscription } = saved;
+      setSubscriptions((prev) =>
+        [...prev, subscription].sort((a, b) => a.name.localeCompare(b.name))
+      );
+      setNewSecret({ name: subscription.name, secret });
+    }
+    resetForm();
+  };
+
+  const toggleActive = async (subscription: Subscription) => {
+    const saved = await request(`/api/admin/webhooks/${subscription.id}`, {
+      method: "PATCH",
+      body: JSON.stringify({ active: !subscription.active }),
+    });
+    if (saved) replaceSubscription(saved);
+  };
+
+  const rotateSecret = async (subscription: Subscription) => {
+    if (
+      !confirm(
+        `Issue a new secret for ${subscription.name}? The receiver must be updated before it can verify deliveries again.`
+      )
+    ) {
+      return;
+    }
+    const saved = await request(
+      `/api/admin/webhooks/${subscription.id}/secret`,
+      { method: "POST" }
+    );
+    if (saved) {
+      setNewSecret({ name: saved.name, secret: saved.secret });
+    }
+  };
+
+  const deleteSubscription = async (subscription: Subscription) => {
+    if (!confirm(`Delete ${subscription.name} and its delivery log?`)) return;
+    const data = await request(`/api/admin/webhooks/${subscription.id}`, {
+      method: "DELETE",
+    });
+    if (data) {
+      setSubscriptions((prev) => prev.filter((s) => s.id !== subscription.id));
+      setDeliveries((prev) =>
+        prev.filter((d) => d.subscription.id !== subscription.id)
+      );
+      if (subscriptionFilter === subscription.id) setSubscriptionFilter("");
+    }
+  };
+
+  const replay = async (delivery: Delivery) => {
+    setReplayingId(delivery.id);
+    try {
+      const replayed: Delivery | null = await request(
+        `/api/admin/webhook-deliveries/${delivery.id}/replay`,
+        { method: "POST" }
+      );
+      if (replayed) {
+        setDeliveries((prev) => [replayed, ...prev]);
+      }
+    } finally {
+      setReplayingId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-black">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-black text-white">
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        <div className="flex justify-between items-center">
+          <h1 className="text-2xl font-bold bg-gradient-to-r from-blue-400 to-blue-600 bg-clip-text text-transparent">
+            Webhooks
+          </h1>
+          <Link href="/dashboard" className="text-sm text-blue-500 hover:text-blue-400">
+            Back to dashboard
+          </Link>
+        </div>
+
+        {error && (
+          <div className="text-red-500 text-sm bg-red-500/10 border border-red-500/20 rounded-lg p-3">
+            {error}
+          </div>
+        )}
+
+        {newSecret && (
+          <div className="text-sm bg-green-500/10 border border-green-500/20 rounded-lg p-4 space-y-2">
+            <p className="text-green-500">
+              Signing secret for {newSecret.name}. Copy it to the receiving
+              system now; it will not be shown again.
+            </p>
+            <code className="block font-mono text-neutral-200 break-all">
+              {newSecret.secret}
+            </code>
+            <button onClick={() => setNewSecret(null)} className={buttonClass}>
+              Done
+            </button>
+          </div>
+        )}
+
+        <section className="bg-neutral-900/50 rounded-xl p-6 border border-neutral-800 space-y-4">
+          <h2 className="text-lg font-medium text-neutral-200">
+            {editingId ? "Edit webhook" : "Add webhook"}
+          </h2>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <input
+                type="text"
+                required
+                value={form.name}
+                onChange={(e) =>
+                  setForm((prev) => ({ ...prev, name: e.target.value }))
+                }
+                placeholder="Name, e.g. County CAD"
+                className={inputClass}
+              />
+              <input
+                type="url"
+                required
+                value={form.url}
+                onChange={(e) =>
+                  setForm((prev) => ({ ...prev, url: e.target.value }))
+                }
+                placeholder="https://cad.example.gov/hooks/reports"
+                className={`${inputClass} md:col-span-2`}
+              />
+            </div>
+            <div className="flex flex-wrap gap-4">
+              {WEBHOOK_EVENTS.map((event) => (
+                <label
+                  key={event}
+                  className="flex items-center gap-2 text-sm text-neutral-300 font-mono"
+                >
+                  <input
+                    type="checkbox"
+                    checked={form.events.includes(event)}
+                    onChange={() => toggleEvent(event)}
+                    className="rounded border-neutral-700 bg-neutral-900"
+                  />
+                  {event}
+                </label>
+              ))}
+            </div>
+            <label className="flex items-center gap-2 text-sm text-neutral-300">
+              <input
+                type="checkbox"
+                checked={form.active}
+                onChange={(e) =>
+                  setForm((prev) => ({ ...prev, active: e.target.checked }))
+                }
+                className="rounded border-neutral-700 bg-neutral-900"
+              />
+              Active
+            </label>
+            <div className="flex gap-2">
+              <button type="submit" className={buttonClass}>
+                {editingId ? "Save changes" : "Add webhook"}
+              </button>
+              {editingId && (
+                <button type="button" onClick={resetForm} className={buttonClass}>
+                  Cancel
+                </button>
+              )}
+            </div>
+          </form>
+        </section>
+
+        <section className="bg-neutral-900/50 rounded-xl border border-neutral-800 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="text-left text-neutral-500 border-b border-neutral-800">
+              <tr>
+                <th className="px-6 py-3 font-medium">Name</th>
+                <th className="px-6 py-3 font-medium">URL</th>
+                <th className="px-6 py-3 font-medium">Events</th>
+                <th className="px-6 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-neutral-800">
+              {subscriptions.map((subscription) => (
+                <tr
+                  key={subscription.id}
+                  className={subscription.active ? "" : "opacity-50"}
+                >
+                  <td className="px-6 py-3 text-neutral-200">
+                    {subscription.name}
+                  </td>
+                  <td className="px-6 py-3 text-neutral-400 break-all">
+                    {subscription.url}
+                  </td>
+                  <td className="px-6 py-3 text-neutral-400 font-mono text-xs">
+                    {subscription.events.join(", ")}
+                  </td>
+                  <td className="px-6 py-3">
+                    <div className="flex justify-end gap-2">
+                      <button
+                        onClick={() => startEditing(subscription)}
+                        className={buttonClass}
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => toggleActive(subscription)}
+                        className={buttonClass}
+                      >
+                        {subscription.active ? "Pause" : "Resume"}
+                      </button>
+                      <button
+                        onClick={() => rotateSecret(subscription)}
+                        className={buttonClass}
+                      >
+                        New secret
+                      </button>
+                      <button
+                        onClick={() => deleteSubscription(subscription)}
+                        className={buttonClass}
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+              {subscriptions.length === 0 && (
+                <tr>
+                  <td colSpan={4} className="px-6 py-8 text-center text-neutral-500">
+                    No webhooks yet.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </section>
+
+        <section className="space-y-4">
+          <div className="flex justify-between items-center gap-4">
+            <h2 className="text-lg font-medium text-neutral-200">
+              Delivery log
+            </h2>
+            <div className="flex gap-2">
+              <select
+                value={subscriptionFilter}
+                onChange={(e) => setSubscriptionFilter(e.target.value)}
+                className={`${inputClass} w-auto`}
+              >
+                <option value="">All webhooks</option>
+                {subscriptions.map((subscription) => (
+                  <option key={subscription.id} value={subscription.id}>
+                    {subscription.name}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={statusFilter}
+                onChange={(e) => setStatusFilter(e.target.value)}
+                className={`${inputClass} w-auto`}
+              >
+                <option value="">Any status</option>
+                <option value="PENDING">Pending</option>
+                <option value="SUCCEEDED">Succeeded</option>
+                <option value="FAILED">Failed</option>
+              </select>
+              <button
+                onClick={() => fetchDeliveries(subscriptionFilter, statusFilter)}
+                className={buttonClass}
+              >
+                Refresh
+              </button>
+            </div>
+          </div>
+          <div className="bg-neutral-900/50 rounded-xl border border-neutral-800 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="text-left text-neutral-500 border-b border-neutral-800">
+                <tr>
+                  <th className="px-6 py-3 font-medium">Created</th>
+                  <th className="px-6 py-3 font-medium">Event</th>
+                  <th className="px-6 py-3 font-medium">Webhook</th>
+                  <th className="px-6 py-3 font-medium">Status</th>
+                  <th className="px-6 py-3" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-neutral-800">
+                {deliveries.map((delivery) => (
+                  <Fragment key={delivery.id}>
+                    <tr>
+                      <td className="px-6 py-3 text-neutral-400 whitespace-nowrap">
+                        {new Date(delivery.createdAt).toLocaleString()}
+                        {delivery.replayOfId && (
+                          <div className="text-xs text-neutral-500">Replay</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-3 text-neutral-200 font-mono text-xs">
+                        {delivery.event}
+                      </td>
+                      <td className="px-6 py-3 text-neutral-400">
+                        {delivery.subscription.name}
+                      </td>
+                      <td className="px-6 py-3">
+                        <div className={STATUS_COLORS[delivery.status]}>
+                          {delivery.status.toLowerCase()}
+                          {delivery.responseStatus !== null && (
+                            <span className="text-neutral-500">
+                              {" "}
+                              ({delivery.responseStatus})
+                            </span>
+                          )}
+                        </div>
+                        <div className="text-xs text-neutral-500">
+                          {delivery.attempts}{" "}
+                          {delivery.attempts === 1 ? "attempt" : "attempts"}
+                          {delivery.status === "PENDING" &&
+                            `, next at ${new Date(delivery.nextAttemptAt).toLocaleTimeString()}`}
+                        </div>
+                      </td>
+                      <td className="px-6 py-3">
+                        <div className="flex justify-end gap-2">
+                          <button
+                            onClick={() =>
+                              setExpandedId(
+                                expandedId === delivery.id ? null : delivery.id
+                              )
+                            }
+                            className={buttonClass}
+                          >
+                            {expandedId === delivery.id ? "Hide" : "Details"}
+                          </button>
+                          <button
+                            onClick={() => replay(delivery)}
+                            disabled={replayingId !== null}
+                            className={buttonClass}
+                          >
+                            {replayingId === delivery.id ? "Sending..." : "Replay"}
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                    {expandedId === delivery.id && (
+                      <tr>
+                        <td colSpan={5} className="px-6 py-3 space-y-2">
+                          {delivery.lastError && (
+                            <p className="text-sm text-red-400 break-all">
+                              {delivery.lastError}
+                            </p>
+                          )}
+                          <pre className="text-xs text-neutral-400 bg-black/40 rounded-lg p-3 overflow-x-auto">
+                            {JSON.stringify(delivery.payload, null, 2)}
+                          </pre>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))}
+                {deliveries.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="px-6 py-8 text-center text-neutral-500">
+                      No deliveries yet.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import { NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { authorize } from "@/lib/authorize";
+import { Permission } from "@/lib/permissions";
+import {
+  agencyData,
+  agencySelect,
+  deleteAgency,
+  parseAgencyInput,
+} from "@/lib/agencies";
+
+// Renames an agency or changes its boundary, incident types or active flag.
+// Reports already routed stay where they are.
+export async function PATCH(
+  request: Request,
+  { params }: { params: { agencyId: string } }
+) {
+  try {
+    const { error } = await authorize(Permission.MANAGE_AGENCIES);
+    if (error) return error;
+
+    const parsed = parseAgencyInput(await request.json(), { partial: true });
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: parsed.status }
+      );
+    }
+
+    const { count } = await prisma.agency.updateMany({
+      where: { id: params.agencyId },
+      data: agencyData(parsed.value),
+    });
+    if (count === 0) {
+      return NextResponse.json({ error: "Agency not found" }, { status: 404 });
+    }
+
+    const agency = await prisma.agency.findUnique({
+      where: { id: params.agencyId },
+      select: agencySelect,
+    });
+
+    return NextResponse.json(agency);
+  } catch (error) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return NextResponse.json(
+        { error: "An agency with this name already exists" },
+        { status: 409 }
+      );
+    }
+    console.error("Error updating agency:", error);
+    return NextResponse.json(
+      { error: "Error updating agency" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: { agencyId: string } }
+) {
+  try {
+    const { error } = await authorize(Permission.MANAGE_AGENCIES);
+    if (error) return error;
+
+    const result = await deleteAgency(params.agencyId);
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting agency:", error);
+    return NextResponse.json(
+      { error: "Error deleting agency" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { authorize } from "@/lib/authorize";
+import { Permission } from "@/lib/permissions";
+import {
+  AgencyInput,
+  agencyData,
+  agencySelect,
+  parseAgencyInput,
+} from "@/lib/agencies";
+
+export async function GET() {
+  try {
+    const { error } = await authorize(Permission.MANAGE_AGENCIES);
+    if (error) return error;
+
+    const agencies = await prisma.agency.findMany({
+      select: agencySelect,
+      orderBy: { name: "asc" },
+    });
+
+    return NextResponse.json(agencies);
+  } catch (error) {
+    console.error("Failed to fetch agencies:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch agencies" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const { error } = await authorize(Permission.MANAGE_AGENCIES);
+    if (error) return error;
+
+    const parsed = parseAgencyInput(await request.json(), { partial: false });
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: parsed.status }
+      );
+    }
+
+    const agency = await prisma.agency.create({
+      data: agencyData(parsed.value as AgencyInput),
+      select: agencySelect,
+    });
+
+    return NextResponse.json(agency, { status: 201 });
+  } catch (error) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return NextResponse.json(
+        { error: "An agency with this name already exists" },
+        { status: 409 }
+      );
+    }
+    console.error("Error creating agency:", error);
+    return NextResponse.json(
+      { error: "Error creating agency" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { authorize } from "@/lib/authorize";
+import { Permission } from "@/lib/permissions";
+
+// Revokes an invitation that has not been accepted yet
+export async function DELETE(
+  request: Request,
+  { params }: { params: { invitationId: string } }
+) {
+  try {
+    const { error } = await authorize(Permission.MANAGE_USERS);
+    if (error) return error;
+
+    const { count } = await prisma.accountToken.deleteMany({
+      where: { id: params.invitationId, type: "INVITATION", usedAt: null },
+    });
+
+    if (count === 0) {
+      return NextResponse.json(
+        { error: "Invitation not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error revoking invitation:", error);
+    return NextResponse.json(
+      { error: "Error revoking invitation" },
+      { status: 500 }
+    );
+  }
+}
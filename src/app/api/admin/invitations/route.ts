@@ -0,0 +1,85 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { authorize } from "@/lib/authorize";
+import { Permission } from "@/lib/permissions";
+import { issueAccountToken } from "@/lib/account-tokens";
+import { isRole } from "@/lib/users";
+
+// Pending invitations, i.e. ones that are neither used nor expired
+export async function GET() {
+  try {
+    const { error } = await authorize(Permission.MANAGE_USERS);
+    if (error) return error;
+
+    const invitations = await prisma.accountToken.findMany({
+      where: {
+        type: "INVITATION",
+        usedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      select: {
+        id: true,
+        email: true,
+        role: true,
+        expiresAt: true,
+        createdAt: true,
+        createdBy: { select: { name: true } },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return NextResponse.json(invitations);
+  } catch (error) {
+    console.error("Failed to fetch invitations:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch invitations" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const { actor, error } = await authorize(Permission.MANAGE_USERS);
+    if (error) return error;
+
+    const { email, role } = await request.json();
+
+    if (!email || typeof email !== "string") {
+      return NextResponse.json({ error: "Email is required" }, { status: 400 });
+    }
+    if (!isRole(role)) {
+      return NextResponse.json({ error: "Invalid role" }, { status: 400 });
+    }
+
+    const existingUser = await prisma.user.findUnique({ where: { email } });
+    if (existingUser) {
+      return NextResponse.json(
+        { error: "User already exists" },
+        { status: 400 }
+      );
+    }
+
+    const { token, record } = await issueAccountToken({
+      type: "INVITATION",
+      email,
+      role,
+      createdById: actor.id,
+    });
+
+    return NextResponse.json(
+      {
+        id: record.id,
+        inviteUrl: new URL(`/auth/invite/${token}`, request.url).toString(),
+        expiresAt: record.expiresAt,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error creating invitation:", error);
+    return NextResponse.json(
+      { error: "Error creating invitation" },
+      { status: 500 }
+    );
+  }
+}
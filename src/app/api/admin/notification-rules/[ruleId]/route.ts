@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { authorize } from "@/lib/authorize";
+import { Permission } from "@/lib/permissions";
+import { parseRuleInput, updateRule } from "@/lib/notification-rules";
+
+// Changes a rule's conditions or destination, or switches it on or off.
+// Notifications already sent keep a link to the rule.
+export async function PATCH(
+  request: Request,
+  { params }: { params: { ruleId: string } }
+) {
+  try {
+    const { error } = await authorize(Permission.MANAGE_NOTIFICATIONS);
+    if (error) return error;
+
+    const parsed = parseRuleInput(await request.json(), { partial: true });
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: parsed.status }
+      );
+    }
+
+    const result = await updateRule(params.ruleId, parsed.value);
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json(result.value);
+  } catch (error) {
+    console.error("Error updating notification rule:", error);
+    return NextResponse.json(
+      { error: "Error updating notification rule" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: { ruleId: string } }
+) {
+  try {
+    const { error } = await authorize(Permission.MANAGE_NOTIFICATIONS);
+    if (error) return error;
+
+    const { count } = await prisma.notificationRule.deleteMany({
+      where: { id: params.ruleId },
+    });
+    if (count === 0) {
+      return NextResponse.json({ error: "Rule not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting notification rule:", error);
+    return NextResponse.json(
+      { error: "Error deleting notification rule" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { authorize } from "@/lib/authorize";
+import { Permission } from "@/lib/permissions";
+import {
+  RuleInput,
+  createRule,
+  parseRuleInput,
+  ruleSelect,
+} from "@/lib/notification-rules";
+
+export async function GET() {
+  try {
+    const { error } = await authorize(Permission.MANAGE_NOTIFICATIONS);
+    if (error) return error;
+
+    const rules = await prisma.notificationRule.findMany({
+      select: ruleSelect,
+      orderBy: { name: "asc" },
+    });
+
+    return NextResponse.json(rules);
+  } catch (error) {
+    console.error("Failed to fetch notification rules:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch notification rules" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const { error } = await authorize(Permission.MANAGE_NOTIFICATIONS);
+    if (error) return error;
+
+    const parsed = parseRuleInput(await request.json(), { partial: false });
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: parsed.status }
+      );
+    }
+
+    const result = await createRule(parsed.value as RuleInput);
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json(result.value, { status: 201 });
+  } catch (error) {
+    console.error("Error creating notification rule:", error);
+    return NextResponse.json(
+      { error: "Error creating notification rule" },
+      { status: 500 }
+    );
+  }
+}
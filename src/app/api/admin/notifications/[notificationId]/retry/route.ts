@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/authorize";
+import { Permission } from "@/lib/permissions";
+import { retryNotification } from "@/lib/notifications/dispatcher";
+
+// Sends a failed notification again, e.g. once its channel is configured
+export async function POST(
+  request: Request,
+  { params }: { params: { notificationId: string } }
+) {
+  try {
+    const { error } = await authorize(Permission.MANAGE_NOTIFICATIONS);
+    if (error) return error;
+
+    const notification = await retryNotification(params.notificationId);
+    if (!notification) {
+      return NextResponse.json(
+        { error: "No failed notification with this id" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(notification);
+  } catch (error) {
+    console.error("Error retrying notification:", error);
+    return NextResponse.json(
+      { error: "Error retrying notification" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { NotificationStatus } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { authorize } from "@/lib/authorize";
+import { Permission } from "@/lib/permissions";
+import { notificationSelect } from "@/lib/notifications/dispatcher";
+
+const LOG_LIMIT = 200;
+
+// The most recent notifications, newest first, optionally only those with
+// ?status=PENDING, SENT or FAILED
+export async function GET(request: Request) {
+  try {
+    const { error } = await authorize(Permission.MANAGE_NOTIFICATIONS);
+    if (error) return error;
+
+    const status = new URL(request.url).searchParams.get("status");
+    if (
+      status &&
+      !Object.values(NotificationStatus).includes(status as NotificationStatus)
+    ) {
+      return NextResponse.json({ error: "Unknown status" }, { status: 400 });
+    }
+
+    const notifications = await prisma.notification.findMany({
+      where: status ? { status: status as NotificationStatus } : {},
+      select: notificationSelect,
+      orderBy: { createdAt: "desc" },
+      take: LOG_LIMIT,
+    });
+
+    return NextResponse.json(notifications);
+  } catch (error) {
+    console.error("Failed to fetch notifications:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch notifications" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { authorize } from "@/lib/authorize";
+import { Permission } from "@/lib/permissions";
+import { issueAccountToken } from "@/lib/account-tokens";
+
+// Issues a single-use reset link. The admin passes it to the user; the admin
+// never sees or sets the new password.
+export async function POST(
+  request: Request,
+  { params }: { params: { userId: string } }
+) {
+  try {
+    const { actor, error } = await authorize(Permission.MANAGE_USERS);
+    if (error) return error;
+
+    const userId = Number(params.userId);
+    if (!Number.isInteger(userId)) {
+      return NextResponse.json({ error: "Invalid user id" }, { status: 400 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const { token, record } = await issueAccountToken({
+      type: "PASSWORD_RESET",
+      email: user.email,
+      userId: user.id,
+      createdById: actor.id,
+    });
+
+    return NextResponse.json(
+      {
+        resetUrl: new URL(`/auth/reset-password/${token}`, request.url).toString(),
+        expiresAt: record.expiresAt,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error issuing password reset:", error);
+    return NextResponse.json(
+      { error: "Error issuing password reset" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,99 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { authorize } from "@/lib/authorize";
+import { Permission } from "@/lib/permissions";
+import { isRole, userSelect } from "@/lib/users";
+import { releaseUnworkableAssignments } from "@/lib/assignments";
+import { publishReportEvent } from "@/lib/report-stream";
+import { publishReportWebhook } from "@/lib/webhooks";
+
+// Changes a user's role or agency, or activates/deactivates the account.
+// Reports the user can no longer work on afterwards are unassigned.
+export async function PATCH(
+  request: Request,
+  { params }: { params: { userId: string } }
+) {
+  try {
+    const { actor, error } = await authorize(Permission.MANAGE_USERS);
+    if (error) return error;
+
+    const userId = Number(params.userId);
+    if (!Number.isInteger(userId)) {
+      return NextResponse.json({ error: "Invalid user id" }, { status: 400 });
+    }
+
+    const { role, active, agencyId } = await request.json();
+
+    if (role !== undefined && !isRole(role)) {
+      return NextResponse.json({ error: "Invalid role" }, { status: 400 });
+    }
+    if (active !== undefined && typeof active !== "boolean") {
+      return NextResponse.json(
+        { error: "active must be a boolean" },
+        { status: 400 }
+      );
+    }
+
+    if (agencyId !== undefined && agencyId !== null) {
+      const agency =
+        typeof agencyId === "string" &&
+        (await prisma.agency.findUnique({ where: { id: agencyId } }));
+      if (!agency) {
+        return NextResponse.json({ error: "Invalid agency" }, { status: 400 });
+      }
+    }
+
+    // Stops admins from locking themselves (and possibly everyone) out
+    if (userId === actor.id && (active === false || (role && role !== "ADMIN"))) {
+      return NextResponse.json(
+        { error: "You cannot demote or deactivate your own account" },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.user.findUnique({ where: { id: userId } });
+    if (!existing) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const { user, released } = await prisma.$transaction(async (tx) => {
+      const user = await tx.user.update({
+        where: { id: userId },
+        data: {
+          ...(role !== undefined && { role }),
+          ...(active !== undefined && { active }),
+          ...(agencyId !== undefined && { agencyId }),
+        },
+        select: userSelect,
+      });
+      const released = await releaseUnworkableAssignments(
+        tx,
+        { assigneeId: userId },
+        { actorId: actor.id, note: "The assignee's account changed" }
+      );
+      return { user, released };
+    });
+
+    for (const report of released) {
+      if (report.unassigned) {
+        await publishReportEvent("report.assigned", report.reportId);
+        await publishReportWebhook("report.assigned", report.reportId);
+      } else {
+        await publishReportEvent("report.updated", report.reportId);
+      }
+      if (report.previousStatus) {
+        await publishReportWebhook("report.status_changed", report.reportId, {
+          previousStatus: report.previousStatus,
+        });
+      }
+    }
+
+    return NextResponse.json(user);
+  } catch (error) {
+    console.error("Error updating user:", error);
+    return NextResponse.json(
+      { error: "Error updating user" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { authorize } from "@/lib/authorize";
+import { Permission } from "@/lib/permissions";
+import { userSelect } from "@/lib/users";
+
+export async function GET() {
+  try {
+    const { error } = await authorize(Permission.MANAGE_USERS);
+    if (error) return error;
+
+    const users = await prisma.user.findMany({
+      select: userSelect,
+      orderBy: { createdAt: "asc" },
+    });
+
+    return NextResponse.json(users);
+  } catch (error) {
+    console.error("Failed to fetch users:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch users" },
+      { status: 500 }
+    );
+  }
+}
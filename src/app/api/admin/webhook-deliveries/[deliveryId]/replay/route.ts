@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/authorize";
+import { Permission } from "@/lib/permissions";
+import { replayDelivery } from "@/lib/webhooks";
+
+// Sends a delivery's payload again and returns the new delivery with the
+// receiver's response
+export async function POST(
+  request: Request,
+  { params }: { params: { deliveryId: string } }
+) {
+  try {
+    const { error } = await authorize(Permission.MANAGE_WEBHOOKS);
+    if (error) return error;
+
+    const result = await replayDelivery(params.deliveryId);
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json(result.value, { status: 201 });
+  } catch (error) {
+    console.error("Error replaying webhook delivery:", error);
+    return NextResponse.json(
+      { error: "Error replaying webhook delivery" },
+      { status: 500 }
+    );
+  }
+}
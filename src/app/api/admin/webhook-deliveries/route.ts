@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { Prisma, WebhookDeliveryStatus } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { authorize } from "@/lib/authorize";
+import { Permission } from "@/lib/permissions";
+import { deliverySelect } from "@/lib/webhooks";
+
+const LOG_LIMIT = 200;
+
+// The most recent deliveries, newest first. Narrow them with
+// ?subscriptionId= and ?status=PENDING, SUCCEEDED or FAILED.
+export async function GET(request: Request) {
+  try {
+    const { error } = await authorize(Permission.MANAGE_WEBHOOKS);
+    if (error) return error;
+
+    const searchParams = new URL(request.url).searchParams;
+    const subscriptionId = searchParams.get("subscriptionId");
+    const status = searchParams.get("status");
+    if (
+      status &&
+      !Object.values(WebhookDeliveryStatus).includes(
+        status as WebhookDeliveryStatus
+      )
+    ) {
+      return NextResponse.json({ error: "Unknown status" }, { status: 400 });
+    }
+
+    const where: Prisma.WebhookDeliveryWhereInput = {
+      ...(subscriptionId && { subscriptionId }),
+      ...(status && { status: status as WebhookDeliveryStatus }),
+    };
+    const deliveries = await prisma.webhookDelivery.findMany({
+      where,
+      select: deliverySelect,
+      orderBy: { createdAt: "desc" },
+      take: LOG_LIMIT,
+    });
+
+    return NextResponse.json(deliveries);
+  } catch (error) {
+    console.error("Failed to fetch webhook deliveries:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch webhook deliveries" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { authorize } from "@/lib/authorize";
+import { Permission } from "@/lib/permissions";
+import { parseSubscriptionInput, subscriptionSelect } from "@/lib/webhooks";
+
+// Changes a subscription's name, URL or events, or pauses it. Pending
+// deliveries to a paused subscription fail instead of being sent.
+export async function PATCH(
+  request: Request,
+  { params }: { params: { subscriptionId: string } }
+) {
+  try {
+    const { error } = await authorize(Permission.MANAGE_WEBHOOKS);
+    if (error) return error;
+
+    const parsed = parseSubscriptionInput(await request.json(), {
+      partial: true,
+    });
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: parsed.status }
+      );
+    }
+
+    const { count } = await prisma.webhookSubscription.updateMany({
+      where: { id: params.subscriptionId },
+      data: parsed.value,
+    });
+    if (count === 0) {
+      return NextResponse.json(
+        { error: "Subscription not found" },
+        { status: 404 }
+      );
+    }
+
+    const subscription = await prisma.webhookSubscription.findUnique({
+      where: { id: params.subscriptionId },
+      select: subscriptionSelect,
+    });
+
+    return NextResponse.json(subscription);
+  } catch (error) {
+    console.error("Error updating webhook:", error);
+    return NextResponse.json(
+      { error: "Error updating webhook" },
+      { status: 500 }
+    );
+  }
+}
+
+// Removes the subscription along with its delivery log
+export async function DELETE(
+  request: Request,
+  { params }: { params: { subscriptionId: string } }
+) {
+  try {
+    const { error } = await authorize(Permission.MANAGE_WEBHOOKS);
+    if (error) return error;
+
+    const { count } = await prisma.webhookSubscription.deleteMany({
+      where: { id: params.subscriptionId },
+    });
+    if (count === 0) {
+      return NextResponse.json(
+        { error: "Subscription not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting webhook:", error);
+    return NextResponse.json(
+      { error: "Error deleting webhook" },
+      { status: 500 }
+    );
+  }
+}
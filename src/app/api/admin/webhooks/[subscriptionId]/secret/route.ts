@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/authorize";
+import { Permission } from "@/lib/permissions";
+import { rotateSecret } from "@/lib/webhooks";
+
+// Issues a new signing secret and returns it once
+export async function POST(
+  request: Request,
+  { params }: { params: { subscriptionId: string } }
+) {
+  try {
+    const { error } = await authorize(Permission.MANAGE_WEBHOOKS);
+    if (error) return error;
+
+    const result = await rotateSecret(params.subscriptionId);
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json(result.value);
+  } catch (error) {
+    console.error("Error rotating webhook secret:", error);
+    return NextResponse.json(
+      { error: "Error rotating webhook secret" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { authorize } from "@/lib/authorize";
+import { Permission } from "@/lib/permissions";
+import {
+  SubscriptionInput,
+  createSubscription,
+  parseSubscriptionInput,
+  subscriptionSelect,
+} from "@/lib/webhooks";
+
+export async function GET() {
+  try {
+    const { error } = await authorize(Permission.MANAGE_WEBHOOKS);
+    if (error) return error;
+
+    const subscriptions = await prisma.webhookSubscription.findMany({
+      select: subscriptionSelect,
+      orderBy: { name: "asc" },
+    });
+
+    return NextResponse.json(subscriptions);
+  } catch (error) {
+    console.error("Failed to fetch webhooks:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch webhooks" },
+      { status: 500 }
+    );
+  }
+}
+
+// Creates a subscription. The response is the only one that includes the
+// signing secret.
+export async function POST(request: Request) {
+  try {
+    const { error } = await authorize(Permission.MANAGE_WEBHOOKS);
+    if (error) return error;
+
+    const parsed = parseSubscriptionInput(await request.json(), {
+      partial: false,
+    });
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: parsed.error },
+        { status: parsed.status }
+      );
+    }
+
+    const subscription = await createSubscription(
+      parsed.value as SubscriptionInput
+    );
+
+    return NextResponse.json(subscription, { status: 201 });
+  } catch (error) {
+    console.error("Error creating webhook:", error);
+    return NextResponse.json(
+      { error: "Error creating webhook" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,42 +1,37 @@
 import { NextResponse } from "next/server";
-import { GoogleGenerativeAI } from "@google/generative-ai";
-
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || "");
+import { getImageAnalyzer } from "@/lib/image-analysis";
+import { parseDataUrl, sniffMediaType } from "@/lib/media";
+import { sanitizeMedia } from "@/lib/sanitize-media";
 
+// The photo goes to a third-party model provider before the report exists, so
+// its identifying metadata is stripped here just as it is for stored uploads.
 export async function POST(request: Request) {
   try {
     const { image } = await request.json();
-    const base64Data = image.split(",")[1];
-
-    const model = genAI.getGenerativeModel({ model: "gemini-1.5-pro" });
-
-    const prompt = `Analyze this emergency situation image and respond in this exact format without any asterisks or bullet points:
-TITLE: Write a clear, brief title
-TYPE: Choose one (Theft, Fire Outbreak, Medical Emergency, Natural Disaster, Violence, or Other)
-DESCRIPTION: Write a clear, concise description`;
-
-    const result = await model.generateContent([
-      prompt,
-      {
-        inlineData: {
-          data: base64Data,
-          mimeType: "image/jpeg",
-        },
-      },
-    ]);
-
-    const text = await result.response.text();
-
-    // Parse the response more precisely
-    const titleMatch = text.match(/TITLE:\s*(.+)/);
-    const typeMatch = text.match(/TYPE:\s*(.+)/);
-    const descMatch = text.match(/DESCRIPTION:\s*(.+)/);
-
-    return NextResponse.json({
-      title: titleMatch?.[1]?.trim() || "",
-      reportType: typeMatch?.[1]?.trim() || "",
-      description: descMatch?.[1]?.trim() || "",
+    const parsed = typeof image === "string" ? parseDataUrl(image) : null;
+    const mimeType = parsed && sniffMediaType(parsed.data);
+
+    if (!parsed || !mimeType?.startsWith("image/")) {
+      return NextResponse.json(
+        { error: "Expected an image data URL" },
+        { status: 400 }
+      );
+    }
+
+    const sanitized = await sanitizeMedia(parsed.data, mimeType);
+    if (!sanitized) {
+      return NextResponse.json(
+        { error: "This image could not be processed" },
+        { status: 422 }
+      );
+    }
+
+    const analysis = await getImageAnalyzer().analyze({
+      data: sanitized.data,
+      mimeType,
     });
+
+    return NextResponse.json(analysis);
   } catch (error) {
     console.error("Image analysis error:", error);
     return NextResponse.json(
@@ -44,4 +39,4 @@ DESCRIPTION: Write a clear, concise description`;
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,79 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { authorize } from "@/lib/authorize";
+import { isReportVisible } from "@/lib/agencies";
+import { Permission } from "@/lib/permissions";
+import { checkReportAccess } from "@/lib/report-access";
+import { getStorage } from "@/lib/storage";
+
+// Serves an attachment to staff who may view reports, or to the reporter when
+// the request carries their passphrase.
+export async function GET(
+  request: Request,
+  { params }: { params: { attachmentId: string } }
+) {
+  try {
+    const attachment = await prisma.attachment.findUnique({
+      where: { id: params.attachmentId },
+      select: {
+        storageKey: true,
+        fileName: true,
+        mimeType: true,
+        report: { select: { reportId: true, accessHash: true } },
+      },
+    });
+
+    // Files not yet claimed by a submitted report are not served to anyone
+    if (!attachment?.report) {
+      return NextResponse.json(
+        { error: "Attachment not found" },
+        { status: 404 }
+      );
+    }
+
+    const access = await checkReportAccess(
+      request,
+      attachment.report.accessHash
+    );
+    if (access !== "granted") {
+      const { actor, error } = await authorize(Permission.VIEW_REPORTS);
+      if (error) return error;
+      if (!(await isReportVisible(actor, attachment.report.reportId))) {
+        return NextResponse.json(
+          { error: "Attachment not found" },
+          { status: 404 }
+        );
+      }
+    }
+
+    const data = await getStorage().get(attachment.storageKey);
+    if (!data) {
+      return NextResponse.json(
+        { error: "Attachment not found" },
+        { status: 404 }
+      );
+    }
+
+    // PDFs are downloaded rather than rendered inline on our origin
+    const disposition =
+      attachment.mimeType === "application/pdf" ? "attachment" : "inline";
+
+    return new NextResponse(data, {
+      headers: {
+        "Content-Type": attachment.mimeType,
+        "Content-Length": String(data.length),
+        "Content-Disposition": `${disposition}; filename="${encodeURIComponent(
+          attachment.fileName
+        )}"`,
+        "Cache-Control": "private, no-store",
+        "X-Content-Type-Options": "nosniff",
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching attachment:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch attachment" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,93 +1,7 @@
-import { PrismaAdapter } from "@auth/prisma-adapter";
-import { NextAuthOptions } from "next-auth";
 import NextAuth from "next-auth";
-import { JWT as NextAuthJWT } from "next-auth/jwt";
-
-import CredentialsProvider from "next-auth/providers/credentials";
-import bcrypt from "bcryptjs";
-import prisma from "@/lib/prisma";
-
-interface CustomJWT extends NextAuthJWT {
-  role: string;
-}
-
-type User = {
-  id: string;
-  email: string;
-  name?: string;
-  role: string;
-};
-
-function isUser(user: unknown): user is User {
-  return typeof (user as User).role === "string";
-}
-
-
-const authOptions: NextAuthOptions = {
-  adapter: PrismaAdapter(prisma),
-  providers: [
-    CredentialsProvider({
-      name: "Credentials",
-      credentials: {
-        email: { label: "Email", type: "email" },
-        password: { label: "Password", type: "password" },
-      },
-      async authorize(credentials) {
-        if (!credentials?.email || !credentials?.password) {
-          throw new Error("Please enter an email and password");
-        }
-
-        const user = await prisma.user.findUnique({
-          where: {
-            email: credentials.email,
-          },
-        });
-
-        if (!user) {
-          throw new Error("No user found with this email");
-        }
-
-        const passwordMatch = await bcrypt.compare(
-          credentials.password,
-          user.password
-        );
-
-        if (!passwordMatch) {
-          throw new Error("Incorrect password");
-        }
-
-        // Return user with role
-        return {
-          id: user.id.toString(),
-          email: user.email,
-          name: user.name,
-          role: user.role,
-        };
-      },
-    }),
-  ],
-  callbacks: {
-    async jwt({ token, user }) {
-      if (user && isUser(user)) {
-        (token as CustomJWT).role = user.role;
-      }
-      return token;
-    },
-    async session({ session, token }) {
-      if (session?.user) {
-        (session.user as { role: string }).role = (token as CustomJWT).role;
-      }
-      return session;
-    },
-  },
-  pages: {
-    signIn: "/auth/signin",
-  },
-  session: {
-    strategy: "jwt",
-  },
-};
+import { authOptions } from "@/lib/auth";
 
+// Share the options with getServerSession so both sides agree on the session shape
 const handler = NextAuth(authOptions);
 
 export { handler as GET, handler as POST };
@@ -0,0 +1,113 @@
+import { NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import bcrypt from "bcryptjs";
+import prisma from "@/lib/prisma";
+import { consumeToken, findUsableToken } from "@/lib/account-tokens";
+import { userSelect, validatePassword } from "@/lib/users";
+
+function invalidInvitation() {
+  return NextResponse.json(
+    { error: "This invitation is invalid or has expired" },
+    { status: 404 }
+  );
+}
+
+function accountExists() {
+  return NextResponse.json(
+    { error: "An account with this email already exists; sign in instead" },
+    { status: 409 }
+  );
+}
+
+export async function GET(
+  request: Request,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const invitation = await findUsableToken(params.token, "INVITATION");
+    if (!invitation) {
+      return invalidInvitation();
+    }
+
+    return NextResponse.json({
+      email: invitation.email,
+      role: invitation.role,
+    });
+  } catch (error) {
+    console.error("Error fetching invitation:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch invitation" },
+      { status: 500 }
+    );
+  }
+}
+
+// Accepts the invitation and creates the staff account it describes
+export async function POST(
+  request: Request,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const { name, password } = await request.json();
+
+    if (!name) {
+      return NextResponse.json({ error: "Name is required" }, { status: 400 });
+    }
+
+    const passwordError = validatePassword(password);
+    if (passwordError) {
+      return NextResponse.json({ error: passwordError }, { status: 400 });
+    }
+
+    const invitation = await findUsableToken(params.token, "INVITATION");
+    if (!invitation) {
+      return invalidInvitation();
+    }
+    // Checked before the invitation is used up, so it is not spent on an
+    // attempt that cannot succeed
+    const existingUser = await prisma.user.findUnique({
+      where: { email: invitation.email },
+      select: { id: true },
+    });
+    if (existingUser) {
+      return accountExists();
+    }
+
+    const hashedPassword = await bcrypt.hash(password, 10);
+
+    const user = await prisma.$transaction(async (tx) => {
+      if (!(await consumeToken(tx, invitation.id))) {
+        return null;
+      }
+
+      return tx.user.create({
+        data: {
+          email: invitation.email,
+          name,
+          password: hashedPassword,
+          role: invitation.role ?? "USER",
+        },
+        select: userSelect,
+      });
+    });
+
+    if (!user) {
+      return invalidInvitation();
+    }
+
+    return NextResponse.json(user, { status: 201 });
+  } catch (error) {
+    // Someone signed up with the email in the meantime
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return accountExists();
+    }
+    console.error("Error accepting invitation:", error);
+    return NextResponse.json(
+      { error: "Error accepting invitation" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import bcrypt from "bcryptjs";
+import prisma from "@/lib/prisma";
+import { consumeToken, findUsableToken } from "@/lib/account-tokens";
+import { validatePassword } from "@/lib/users";
+
+function invalidResetLink() {
+  return NextResponse.json(
+    { error: "This reset link is invalid or has expired" },
+    { status: 404 }
+  );
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const { password } = await request.json();
+
+    const passwordError = validatePassword(password);
+    if (passwordError) {
+      return NextResponse.json({ error: passwordError }, { status: 400 });
+    }
+
+    const resetToken = await findUsableToken(params.token, "PASSWORD_RESET");
+    if (!resetToken?.userId) {
+      return invalidResetLink();
+    }
+
+    const hashedPassword = await bcrypt.hash(password, 10);
+
+    const updated = await prisma.$transaction(async (tx) => {
+      if (!(await consumeToken(tx, resetToken.id))) {
+        return false;
+      }
+
+      await tx.user.update({
+        where: { id: resetToken.userId! },
+        data: { password: hashedPassword },
+      });
+      return true;
+    });
+
+    if (!updated) {
+      return invalidResetLink();
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error resetting password:", error);
+    return NextResponse.json(
+      { error: "Error resetting password" },
+      { status: 500 }
+    );
+  }
+}
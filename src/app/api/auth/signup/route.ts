@@ -1,10 +1,11 @@
 import prisma from "@/lib/prisma";
 import { NextResponse } from "next/server";
 import bcrypt from "bcryptjs";
+import { userSelect, validatePassword } from "@/lib/users";
 
 export async function POST(request: Request) {
   try {
-    const { email, password, name, role } = await request.json();
+    const { email, password, name } = await request.json();
 
     // Basic validation
     if (!email || !password || !name) {
@@ -14,6 +15,11 @@ export async function POST(request: Request) {
       );
     }
 
+    const passwordError = validatePassword(password);
+    if (passwordError) {
+      return NextResponse.json({ error: passwordError }, { status: 400 });
+    }
+
     // Check if user already exists
     const existingUser = await prisma.user.findUnique({
       where: { email },
@@ -29,21 +35,19 @@ export async function POST(request: Request) {
     // Hash password
     const hashedPassword = await bcrypt.hash(password, 10);
 
-    // Create user
+    // Public signups are always plain users; staff accounts come from
+    // admin invitations instead
     const user = await prisma.user.create({
       data: {
         email,
         name,
         password: hashedPassword,
-        role: role as "ADMIN" | "MODERATOR" | "USER",
+        role: "USER",
       },
+      select: userSelect,
     });
 
-    // Remove password from response
-    const { password: _, ...userWithoutPassword } = user;
-    console.log(password,_,)
-
-    return NextResponse.json(userWithoutPassword, { status: 201 });
+    return NextResponse.json(user, { status: 201 });
   } catch (error: unknown) {
     console.error("Signup error:", error);
     return NextResponse.json({ error: "Error creating user" }, { status: 500 });
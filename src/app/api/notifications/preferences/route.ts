@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/authorize";
+import { Permission } from "@/lib/permissions";
+import { getPreferences, updatePreferences } from "@/lib/notify";
+
+// The signed-in staff member's own notification channels and phone number
+export async function GET() {
+  try {
+    const { actor, error } = await authorize(Permission.VIEW_REPORTS);
+    if (error) return error;
+
+    const preferences = await getPreferences(actor.id);
+    if (!preferences) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(preferences);
+  } catch (error) {
+    console.error("Error fetching notification preferences:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch notification preferences" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: Request) {
+  try {
+    const { actor, error } = await authorize(Permission.VIEW_REPORTS);
+    if (error) return error;
+
+    const result = await updatePreferences(actor.id, await request.json());
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json(result.value);
+  } catch (error) {
+    console.error("Error updating notification preferences:", error);
+    return NextResponse.json(
+      { error: "Failed to update notification preferences" },
+      { status: 500 }
+    );
+  }
+}
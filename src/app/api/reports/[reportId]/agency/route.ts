@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { authorize } from "@/lib/authorize";
+import { Permission } from "@/lib/permissions";
+import { reassignReport } from "@/lib/agencies";
+import { publishReportEvent } from "@/lib/report-stream";
+import { publishReportWebhook } from "@/lib/webhooks";
+
+// Moves the report to another agency's queue. agencyId null puts it back in
+// the unrouted queue.
+export async function PUT(
+  request: Request,
+  { params }: { params: { reportId: string } }
+) {
+  try {
+    const { actor, error } = await authorize(Permission.MANAGE_AGENCIES);
+    if (error) return error;
+
+    const { agencyId, note } = await request.json();
+    if (agencyId !== null && typeof agencyId !== "string") {
+      return NextResponse.json(
+        { error: "agencyId must be an agency id or null" },
+        { status: 400 }
+      );
+    }
+
+    const previous = await prisma.report.findUnique({
+      where: { reportId: params.reportId },
+      select: { agencyId: true },
+    });
+    const result = await reassignReport(params.reportId, agencyId, {
+      actorId: actor.id,
+      note: typeof note === "string" ? note : null,
+    });
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    await publishReportEvent("report.updated", params.reportId, {
+      previousAgencyId: previous?.agencyId ?? null,
+    });
+    for (const released of result.value.released) {
+      // The moved report's own update was published above
+      if (released.unassigned) {
+        await publishReportWebhook("report.assigned", released.reportId);
+      } else {
+        await publishReportEvent("report.updated", released.reportId);
+      }
+      if (released.previousStatus) {
+        await publishReportWebhook("report.status_changed", released.reportId, {
+          previousStatus: released.previousStatus,
+        });
+      }
+    }
+    return NextResponse.json({ agency: result.value.agency });
+  } catch (error) {
+    console.error("Error reassigning report:", error);
+    return NextResponse.json(
+      { error: "Error reassigning report" },
+      { status: 500 }
+    );
+  }
+}
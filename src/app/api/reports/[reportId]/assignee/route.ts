@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { authorizeReport } from "@/lib/authorize";
+import { Permission } from "@/lib/permissions";
+import { assignReport } from "@/lib/assignments";
+import { publishReportEvent } from "@/lib/report-stream";
+import { notifyAssigned } from "@/lib/notify";
+import { publishReportWebhook } from "@/lib/webhooks";
+
+// Assigns the report to a staff member, or unassigns it when userId is null
+export async function PUT(
+  request: Request,
+  { params }: { params: { reportId: string } }
+) {
+  try {
+    const { actor, error } = await authorizeReport(
+      params.reportId,
+      Permission.ASSIGN_REPORTS
+    );
+    if (error) return error;
+
+    const { userId } = await request.json();
+    if (userId !== null && !Number.isInteger(userId)) {
+      return NextResponse.json(
+        { error: "userId must be a user id or null" },
+        { status: 400 }
+      );
+    }
+
+    const result = await assignReport(params.reportId, userId, {
+      actorId: actor.id,
+    });
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    if (result.value.changed) {
+      await publishReportEvent("report.assigned", params.reportId);
+      await notifyAssigned(params.reportId, userId, actor);
+      await publishReportWebhook("report.assigned", params.reportId);
+    }
+    return NextResponse.json({ assignee: result.value.assignee });
+  } catch (error) {
+    console.error("Error assigning report:", error);
+    return NextResponse.json(
+      { error: "Error assigning report" },
+      { status: 500 }
+    );
+  }
+}
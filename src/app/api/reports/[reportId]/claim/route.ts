@@ -0,0 +1,77 @@
+import { NextResponse } from "next/server";
+import { authorizeReport } from "@/lib/authorize";
+import { Permission } from "@/lib/permissions";
+import { assignReport, unclaimReport } from "@/lib/assignments";
+import { publishReportEvent } from "@/lib/report-stream";
+import { publishReportWebhook } from "@/lib/webhooks";
+
+// Takes an unassigned report for the signed-in staff member
+export async function POST(
+  request: Request,
+  { params }: { params: { reportId: string } }
+) {
+  try {
+    const { actor, error } = await authorizeReport(
+      params.reportId,
+      Permission.CHANGE_STATUS
+    );
+    if (error) return error;
+
+    const result = await assignReport(params.reportId, actor.id, {
+      actorId: actor.id,
+      onlyIfUnassigned: true,
+    });
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    if (result.value.changed) {
+      await publishReportEvent("report.assigned", params.reportId);
+      await publishReportWebhook("report.assigned", params.reportId);
+    }
+    return NextResponse.json({ assignee: result.value.assignee });
+  } catch (error) {
+    console.error("Error claiming report:", error);
+    return NextResponse.json(
+      { error: "Error claiming report" },
+      { status: 500 }
+    );
+  }
+}
+
+// Gives the report back to the unassigned queue
+export async function DELETE(
+  request: Request,
+  { params }: { params: { reportId: string } }
+) {
+  try {
+    const { actor, error } = await authorizeReport(
+      params.reportId,
+      Permission.CHANGE_STATUS
+    );
+    if (error) return error;
+
+    const result = await unclaimReport(params.reportId, actor);
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    if (result.value.changed) {
+      await publishReportEvent("report.assigned", params.reportId);
+      await publishReportWebhook("report.assigned", params.reportId);
+    }
+    return NextResponse.json({ assignee: result.value.assignee });
+  } catch (error) {
+    console.error("Error releasing report:", error);
+    return NextResponse.json(
+      { error: "Error releasing report" },
+      { status: 500 }
+    );
+  }
+}
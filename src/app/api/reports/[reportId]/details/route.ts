@@ -1,9 +1,9 @@
 import { NextResponse } from "next/server";
-import { PrismaClient } from "@prisma/client";
-import { getServerSession } from "next-auth";
-
-const prisma = new PrismaClient();
+import prisma from "@/lib/prisma";
+import { checkReportAccess } from "@/lib/report-access";
 
+// Anyone with the reportId can see the status. The full report needs the
+// passphrase issued at submission.
 export async function GET(
   request: Request,
   { params }: { params: { reportId: string } }
@@ -13,44 +13,53 @@ export async function GET(
       where: {
         reportId: params.reportId,
       },
+      select: {
+        reportId: true,
+        status: true,
+        createdAt: true,
+        updatedAt: true,
+        title: true,
+        description: true,
+        reportType: true,
+        location: true,
+        accessHash: true,
+      },
     });
 
     if (!report) {
       return NextResponse.json({ error: "Report not found" }, { status: 404 });
     }
 
-    return NextResponse.json(report);
-  } catch (error) {
-    console.error("Error fetching report details:", error);
-    return NextResponse.json(
-      { error: "Failed to fetch report details" },
-      { status: 500 }
-    );
-  }
-}
+    const { accessHash, ...details } = report;
+    const access = await checkReportAccess(request, accessHash);
 
-export async function PATCH(
-  request: Request,
-  { params }: { params: { id: string } }
-) {
-  try {
-    const session = await getServerSession();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    if (access === "denied") {
+      return NextResponse.json(
+        { error: "Incorrect passphrase" },
+        { status: 401 }
+      );
     }
 
-    const { status } = await request.json();
-    const report = await prisma.report.update({
-      where: { id: params.id },
-      data: { status },
-    });
+    if (access === "missing") {
+      const { reportId, status, createdAt, updatedAt } = details;
+      return NextResponse.json({
+        reportId,
+        status,
+        createdAt,
+        updatedAt,
+        restricted: true,
+      });
+    }
 
-    return NextResponse.json(report);
+    return NextResponse.json({ ...details, restricted: false });
   } catch (error) {
-    console.error("Error updating report:", error); 
+    console.error("Error fetching report details:", error);
     return NextResponse.json(
-      { error: "Error updating report" },
+      { error: "Failed to fetch report details" },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+// Status updates share the main report handler so both paths are checked the same way
+export { PATCH } from "../route";
@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { authorizeReport } from "@/lib/authorize";
+import { Permission } from "@/lib/permissions";
+import { findDuplicateCandidates } from "@/lib/duplicates";
+import { reportScope } from "@/lib/agencies";
+
+// Open reports that may describe the same incident, best match first.
+// Optional radius (meters) and window (hours) widen or narrow the search.
+export async function GET(
+  request: Request,
+  { params }: { params: { reportId: string } }
+) {
+  try {
+    const { actor, error } = await authorizeReport(
+      params.reportId,
+      Permission.VIEW_REPORTS
+    );
+    if (error) return error;
+
+    const report = await prisma.report.findUnique({
+      where: { reportId: params.reportId },
+      select: {
+        id: true,
+        reportType: true,
+        title: true,
+        description: true,
+        latitude: true,
+        longitude: true,
+        createdAt: true,
+      },
+    });
+
+    if (!report) {
+      return NextResponse.json({ error: "Report not found" }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const radius = Number(searchParams.get("radius"));
+    const windowHours = Number(searchParams.get("window"));
+
+    const candidates = await findDuplicateCandidates(report, {
+      scope: reportScope(actor),
+      ...(radius > 0 && { radiusMeters: radius }),
+      ...(windowHours > 0 && { windowHours }),
+    });
+
+    return NextResponse.json(candidates);
+  } catch (error) {
+    console.error("Error finding duplicate reports:", error);
+    return NextResponse.json(
+      { error: "Failed to find duplicate reports" },
+      { status: 500 }
+    );
+  }
+}
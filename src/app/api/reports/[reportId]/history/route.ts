@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { authorizeReport } from "@/lib/authorize";
+import { Permission } from "@/lib/permissions";
+import { internalEventSelect } from "@/lib/report-events";
+
+// Full audit history for the dashboard, including who made each change.
+export async function GET(
+  request: Request,
+  { params }: { params: { reportId: string } }
+) {
+  try {
+    const { error } = await authorizeReport(
+      params.reportId,
+      Permission.VIEW_REPORTS
+    );
+    if (error) return error;
+
+    const report = await prisma.report.findUnique({
+      where: { reportId: params.reportId },
+      select: {
+        events: {
+          select: internalEventSelect,
+          orderBy: { createdAt: "asc" },
+        },
+      },
+    });
+
+    if (!report) {
+      return NextResponse.json({ error: "Report not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(report.events);
+  } catch (error) {
+    console.error("Error fetching report history:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch report history" },
+      { status: 500 }
+    );
+  }
+}
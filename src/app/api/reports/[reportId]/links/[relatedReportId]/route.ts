@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { authorizeReport } from "@/lib/authorize";
+import { Permission } from "@/lib/permissions";
+import { unlinkReports } from "@/lib/incidents";
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: { reportId: string; relatedReportId: string } }
+) {
+  try {
+    const { actor, error } = await authorizeReport(
+      params.reportId,
+      Permission.EDIT_REPORTS
+    );
+    if (error) return error;
+
+    const result = await unlinkReports(
+      params.reportId,
+      params.relatedReportId,
+      { actorId: actor.id }
+    );
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error unlinking reports:", error);
+    return NextResponse.json(
+      { error: "Failed to unlink reports" },
+      { status: 500 }
+    );
+  }
+}
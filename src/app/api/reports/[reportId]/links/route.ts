@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+import { authorizeReport } from "@/lib/authorize";
+import { Permission } from "@/lib/permissions";
+import { getIncidentLinks, linkReports } from "@/lib/incidents";
+import { isReportVisible } from "@/lib/agencies";
+
+// The merged incident this report belongs to and the reports related to it
+export async function GET(
+  request: Request,
+  { params }: { params: { reportId: string } }
+) {
+  try {
+    const { error } = await authorizeReport(
+      params.reportId,
+      Permission.VIEW_REPORTS
+    );
+    if (error) return error;
+
+    const links = await getIncidentLinks(params.reportId);
+    if (!links) {
+      return NextResponse.json({ error: "Report not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(links);
+  } catch (error) {
+    console.error("Error fetching related reports:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch related reports" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: { reportId: string } }
+) {
+  try {
+    const { actor, error } = await authorizeReport(
+      params.reportId,
+      Permission.EDIT_REPORTS
+    );
+    if (error) return error;
+
+    const { relatedReportId } = await request.json();
+    if (typeof relatedReportId !== "string") {
+      return NextResponse.json(
+        { error: "relatedReportId is required" },
+        { status: 400 }
+      );
+    }
+    if (!(await isReportVisible(actor, relatedReportId))) {
+      return NextResponse.json({ error: "Report not found" }, { status: 404 });
+    }
+
+    const result = await linkReports(params.reportId, relatedReportId, {
+      actorId: actor.id,
+    });
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({ success: true }, { status: 201 });
+  } catch (error) {
+    console.error("Error linking reports:", error);
+    return NextResponse.json(
+      { error: "Failed to link reports" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,91 @@
+import { NextResponse } from "next/server";
+import { authorizeReport } from "@/lib/authorize";
+import { Permission } from "@/lib/permissions";
+import { mergeReport, unmergeReport } from "@/lib/incidents";
+import { isReportVisible } from "@/lib/agencies";
+import { publishReportEvent } from "@/lib/report-stream";
+import { publishReportWebhook } from "@/lib/webhooks";
+
+// Merges this report into the incident identified by parentReportId
+export async function POST(
+  request: Request,
+  { params }: { params: { reportId: string } }
+) {
+  try {
+    const { actor, error } = await authorizeReport(
+      params.reportId,
+      Permission.EDIT_REPORTS
+    );
+    if (error) return error;
+
+    const { parentReportId } = await request.json();
+    if (typeof parentReportId !== "string") {
+      return NextResponse.json(
+        { error: "parentReportId is required" },
+        { status: 400 }
+      );
+    }
+    if (!(await isReportVisible(actor, parentReportId))) {
+      return NextResponse.json({ error: "Report not found" }, { status: 404 });
+    }
+
+    const result = await mergeReport(params.reportId, parentReportId, {
+      actorId: actor.id,
+    });
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    // The merged report leaves the list and its incident gains a report
+    await publishReportEvent("report.updated", params.reportId);
+    await publishReportEvent("report.updated", result.value.parentReportId);
+    for (const changed of result.value.statusChanged) {
+      if (changed.reportId !== params.reportId) {
+        await publishReportEvent("report.updated", changed.reportId);
+      }
+      await publishReportWebhook("report.status_changed", changed.reportId, {
+        previousStatus: changed.status,
+      });
+    }
+    return NextResponse.json({ parentReportId: result.value.parentReportId });
+  } catch (error) {
+    console.error("Error merging report:", error);
+    return NextResponse.json(
+      { error: "Failed to merge report" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: { reportId: string } }
+) {
+  try {
+    const { actor, error } = await authorizeReport(
+      params.reportId,
+      Permission.EDIT_REPORTS
+    );
+    if (error) return error;
+
+    const result = await unmergeReport(params.reportId, { actorId: actor.id });
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    await publishReportEvent("report.updated", params.reportId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error unmerging report:", error);
+    return NextResponse.json(
+      { error: "Failed to unmerge report" },
+      { status: 500 }
+    );
+  }
+}
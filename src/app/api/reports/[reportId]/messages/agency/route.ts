@@ -0,0 +1,98 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { authorizeReport } from "@/lib/authorize";
+import { Permission } from "@/lib/permissions";
+import {
+  MAX_MESSAGE_LENGTH,
+  messageSelect,
+  validateMessageBody,
+} from "@/lib/messages";
+import { publishReportMessage } from "@/lib/report-stream";
+import { publishMessageWebhook } from "@/lib/webhooks";
+
+// Staff side of the thread, reached from the dashboard.
+export async function GET(
+  request: Request,
+  { params }: { params: { reportId: string } }
+) {
+  try {
+    const { error } = await authorizeReport(
+      params.reportId,
+      Permission.VIEW_REPORTS
+    );
+    if (error) return error;
+
+    const report = await prisma.report.findUnique({
+      where: { reportId: params.reportId },
+      select: {
+        messages: {
+          select: messageSelect,
+          orderBy: { createdAt: "asc" },
+        },
+      },
+    });
+
+    if (!report) {
+      return NextResponse.json({ error: "Report not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(report.messages);
+  } catch (error) {
+    console.error("Error fetching messages:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch messages" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: { reportId: string } }
+) {
+  try {
+    const { actor, error } = await authorizeReport(
+      params.reportId,
+      Permission.MESSAGE_REPORTERS
+    );
+    if (error) return error;
+
+    const { body } = await request.json();
+    const text = validateMessageBody(body);
+    if (!text) {
+      return NextResponse.json(
+        { error: `Message must be 1-${MAX_MESSAGE_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const report = await prisma.report.findUnique({
+      where: { reportId: params.reportId },
+      select: { id: true },
+    });
+
+    if (!report) {
+      return NextResponse.json({ error: "Report not found" }, { status: 404 });
+    }
+
+    const message = await prisma.reportMessage.create({
+      data: {
+        reportId: report.id,
+        sender: "AGENCY",
+        body: text,
+        authorId: actor.id,
+      },
+      select: messageSelect,
+    });
+    publishReportMessage(params.reportId, message);
+    await publishMessageWebhook(params.reportId, message);
+
+    return NextResponse.json(message, { status: 201 });
+  } catch (error) {
+    console.error("Error sending message:", error);
+    return NextResponse.json(
+      { error: "Failed to send message" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,100 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import {
+  MAX_MESSAGE_LENGTH,
+  messageSelect,
+  validateMessageBody,
+} from "@/lib/messages";
+import { publishReportMessage } from "@/lib/report-stream";
+import { publishMessageWebhook } from "@/lib/webhooks";
+import { checkReportAccess } from "@/lib/report-access";
+
+// Reporter side of the thread. The reportId plus its passphrase are the only
+// credentials, so nothing else about the caller is read or stored here.
+export async function GET(
+  request: Request,
+  { params }: { params: { reportId: string } }
+) {
+  try {
+    const report = await prisma.report.findUnique({
+      where: { reportId: params.reportId },
+      select: {
+        accessHash: true,
+        messages: {
+          select: messageSelect,
+          orderBy: { createdAt: "asc" },
+        },
+      },
+    });
+
+    if (!report) {
+      return NextResponse.json({ error: "Report not found" }, { status: 404 });
+    }
+
+    if ((await checkReportAccess(request, report.accessHash)) !== "granted") {
+      return NextResponse.json(
+        { error: "A valid passphrase is required" },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json(report.messages);
+  } catch (error) {
+    console.error("Error fetching messages:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch messages" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: { reportId: string } }
+) {
+  try {
+    const { body } = await request.json();
+    const text = validateMessageBody(body);
+    if (!text) {
+      return NextResponse.json(
+        { error: `Message must be 1-${MAX_MESSAGE_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const report = await prisma.report.findUnique({
+      where: { reportId: params.reportId },
+      select: { id: true, accessHash: true },
+    });
+
+    if (!report) {
+      return NextResponse.json({ error: "Report not found" }, { status: 404 });
+    }
+
+    if ((await checkReportAccess(request, report.accessHash)) !== "granted") {
+      return NextResponse.json(
+        { error: "A valid passphrase is required" },
+        { status: 401 }
+      );
+    }
+
+    const message = await prisma.reportMessage.create({
+      data: {
+        reportId: report.id,
+        sender: "REPORTER",
+        body: text,
+      },
+      select: messageSelect,
+    });
+    publishReportMessage(params.reportId, message);
+    await publishMessageWebhook(params.reportId, message);
+
+    return NextResponse.json(message, { status: 201 });
+  } catch (error) {
+    console.error("Error sending message:", error);
+    return NextResponse.json(
+      { error: "Failed to send message" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { authorizeReport } from "@/lib/authorize";
+import { Permission } from "@/lib/permissions";
+import { MAX_NOTE_LENGTH, editNote, validateNoteBody } from "@/lib/notes";
+import { notifyMentioned } from "@/lib/notify";
+
+// Authors edit their own notes; the previous text stays in the note's history
+export async function PATCH(
+  request: Request,
+  { params }: { params: { reportId: string; noteId: string } }
+) {
+  try {
+    const { actor, error } = await authorizeReport(
+      params.reportId,
+      Permission.VIEW_REPORTS
+    );
+    if (error) return error;
+
+    const { body } = await request.json();
+    const text = validateNoteBody(body);
+    if (!text) {
+      return NextResponse.json(
+        { error: `Note must be 1-${MAX_NOTE_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    // Only people the edit newly mentions are notified
+    const previous = await prisma.reportNoteMention.findMany({
+      where: { noteId: params.noteId },
+      select: { userId: true },
+    });
+    const result = await editNote(params.reportId, params.noteId, text, actor);
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    await notifyMentioned(
+      params.reportId,
+      result.value.mentions
+        .map(({ user }) => user.id)
+        .filter((id) => !previous.some((mention) => mention.userId === id)),
+      actor
+    );
+    return NextResponse.json(result.value);
+  } catch (error) {
+    console.error("Error editing note:", error);
+    return NextResponse.json(
+      { error: "Failed to edit note" },
+      { status: 500 }
+    );
+  }
+}
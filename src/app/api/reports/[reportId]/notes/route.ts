@@ -0,0 +1,91 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { authorizeReport } from "@/lib/authorize";
+import { Permission } from "@/lib/permissions";
+import {
+  MAX_NOTE_LENGTH,
+  createNote,
+  noteSelect,
+  validateNoteBody,
+} from "@/lib/notes";
+import { notifyMentioned } from "@/lib/notify";
+
+// Internal case notes. Staff only; nothing here is reachable with a
+// reporter's passphrase.
+export async function GET(
+  request: Request,
+  { params }: { params: { reportId: string } }
+) {
+  try {
+    const { error } = await authorizeReport(
+      params.reportId,
+      Permission.VIEW_REPORTS
+    );
+    if (error) return error;
+
+    const report = await prisma.report.findUnique({
+      where: { reportId: params.reportId },
+      select: {
+        notes: {
+          select: noteSelect,
+          orderBy: { createdAt: "asc" },
+        },
+      },
+    });
+
+    if (!report) {
+      return NextResponse.json({ error: "Report not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(report.notes);
+  } catch (error) {
+    console.error("Error fetching notes:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch notes" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: { reportId: string } }
+) {
+  try {
+    const { actor, error } = await authorizeReport(
+      params.reportId,
+      Permission.VIEW_REPORTS
+    );
+    if (error) return error;
+
+    const { body } = await request.json();
+    const text = validateNoteBody(body);
+    if (!text) {
+      return NextResponse.json(
+        { error: `Note must be 1-${MAX_NOTE_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const result = await createNote(params.reportId, text, actor);
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+
+    await notifyMentioned(
+      params.reportId,
+      result.value.mentions.map(({ user }) => user.id),
+      actor
+    );
+    return NextResponse.json(result.value, { status: 201 });
+  } catch (error) {
+    console.error("Error adding note:", error);
+    return NextResponse.json(
+      { error: "Failed to add note" },
+      { status: 500 }
+    );
+  }
+}
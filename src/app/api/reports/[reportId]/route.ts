@@ -1,23 +1,137 @@
-import prisma from "@/lib/prisma";
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
+import prisma from "@/lib/prisma";
+import { authorizeReport, forbidden } from "@/lib/authorize";
+import { Permission, hasPermission } from "@/lib/permissions";
+import {
+  parseReportChanges,
+  permissionsFor,
+  reportSelect,
+  updateReport,
+} from "@/lib/reports";
+import { checkTransition } from "@/lib/workflow";
+import {
+  publishReportEvent,
+  publishReportRemoved,
+} from "@/lib/report-stream";
+import { publishReportWebhook } from "@/lib/webhooks";
+
+// The full report for the staff case page. Reporters use /details instead.
+export async function GET(
+  request: Request,
+  { params }: { params: { reportId: string } }
+) {
+  try {
+    const { error } = await authorizeReport(
+      params.reportId,
+      Permission.VIEW_REPORTS
+    );
+    if (error) return error;
+
+    const report = await prisma.report.findUnique({
+      where: { reportId: params.reportId },
+      select: reportSelect,
+    });
+
+    if (!report) {
+      return NextResponse.json({ error: "Report not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error("Error fetching report:", error);
+    return NextResponse.json(
+      { error: "Error fetching report" },
+      { status: 500 }
+    );
+  }
+}
 
 export async function PATCH(
   request: Request,
   { params }: { params: { reportId: string } }
 ) {
   try {
-    const session = await getServerSession();
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    const { actor, error } = await authorizeReport(
+      params.reportId,
+      Permission.VIEW_REPORTS
+    );
+    if (error) return error;
+
+    const body = await request.json();
+    const parsed = parseReportChanges(body);
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const changes = parsed.value;
+    // Status changes into a closed state explain why; the reason is kept
+    // as the note on the history entry
+    const reason = typeof body.reason === "string" ? body.reason : null;
+    const note = reason || (typeof body.note === "string" ? body.note : null);
+
+    if (!permissionsFor(changes).every((p) => hasPermission(actor.role, p))) {
+      return forbidden();
     }
 
-    const { status } = await request.json();
-    const report = await prisma.report.update({
-      where: { id: params.reportId },
-      data: { status },
+    let previousStatus: string | null = null;
+    let followers: { reportId: string; status: string }[] = [];
+    if (changes.status !== undefined) {
+      const existing = await prisma.report.findUnique({
+        where: { reportId: params.reportId },
+        select: { status: true, parentId: true, assigneeId: true },
+      });
+      if (!existing) {
+        return NextResponse.json(
+          { error: "Report not found" },
+          { status: 404 }
+        );
+      }
+      if (existing.parentId) {
+        return NextResponse.json(
+          {
+            error:
+              "Change the status of the incident this report was merged into",
+          },
+          { status: 409 }
+        );
+      }
+      const invalid = checkTransition(existing.status, changes.status, {
+        reason: note,
+        hasAssignee: existing.assigneeId !== null,
+      });
+      if (invalid) {
+        return NextResponse.json({ error: invalid }, { status: 400 });
+      }
+      previousStatus = existing.status;
+      // Reports merged into this one change status along with it
+      followers = await prisma.report.findMany({
+        where: {
+          parent: { reportId: params.reportId },
+          status: { not: changes.status },
+        },
+        select: { reportId: true, status: true },
+      });
+    }
+
+    const report = await updateReport(params.reportId, changes, {
+      actorId: actor.id,
+      note,
     });
 
+    if (!report) {
+      return NextResponse.json({ error: "Report not found" }, { status: 404 });
+    }
+
+    await publishReportEvent("report.updated", params.reportId);
+    if (previousStatus !== null && previousStatus !== report.status) {
+      for (const changed of [
+        { reportId: params.reportId, status: previousStatus },
+        ...followers,
+      ]) {
+        await publishReportWebhook("report.status_changed", changed.reportId, {
+          previousStatus: changed.status,
+        });
+      }
+    }
     return NextResponse.json(report);
   } catch (error) {
     console.error("Error updating report:", error); 
@@ -26,4 +140,38 @@ export async function PATCH(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: { reportId: string } }
+) {
+  try {
+    const { error } = await authorizeReport(
+      params.reportId,
+      Permission.DELETE_REPORTS
+    );
+    if (error) return error;
+
+    const report = await prisma.report.findUnique({
+      where: { reportId: params.reportId },
+      select: { agencyId: true },
+    });
+    const { count } = await prisma.report.deleteMany({
+      where: { reportId: params.reportId },
+    });
+
+    if (!report || count === 0) {
+      return NextResponse.json({ error: "Report not found" }, { status: 404 });
+    }
+
+    publishReportRemoved(params.reportId, report.agencyId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting report:", error);
+    return NextResponse.json(
+      { error: "Error deleting report" },
+      { status: 500 }
+    );
+  }
+}
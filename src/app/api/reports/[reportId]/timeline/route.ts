@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import {
+  PUBLIC_EVENT_TYPES,
+  publicEventSelect,
+  toPublicEvent,
+} from "@/lib/report-events";
+
+// Reporter-facing timeline: status milestones only, with no staff identities
+// or internal notes.
+export async function GET(
+  request: Request,
+  { params }: { params: { reportId: string } }
+) {
+  try {
+    const report = await prisma.report.findUnique({
+      where: { reportId: params.reportId },
+      select: {
+        events: {
+          where: { type: { in: PUBLIC_EVENT_TYPES } },
+          select: publicEventSelect,
+          orderBy: { createdAt: "asc" },
+        },
+      },
+    });
+
+    if (!report) {
+      return NextResponse.json({ error: "Report not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(report.events.map(toPublicEvent));
+  } catch (error) {
+    console.error("Error fetching report timeline:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch report timeline" },
+      { status: 500 }
+    );
+  }
+}
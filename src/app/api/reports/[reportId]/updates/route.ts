@@ -0,0 +1,83 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { checkReportAccess } from "@/lib/report-access";
+import { createRateLimiter } from "@/lib/rate-limit";
+import { eventStream } from "@/lib/sse";
+import {
+  acquireStream,
+  streamKey,
+  watchReport,
+} from "@/lib/reporter-stream";
+
+export const dynamic = "force-dynamic";
+
+// Streams are recycled every half hour and trackers reconnect on their own,
+// so a forgotten tab never holds a connection forever
+const MAX_STREAM_MS = 30 * 60 * 1000;
+
+// Limits are keyed by report and by whether the passphrase was given: like
+// the rest of the reporter API nothing about the caller, such as their IP
+// address, is read, and status-only connects cannot use up the reporter's
+const connectLimiter = createRateLimiter({ limit: 10, windowMs: 60 * 1000 });
+
+function tooManyRequests(retryAfterSeconds: number) {
+  return NextResponse.json(
+    { error: "Too many connections for this report, try again shortly" },
+    { status: 429, headers: { "Retry-After": String(retryAfterSeconds) } }
+  );
+}
+
+// Live status changes for the tracker page, plus agency messages when the
+// passphrase is sent
+export async function GET(
+  request: Request,
+  { params }: { params: { reportId: string } }
+) {
+  try {
+    const report = await prisma.report.findUnique({
+      where: { reportId: params.reportId },
+      select: {
+        id: true,
+        reportId: true,
+        status: true,
+        parentId: true,
+        accessHash: true,
+      },
+    });
+
+    if (!report) {
+      return NextResponse.json({ error: "Report not found" }, { status: 404 });
+    }
+
+    const { accessHash, ...watched } = report;
+    const access = await checkReportAccess(request, accessHash);
+    if (access === "denied") {
+      return NextResponse.json(
+        { error: "Incorrect passphrase" },
+        { status: 401 }
+      );
+    }
+
+    const withMessages = access === "granted";
+    const limit = connectLimiter.take(streamKey(report.reportId, withMessages));
+    if (!limit.ok) {
+      return tooManyRequests(limit.retryAfterSeconds);
+    }
+
+    if (!acquireStream(report.reportId, withMessages)) {
+      return tooManyRequests(60);
+    }
+
+    return eventStream(
+      request,
+      (send) => watchReport(watched, { withMessages }, send),
+      { maxDurationMs: MAX_STREAM_MS }
+    );
+  } catch (error) {
+    console.error("Error opening report updates:", error);
+    return NextResponse.json(
+      { error: "Failed to open report updates" },
+      { status: 500 }
+    );
+  }
+}
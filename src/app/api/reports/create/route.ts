@@ -1,12 +1,20 @@
 import { NextResponse } from "next/server";
-import prisma from "@/lib/prisma";
+import { createReport } from "@/lib/reports";
+import { generatePassphrase, hashPassphrase } from "@/lib/report-access";
+import { getAttachmentLimits } from "@/lib/attachments";
+import { applyTriage } from "@/lib/triage";
+import { routeReport } from "@/lib/agencies";
+import { publishReportEvent } from "@/lib/report-stream";
+import { notifyReportCreated } from "@/lib/notify";
+import { publishReportWebhook } from "@/lib/webhooks";
 
 type ReportType = "EMERGENCY"| "NON_EMERGENCY";
 
 export async function POST(request: Request) {
   try {
+    // The tracking ID and initial status are always decided here, never by
+    // the client
     const {
-      reportId,
       type,
       specificType,
       title,
@@ -14,13 +22,29 @@ export async function POST(request: Request) {
       location,
       latitude,
       longitude,
-      image,
-      status,
+      attachmentIds = [],
     } = await request.json();
 
-    const report = await prisma.report.create({
-      data: {
-        reportId,
+    if (
+      !Array.isArray(attachmentIds) ||
+      !attachmentIds.every((id) => typeof id === "string")
+    ) {
+      return NextResponse.json(
+        { success: false, error: "Invalid attachment references" },
+        { status: 400 }
+      );
+    }
+    if (attachmentIds.length > getAttachmentLimits().maxFiles) {
+      return NextResponse.json(
+        { success: false, error: "Too many attachments" },
+        { status: 400 }
+      );
+    }
+
+    const passphrase = generatePassphrase();
+
+    const report = await createReport(
+      {
         type: type as ReportType,
         title,
         description,
@@ -28,14 +52,29 @@ export async function POST(request: Request) {
         location,
         latitude: latitude || null,
         longitude: longitude || null,
-        image: image || null,
-        status: status || "PENDING",
+        accessHash: await hashPassphrase(passphrase),
       },
-    });
+      attachmentIds
+    );
+
+    // Ranked and routed before responding so it shows up triaged, in the
+    // right queue, on the dashboard. The report is already stored, so a
+    // failure here must not cost the reporter their passphrase.
+    try {
+      await applyTriage(report);
+      await routeReport(report);
+      await publishReportEvent("report.created", report.reportId);
+      await notifyReportCreated(report.reportId);
+      await publishReportWebhook("report.created", report.reportId);
+    } catch (error) {
+      console.error("Error processing new report:", error);
+    }
 
     return NextResponse.json({
       success: true,
       reportId: report.reportId,
+      // Only ever returned here; the server keeps nothing but its hash
+      passphrase,
       message: "Report submitted successfully",
     });
   } catch (error) {
@@ -48,4 +87,4 @@ export async function POST(request: Request) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
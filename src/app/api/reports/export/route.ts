@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { authorize } from "@/lib/authorize";
+import { Permission } from "@/lib/permissions";
+import { reportScope } from "@/lib/agencies";
+
+const COLUMNS = [
+  "reportId",
+  "type",
+  "reportType",
+  "title",
+  "description",
+  "location",
+  "latitude",
+  "longitude",
+  "status",
+  "severity",
+  "priorityScore",
+  "department",
+  "createdAt",
+  "updatedAt",
+] as const;
+
+function toCsvCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export async function GET() {
+  try {
+    const { actor, error } = await authorize(Permission.EXPORT_REPORTS);
+    if (error) return error;
+
+    const reports = await prisma.report.findMany({
+      where: reportScope(actor),
+      orderBy: { createdAt: "desc" },
+      select: Object.fromEntries(COLUMNS.map((column) => [column, true])),
+    });
+
+    const rows = reports.map((report) =>
+      COLUMNS.map((column) =>
+        toCsvCell((report as Record<string, unknown>)[column])
+      ).join(",")
+    );
+    const csv = [COLUMNS.join(","), ...rows].join("\n");
+
+    return new NextResponse(csv, {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="reports-${new Date()
+          .toISOString()
+          .slice(0, 10)}.csv"`,
+      },
+    });
+  } catch (error) {
+    console.error("Failed to export reports:", error);
+    return NextResponse.json(
+      { error: "Failed to export reports" },
+      { status: 500 }
+    );
+  }
+}
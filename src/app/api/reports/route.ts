@@ -1,56 +1,97 @@
 import { NextResponse } from "next/server";
-import { getServerSession } from "next-auth";
-import prisma from "@/lib/prisma";
-import { authOptions } from "@/lib/auth";
 import { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { authorize } from "@/lib/authorize";
+import { Permission } from "@/lib/permissions";
+import { reportSelect } from "@/lib/reports";
+import { reportScope } from "@/lib/agencies";
+import {
+  geoFilterWhere,
+  matchesGeoFilter,
+  parseGeoFilter,
+} from "@/lib/geo-filter";
+import {
+  dateRangeWhere,
+  parseReportQuery,
+  reportOrderBy,
+  searchReportIds,
+} from "@/lib/report-query";
 
 type ReportType = "EMERGENCY" | "NON_EMERGENCY"
-type ReportStatus = "PENDING" | "IN_PROGRESS" | "RESOLVED" | "DISMISSED"
+
+// One page of reports and the cursor for the next, null on the last page
 export async function GET(req: Request) {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
+    const { actor, error } = await authorize(Permission.VIEW_REPORTS);
+    if (error) return error;
 
     const { searchParams } = new URL(req.url);
-    const status = searchParams.get("status") as ReportStatus | null;
+    const status = searchParams.get("status");
     const type = searchParams.get("type") as ReportType | null;
+    const parsed = parseReportQuery(searchParams);
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const query = parsed.value;
+    // "me", "unassigned" or a staff user id
+    const assignee = searchParams.get("assignee");
+    const assigneeId =
+      assignee === "me" ? actor.id : assignee ? Number(assignee) : undefined;
+    if (assignee && assignee !== "unassigned" && !Number.isInteger(assigneeId)) {
+      return NextResponse.json({ error: "Invalid assignee" }, { status: 400 });
+    }
+    // "me" lists reports whose notes mention the actor
+    const mentioned = searchParams.get("mentioned");
+    if (mentioned && mentioned !== "me") {
+      return NextResponse.json({ error: "Invalid mentioned" }, { status: 400 });
+    }
+    const geo = parseGeoFilter(searchParams);
+    if (!geo.ok) {
+      return NextResponse.json({ error: geo.error }, { status: 400 });
+    }
+    const geoFilter = geo.value;
+    const matchingIds = query.search
+      ? await searchReportIds(query.search)
+      : null;
 
     // Build the where clause based on filters
-    const where = {
+    // Reports merged into an incident are listed under their parent
+    const where: Prisma.ReportWhereInput = {
+      ...reportScope(actor),
+      parentId: null,
       ...(status && { status }),
       ...(type && { type }),
+      ...(assignee && {
+        assigneeId: assignee === "unassigned" ? null : assigneeId,
+      }),
+      ...(mentioned && {
+        notes: { some: { mentions: { some: { userId: actor.id } } } },
+      }),
+      ...(geoFilter && geoFilterWhere(geoFilter)),
+      ...dateRangeWhere(query),
+      ...(matchingIds && { id: { in: matchingIds } }),
     };
 
-    // Add timeout and retry logic
-    const reports = await Promise.race([
-      prisma.report.findMany({
-        where,
-        orderBy: {
-          createdAt: "desc",
-        },
-        select: {
-          id: true,
-          reportId: true,
-          type: true,
-          title: true,
-          description: true,
-          location: true,
-          latitude: true,
-          longitude: true,
-          image: true,
-          status: true,
-          createdAt: true,
-          updatedAt: true,
-        },
-      }),
-      new Promise<never>((_, reject) =>
-        setTimeout(() => reject(new Error("Database timeout")), 15000)
-      ),
-    ]);
+    // One extra row tells whether another page follows
+    const rows = await prisma.report.findMany({
+      where,
+      orderBy: reportOrderBy(query.sort),
+      select: reportSelect,
+      take: query.limit + 1,
+      ...(query.cursor && { cursor: { id: query.cursor }, skip: 1 }),
+    });
+    const page = rows.slice(0, query.limit);
+    const nextCursor =
+      rows.length > query.limit ? page[page.length - 1].id : null;
 
-    return NextResponse.json(reports);
+    // The exact area test can leave a page short; the cursor still moves on
+    // from the last row the database returned
+    return NextResponse.json({
+      reports: geoFilter
+        ? page.filter((report) => matchesGeoFilter(geoFilter, report))
+        : page,
+      nextCursor,
+    });
   } catch (error) {
     console.error("Failed to fetch reports:", error);
     return NextResponse.json(
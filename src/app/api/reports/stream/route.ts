@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/authorize";
+import { Permission } from "@/lib/permissions";
+import { eventStream } from "@/lib/sse";
+import { eventFor, subscribeToReports } from "@/lib/report-stream";
+
+export const dynamic = "force-dynamic";
+
+// The subscriber's role and agency are read when the stream opens, so streams
+// are recycled every few minutes and the browser's reconnect checks them
+// again. A deactivated or reassigned user stops receiving events soon after.
+const MAX_STREAM_MS = 5 * 60 * 1000;
+
+// Live report.created, report.updated, report.assigned and report.removed
+// events for the dashboard, limited to the subscriber's jurisdiction
+export async function GET(request: Request) {
+  try {
+    const { actor, error } = await authorize(Permission.VIEW_REPORTS);
+    if (error) return error;
+
+    return eventStream(
+      request,
+      (send) =>
+        subscribeToReports((event) => {
+          const visible = eventFor(actor, event);
+          if (visible) send(visible.type, visible);
+        }),
+      { maxDurationMs: MAX_STREAM_MS }
+    );
+  } catch (error) {
+    console.error("Error opening report stream:", error);
+    return NextResponse.json(
+      { error: "Failed to open report stream" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/authorize";
+import { Permission } from "@/lib/permissions";
+import { getWorkload } from "@/lib/assignments";
+
+// Open reports per staff member, for balancing assignments. Also serves as
+// the list of people a report can be assigned to.
+export async function GET() {
+  try {
+    const { actor, error } = await authorize(Permission.VIEW_REPORTS);
+    if (error) return error;
+
+    return NextResponse.json(await getWorkload(actor));
+  } catch (error) {
+    console.error("Failed to fetch workload:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch workload" },
+      { status: 500 }
+    );
+  }
+}
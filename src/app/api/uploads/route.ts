@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { getStorage } from "@/lib/storage";
+import { newStorageKey, sha256, sniffMediaType } from "@/lib/media";
+import {
+  attachmentSelect,
+  getAttachmentLimits,
+  isAllowedType,
+} from "@/lib/attachments";
+import { sanitizeMedia } from "@/lib/sanitize-media";
+import { createRateLimiter } from "@/lib/rate-limit";
+
+// Keyed by client address, which is only held in memory for the length of
+// the window and never stored or logged. Together with
+// `npm run uploads:cleanup` removing unclaimed files it caps how fast one
+// client can fill storage.
+const uploadLimiter = createRateLimiter({ limit: 20, windowMs: 60 * 1000 });
+
+// Room for the multipart boundaries and the other form fields
+const MULTIPART_OVERHEAD_BYTES = 64 * 1024;
+
+function clientAddress(request: NextRequest) {
+  const forwarded = request.headers.get("x-forwarded-for");
+  return forwarded?.split(",")[0].trim() || request.ip || "unknown";
+}
+
+function tooLarge(maxBytes: number) {
+  return NextResponse.json(
+    { error: `Files must be under ${Math.floor(maxBytes / 1024 / 1024)} MB` },
+    { status: 413 }
+  );
+}
+
+// The limits in force, so the report form can reject files before uploading
+export async function GET() {
+  return NextResponse.json(getAttachmentLimits());
+}
+
+// Accepts one file before the report itself is submitted and returns the
+// attachment the report should claim. Anonymous like report submission, so
+// nothing about the uploader is recorded and identifying metadata is removed
+// from the file before it is stored. A photo's GPS position is only returned
+// when the reporter chose to share it as the incident location.
+export async function POST(request: NextRequest) {
+  try {
+    const rate = uploadLimiter.take(clientAddress(request));
+    if (!rate.ok) {
+      return NextResponse.json(
+        { error: "Too many uploads right now, try again shortly" },
+        {
+          status: 429,
+          headers: { "Retry-After": String(rate.retryAfterSeconds) },
+        }
+      );
+    }
+
+    // Checked before the body is read, so an oversized upload is never
+    // buffered in memory
+    const limits = getAttachmentLimits();
+    const contentLength = Number(request.headers.get("content-length"));
+    if (
+      !contentLength ||
+      contentLength > limits.maxBytes + MULTIPART_OVERHEAD_BYTES
+    ) {
+      return tooLarge(limits.maxBytes);
+    }
+
+    const formData = await request.formData();
+    const file = formData.get("file");
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: "No file uploaded" }, { status: 400 });
+    }
+    if (file.size > limits.maxBytes) {
+      return tooLarge(limits.maxBytes);
+    }
+
+    const data = Buffer.from(await file.arrayBuffer());
+    const mimeType = sniffMediaType(data, file.type);
+    if (!mimeType || !isAllowedType(mimeType, limits)) {
+      return NextResponse.json(
+        { error: "This file type is not accepted" },
+        { status: 415 }
+      );
+    }
+
+    const sanitized = await sanitizeMedia(data, mimeType);
+    if (!sanitized) {
+      return NextResponse.json(
+        { error: "This file could not be processed" },
+        { status: 422 }
+      );
+    }
+    if (sanitized.removed.length > 0) {
+      console.info(
+        `Removed metadata from ${mimeType} upload:`,
+        sanitized.removed.join(", ")
+      );
+    }
+
+    const storageKey = newStorageKey(mimeType);
+    await getStorage().put(storageKey, sanitized.data, mimeType);
+
+    const attachment = await prisma.attachment.create({
+      data: {
+        storageKey,
+        fileName: file.name.slice(0, 255) || "attachment",
+        mimeType,
+        size: sanitized.data.length,
+        checksum: sha256(sanitized.data),
+      },
+      select: attachmentSelect,
+    });
+
+    const shareLocation = formData.get("shareLocation") === "true";
+
+    return NextResponse.json(
+      { ...attachment, location: shareLocation ? sanitized.location : null },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error uploading file:", error);
+    return NextResponse.json(
+      { error: "Failed to upload file" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/authorize";
+import { Permission } from "@/lib/permissions";
+import { getWorkflow } from "@/lib/workflow";
+
+// The configured statuses and transitions, for building status controls
+export async function GET() {
+  try {
+    const { error } = await authorize(Permission.VIEW_REPORTS);
+    if (error) return error;
+
+    return NextResponse.json(getWorkflow());
+  } catch (error) {
+    console.error("Failed to load workflow:", error);
+    return NextResponse.json(
+      { error: "Failed to load workflow" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { redirect } from "next/navigation";
+import AccessDenied from "@/components/AccessDenied";
+import { getActiveUser } from "@/lib/authorize";
+import { Permission, hasPermission } from "@/lib/permissions";
+
+export default async function DashboardLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const user = await getActiveUser();
+  if (!user) {
+    redirect("/auth/signin");
+  }
+
+  if (!hasPermission(user.role, Permission.VIEW_REPORTS)) {
+    return (
+      <AccessDenied message="Your account does not have access to the dashboard." />
+    );
+  }
+
+  return children;
+}
@@ -0,0 +1,186 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+
+type Channel = "EMAIL" | "SMS";
+type UserEvent = "EMERGENCY_REPORT" | "REPORT_ASSIGNED" | "NOTE_MENTION";
+
+interface Preferences {
+  phone: string | null;
+  events: Record<UserEvent, Channel[]>;
+}
+
+const EVENTS: { event: UserEvent; label: string }[] = [
+  { event: "EMERGENCY_REPORT", label: "An emergency is reported in my queue" },
+  { event: "REPORT_ASSIGNED", label: "A report is assigned to me" },
+  { event: "NOTE_MENTION", label: "Someone mentions me in a case note" },
+];
+
+const CHANNELS: { channel: Channel; label: string }[] = [
+  { channel: "EMAIL", label: "Email" },
+  { channel: "SMS", label: "Text message" },
+];
+
+const inputClass =
+  "w-full px-3 py-2 border border-neutral-800 rounded-lg bg-neutral-900 placeholder-neutral-500 text-neutral-200 focus:outline-none focus:ring-2 focus:ring-blue-500/20";
+const buttonClass =
+  "px-3 py-2 text-sm font-medium text-neutral-300 bg-neutral-900 rounded-lg hover:bg-neutral-800 border border-neutral-800 transition-all hover:border-neutral-700 disabled:opacity-50";
+
+export default function NotificationPreferences() {
+  const [preferences, setPreferences] = useState<Preferences | null>(null);
+  const [error, setError] = useState("");
+  const [saved, setSaved] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await fetch("/api/notifications/preferences");
+        const data = await response.json();
+        if (!response.ok) {
+          setError(data.error || "Failed to load preferences");
+          return;
+        }
+        setPreferences(data);
+      } catch (error) {
+        console.error("Error fetching notification preferences:", error);
+        setError("Failed to load preferences");
+      }
+    };
+    load();
+  }, []);
+
+  const toggle = (event: UserEvent, channel: Channel) => {
+    setSaved(false);
+    setPreferences((prev) => {
+      if (!prev) return prev;
+      const channels = prev.events[event];
+      return {
+        ...prev,
+        events: {
+          ...prev.events,
+          [event]: channels.includes(channel)
+            ? channels.filter((c) => c !== channel)
+            : [...channels, channel],
+        },
+      };
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!preferences) return;
+    setError("");
+    setIsSaving(true);
+    try {
+      const response = await fetch("/api/notifications/preferences", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(preferences),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || "Failed to save preferences");
+        return;
+      }
+      setPreferences(data);
+      setSaved(true);
+    } catch (error) {
+      console.error("Error saving notification preferences:", error);
+      setError("Failed to save preferences");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!preferences && !error) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-black">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-black text-white">
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        <div className="flex justify-between items-center">
+          <h1 className="text-2xl font-bold bg-gradient-to-r from-blue-400 to-blue-600 bg-clip-text text-transparent">
+            My Notifications
+          </h1>
+          <Link href="/dashboard" className="text-sm text-blue-500 hover:text-blue-400">
+            Back to dashboard
+          </Link>
+        </div>
+
+        {error && (
+          <div className="text-red-500 text-sm bg-red-500/10 border border-red-500/20 rounded-lg p-3">
+            {error}
+          </div>
+        )}
+
+        {preferences && (
+          <form
+            onSubmit={handleSubmit}
+            className="bg-neutral-900/50 rounded-xl p-6 border border-neutral-800 space-y-6"
+          >
+            <label className="block space-y-2">
+              <span className="text-sm text-neutral-400">
+                Mobile number for text messages
+              </span>
+              <input
+                type="tel"
+                value={preferences.phone ?? ""}
+                onChange={(e) => {
+                  setSaved(false);
+                  setPreferences({ ...preferences, phone: e.target.value });
+                }}
+                placeholder="+15550100"
+                className={inputClass}
+              />
+            </label>
+
+            <table className="w-full text-sm">
+              <thead className="text-left text-neutral-500 border-b border-neutral-800">
+                <tr>
+                  <th className="py-3 font-medium">Tell me when</th>
+                  {CHANNELS.map(({ channel, label }) => (
+                    <th key={channel} className="py-3 px-4 font-medium text-center">
+                      {label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-neutral-800">
+                {EVENTS.map(({ event, label }) => (
+                  <tr key={event}>
+                    <td className="py-3 text-neutral-300">{label}</td>
+                    {CHANNELS.map(({ channel }) => (
+                      <td key={channel} className="py-3 px-4 text-center">
+                        <input
+                          type="checkbox"
+                          aria-label={`${label} by ${channel.toLowerCase()}`}
+                          checked={preferences.events[event].includes(channel)}
+                          onChange={() => toggle(event, channel)}
+                          className="rounded border-neutral-700 bg-neutral-900"
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div className="flex items-center gap-4">
+              <button type="submit" disabled={isSaving} className={buttonClass}>
+                {isSaving ? "Saving..." : "Save preferences"}
+              </button>
+              {saved && <span className="text-sm text-green-500">Saved</span>}
+            </div>
+          </form>
+        )}
+      </main>
+    </div>
+  );
+}
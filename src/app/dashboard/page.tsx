@@ -1,71 +1,409 @@
 "use client";
 
 import { useSession } from "next-auth/react";
-import { useEffect, useState } from "react";
-import { Report, ReportStatus, ReportType } from "@prisma/client";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import dynamic from "next/dynamic";
+import { Report, ReportType, Severity } from "@prisma/client";
 import { signOut } from "next-auth/react";
+import Link from "next/link";
+import { MessageThread } from "@/components/report/MessageThread";
+import { ReportTimeline } from "@/components/report/ReportTimeline";
+import {
+  AttachmentGallery,
+  ReportAttachment,
+} from "@/components/report/AttachmentGallery";
+import { TriageEditor } from "@/components/report/TriageEditor";
+import { IncidentPanel } from "@/components/report/IncidentPanel";
+import { AssignmentControls } from "@/components/report/AssignmentControls";
+import { WorkloadSummary } from "@/components/report/WorkloadSummary";
+import { EmergencyAlert } from "@/components/report/EmergencyAlert";
+import {
+  StatusControl,
+  WorkflowState,
+} from "@/components/report/StatusControl";
+import type {
+  HeatmapRange,
+  MapColorBy,
+} from "@/components/report/IncidentMap";
+import { Permission, hasPermission } from "@/lib/permissions";
+
+// Leaflet needs the browser, so the map is never rendered on the server
+const IncidentMap = dynamic(
+  () =>
+    import("@/components/report/IncidentMap").then((mod) => mod.IncidentMap),
+  { ssr: false }
+);
+
+type ReportPanel = "messages" | "history" | "triage" | "incident";
+
+type ReportSort = "newest" | "oldest" | "priority" | "severity" | "status";
+
+type DashboardView = "list" | "map";
+
+const PAGE_SIZE = 25;
+const SEARCH_DELAY_MS = 300;
+
+// "all", "me", "unassigned", "mentions" or the id of a staff member
+type ReportQueue = string;
+
+type DashboardReport = Report & {
+  attachments: ReportAttachment[];
+  agency: { id: string; name: string } | null;
+  assignee: { id: number; name: string; email: string } | null;
+  _count: { mergedReports: number };
+};
+
+interface StreamEvent {
+  type: "report.created" | "report.updated" | "report.assigned" | "report.removed";
+  reportId: string;
+  report: DashboardReport | null;
+}
+
+const STREAM_EVENTS: StreamEvent["type"][] = [
+  "report.created",
+  "report.updated",
+  "report.assigned",
+  "report.removed",
+];
+
+interface AgencyOption {
+  id: string;
+  name: string;
+}
+
+interface WorkloadEntry {
+  id: number;
+  name: string;
+  email: string;
+  open: number;
+  byStatus: Record<string, number>;
+}
 
 export default function Dashboard() {
   const { data: session } = useSession();
-  const [reports, setReports] = useState<Report[]>([]);
-  const [filter, setFilter] = useState<ReportStatus | "ALL">("ALL");
+  const router = useRouter();
+  const [reports, setReports] = useState<DashboardReport[]>([]);
+  const [filter, setFilter] = useState<string>("ALL");
+  const [statuses, setStatuses] = useState<WorkflowState[]>([]);
   const [typeFilter, setTypeFilter] = useState<ReportType | "ALL">("ALL");
+  const [sort, setSort] = useState<ReportSort>("newest");
+  const [queue, setQueue] = useState<ReportQueue>("all");
+  const [search, setSearch] = useState("");
+  // The search actually sent, trailing what staff type by SEARCH_DELAY_MS
+  const [query, setQuery] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  const [alerts, setAlerts] = useState<DashboardReport[]>([]);
+  const [workload, setWorkload] = useState<WorkloadEntry[]>([]);
+  const [showWorkload, setShowWorkload] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  const [view, setView] = useState<DashboardView>("list");
+  const [colorBy, setColorBy] = useState<MapColorBy>("status");
+  const [showHeatmap, setShowHeatmap] = useState(false);
+  const [heatmapRange, setHeatmapRange] = useState<HeatmapRange>("7d");
+  const canChangeStatus = hasPermission(
+    session?.user?.role,
+    Permission.CHANGE_STATUS
+  );
+  const canEdit = hasPermission(session?.user?.role, Permission.EDIT_REPORTS);
+  const canExport = hasPermission(session?.user?.role, Permission.EXPORT_REPORTS);
+  const canManageUsers = hasPermission(
+    session?.user?.role,
+    Permission.MANAGE_USERS
+  );
+  const canManageAgencies = hasPermission(
+    session?.user?.role,
+    Permission.MANAGE_AGENCIES
+  );
+  const canManageNotifications = hasPermission(
+    session?.user?.role,
+    Permission.MANAGE_NOTIFICATIONS
+  );
+  const canManageWebhooks = hasPermission(
+    session?.user?.role,
+    Permission.MANAGE_WEBHOOKS
+  );
+  const canAssign = hasPermission(
+    session?.user?.role,
+    Permission.ASSIGN_REPORTS
+  );
+  const currentUserId = session?.user?.id ? Number(session.user.id) : null;
+  const [agencies, setAgencies] = useState<AgencyOption[]>([]);
+  const [openPanel, setOpenPanel] = useState<{
+    reportId: string;
+    panel: ReportPanel;
+  } | null>(null);
 
-  useEffect(() => {
-    fetchReports();
+  // Filtering, sorting and search all happen on the server, a page at a time
+  const reportParams = useCallback(() => {
+    const params = new URLSearchParams({ sort, limit: String(PAGE_SIZE) });
+    if (filter !== "ALL") params.set("status", filter);
+    if (typeFilter !== "ALL") params.set("type", typeFilter);
+    if (query) params.set("q", query);
+    if (from) params.set("from", from);
+    if (to) params.set("to", to);
+    if (queue === "mentions") params.set("mentioned", "me");
+    else if (queue !== "all") params.set("assignee", queue);
+    return params;
+  }, [sort, filter, typeFilter, query, from, to, queue]);
+
+  const fetchWorkload = useCallback(async () => {
+    try {
+      const response = await fetch("/api/reports/workload");
+      setWorkload(await response.json());
+    } catch (error) {
+      console.error("Error fetching workload:", error);
+    }
   }, []);
 
-  const fetchReports = async () => {
-    setIsLoading(true);
+  // Reloads the first page, e.g. after a filter changes or a report is updated
+  const fetchReports = useCallback(async () => {
     try {
-      const response = await fetch("/api/reports");
+      const [response, workloadResponse] = await Promise.all([
+        fetch(`/api/reports?${reportParams()}`),
+        fetch("/api/reports/workload"),
+      ]);
       const data = await response.json();
-      console.log(data,"datdatdat")
-      setReports(data);
+      setReports(data.reports ?? []);
+      setNextCursor(data.nextCursor ?? null);
+      setWorkload(await workloadResponse.json());
     } catch (error) {
       console.error("Error fetching reports:", error);
     } finally {
       setIsLoading(false);
     }
+  }, [reportParams]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || isLoadingMore) return;
+    setIsLoadingMore(true);
+    try {
+      const params = reportParams();
+      params.set("cursor", nextCursor);
+      const response = await fetch(`/api/reports?${params}`);
+      const data = await response.json();
+      setReports((prev) => [...prev, ...(data.reports ?? [])]);
+      setNextCursor(data.nextCursor ?? null);
+    } catch (error) {
+      console.error("Error fetching more reports:", error);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [reportParams, nextCursor, isLoadingMore]);
+
+  useEffect(() => {
+    fetchReports();
+  }, [fetchReports]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(search.trim()), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  // Whether a report pushed by the stream belongs in the list as filtered.
+  // Search matches are only known to the server, so while searching, pushed
+  // reports only update entries already listed.
+  const matchesFilters = (report: DashboardReport) => {
+    const created = new Date(report.createdAt).toISOString().slice(0, 10);
+    const queueMatch =
+      queue === "all" ||
+      (queue === "me" && report.assignee?.id === currentUserId) ||
+      (queue === "unassigned" && report.assignee === null) ||
+      report.assignee?.id === Number(queue);
+    return (
+      report.parentId === null &&
+      (filter === "ALL" || report.status === filter) &&
+      (typeFilter === "ALL" || report.type === typeFilter) &&
+      (!from || created >= from) &&
+      (!to || created <= to) &&
+      queueMatch
+    );
   };
 
-  const updateReportStatus = async (
+  const applyStreamEvent = (event: StreamEvent) => {
+    const { report } = event;
+    if (event.type === "report.created" && report?.type === "EMERGENCY") {
+      setAlerts((prev) => [report, ...prev]);
+    }
+    if (event.type !== "report.created") {
+      fetchWorkload();
+    }
+
+    setReports((prev) => {
+      const listed = prev.some((r) => r.reportId === event.reportId);
+      if (!report || (listed && !matchesFilters(report))) {
+        return prev.filter((r) => r.reportId !== event.reportId);
+      }
+      if (listed) {
+        return prev.map((r) => (r.reportId === event.reportId ? report : r));
+      }
+      return matchesFilters(report) && !query ? [report, ...prev] : prev;
+    });
+  };
+
+  // The stream is opened once; events always reach the latest handlers
+  const streamHandlers = useRef({ applyStreamEvent, fetchReports });
+  streamHandlers.current = { applyStreamEvent, fetchReports };
+
+  useEffect(() => {
+    const source = new EventSource("/api/reports/stream");
+    let hasConnected = false;
+    // Events sent while reconnecting are lost, so catch up from the server
+    source.onopen = () => {
+      if (hasConnected) streamHandlers.current.fetchReports();
+      hasConnected = true;
+    };
+    const listener = (message: MessageEvent) =>
+      streamHandlers.current.applyStreamEvent(JSON.parse(message.data));
+    STREAM_EVENTS.forEach((type) => source.addEventListener(type, listener));
+    return () => source.close();
+  }, []);
+
+  // Loads the next page as the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !nextCursor) return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) loadMore();
+      },
+      { rootMargin: "400px" }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [loadMore, nextCursor]);
+
+  useEffect(() => {
+    fetch("/api/workflow")
+      .then((response) => response.json())
+      .then((workflow) => setStatuses(workflow.states))
+      .catch((error) => console.error("Error fetching workflow:", error));
+  }, []);
+
+  // Only agency managers can move reports between queues
+  useEffect(() => {
+    if (!canManageAgencies) return;
+    fetch("/api/admin/agencies")
+      .then((response) => response.json())
+      .then(setAgencies)
+      .catch((error) => console.error("Error fetching agencies:", error));
+  }, [canManageAgencies]);
+
+  // Claims, releases and assignments all answer with the new assignee
+  const changeAssignment = async (
     reportId: string,
-    newStatus: ReportStatus
+    action: "claim" | "release" | "assign",
+    userId?: number | null
   ) => {
+    try {
+      const response =
+        action === "assign"
+          ? await fetch(`/api/reports/${reportId}/assignee`, {
+              method: "PUT",
+              headers: {
+                "Content-Type": "application/json",
+              },
+              body: JSON.stringify({ userId }),
+            })
+          : await fetch(`/api/reports/${reportId}/claim`, {
+              method: action === "claim" ? "POST" : "DELETE",
+            });
+
+      if (response.ok) {
+        fetchReports();
+      }
+    } catch (error) {
+      console.error("Error changing assignment:", error);
+    }
+  };
+
+  const reassignReport = async (reportId: string, agencyId: string | null) => {
+    try {
+      const response = await fetch(`/api/reports/${reportId}/agency`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ agencyId }),
+      });
+
+      if (response.ok) {
+        fetchReports();
+      }
+    } catch (error) {
+      console.error("Error reassigning report:", error);
+    }
+  };
+
+  // Resolves to the server's error message when the update is refused
+  const updateReport = async (
+    reportId: string,
+    changes: Record<string, unknown>
+  ): Promise<string | null> => {
     try {
       const response = await fetch(`/api/reports/${reportId}`, {
         method: "PATCH",
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ status: newStatus }),
+        body: JSON.stringify(changes),
       });
 
       if (response.ok) {
         fetchReports();
+        return null;
       }
+      const data = await response.json();
+      return data.error || "Failed to update report";
     } catch (error) {
       console.error("Error updating report:", error);
+      return "Failed to update report";
     }
   };
 
-  const filteredReports = reports?.filter((report) => {
-    const statusMatch = filter === "ALL" || report.status === filter;
-    const typeMatch = typeFilter === "ALL" || report.type === typeFilter;
-    return statusMatch && typeMatch;
-  });
+  const togglePanel = (reportId: string, panel: ReportPanel) => {
+    setOpenPanel((prev) =>
+      prev?.reportId === reportId && prev.panel === panel
+        ? null
+        : { reportId, panel }
+    );
+  };
 
-  const getStatusColor = (status: ReportStatus) => {
-    const colors = {
+  // Clicking a map marker opens the report's case page
+  const openReport = (reportId: string) => {
+    router.push(`/dashboard/reports/${reportId}`);
+  };
+
+  const isPanelOpen = (reportId: string, panel: ReportPanel) =>
+    openPanel?.reportId === reportId && openPanel.panel === panel;
+
+  const getStatusColor = (status: string) => {
+    const colors: Record<string, string> = {
       PENDING: "bg-amber-500/10 text-amber-500 border border-amber-500/20",
       IN_PROGRESS: "bg-blue-500/10 text-blue-500 border border-blue-500/20",
       RESOLVED: "bg-blue-500/10 text-blue-500 border border-blue-500/20",
       DISMISSED:
         "bg-neutral-500/10 text-neutral-400 border border-neutral-500/20",
     };
-    return colors[status];
+    // Statuses added by a custom workflow share a neutral style
+    return (
+      colors[status] ??
+      "bg-violet-500/10 text-violet-400 border border-violet-500/20"
+    );
+  };
+
+  const getSeverityColor = (severity: Severity) => {
+    const colors = {
+      LOW: "bg-neutral-500/10 text-neutral-400 border border-neutral-500/20",
+      MEDIUM: "bg-amber-500/10 text-amber-500 border border-amber-500/20",
+      HIGH: "bg-orange-500/10 text-orange-500 border border-orange-500/20",
+      CRITICAL: "bg-red-500/10 text-red-500 border border-red-500/20",
+    };
+    return colors[severity];
   };
 
   if (isLoading) {
@@ -85,6 +423,44 @@ export default function Dashboard() {
               Admin Dashboard
             </h1>
             <div className="flex items-center gap-6">
+              {canManageAgencies && (
+                <Link
+                  href="/admin/agencies"
+                  className="text-sm text-neutral-400 hover:text-white transition-colors"
+                >
+                  Agencies
+                </Link>
+              )}
+              {canManageUsers && (
+                <Link
+                  href="/admin/users"
+                  className="text-sm text-neutral-400 hover:text-white transition-colors"
+                >
+                  Users
+                </Link>
+              )}
+              {canManageNotifications && (
+                <Link
+                  href="/admin/notifications"
+                  className="text-sm text-neutral-400 hover:text-white transition-colors"
+                >
+                  Notification rules
+                </Link>
+              )}
+              {canManageWebhooks && (
+                <Link
+                  href="/admin/webhooks"
+                  className="text-sm text-neutral-400 hover:text-white transition-colors"
+                >
+                  Webhooks
+                </Link>
+              )}
+              <Link
+                href="/dashboard/notifications"
+                className="text-sm text-neutral-400 hover:text-white transition-colors"
+              >
+                My notifications
+              </Link>
               <span className="text-neutral-400">
                 {session?.user?.name || "Admin"}
               </span>
@@ -100,19 +476,56 @@ export default function Dashboard() {
       </nav>
 
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <EmergencyAlert
+          alerts={alerts}
+          onDismiss={(reportId) =>
+            setAlerts((prev) => prev.filter((r) => r.reportId !== reportId))
+          }
+        />
+
+        <div className="mb-4 flex flex-wrap gap-4 items-center">
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search title, description or location"
+            className="flex-1 min-w-64 bg-neutral-900 border border-neutral-800 text-neutral-300 placeholder-neutral-500 rounded-lg px-4 py-2 focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500/20"
+          />
+          <label className="flex items-center gap-2 text-sm text-neutral-400">
+            From
+            <input
+              type="date"
+              value={from}
+              max={to || undefined}
+              onChange={(e) => setFrom(e.target.value)}
+              className="bg-neutral-900 border border-neutral-800 text-neutral-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500/20"
+            />
+          </label>
+          <label className="flex items-center gap-2 text-sm text-neutral-400">
+            To
+            <input
+              type="date"
+              value={to}
+              min={from || undefined}
+              onChange={(e) => setTo(e.target.value)}
+              className="bg-neutral-900 border border-neutral-800 text-neutral-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500/20"
+            />
+          </label>
+        </div>
+
         <div className="mb-8 flex flex-wrap gap-4 items-center justify-between">
-          <div className="flex gap-4">
+          <div className="flex flex-wrap gap-4">
             <select
               value={filter}
               onChange={(e) =>
-                setFilter(e.target.value as ReportStatus | "ALL")
+                setFilter(e.target.value)
               }
               className="bg-neutral-900 border border-neutral-800 text-neutral-300 rounded-lg px-4 py-2 focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500/20"
             >
               <option value="ALL">All Statuses</option>
-              {Object.values(ReportStatus).map((status) => (
-                <option key={status} value={status}>
-                  {status}
+              {statuses.map((status) => (
+                <option key={status.name} value={status.name}>
+                  {status.label}
                 </option>
               ))}
             </select>
@@ -131,15 +544,136 @@ export default function Dashboard() {
                 </option>
               ))}
             </select>
+
+            <select
+              value={sort}
+              onChange={(e) => setSort(e.target.value as ReportSort)}
+              className="bg-neutral-900 border border-neutral-800 text-neutral-300 rounded-lg px-4 py-2 focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500/20"
+            >
+              <option value="newest">Newest first</option>
+              <option value="oldest">Oldest first</option>
+              <option value="priority">Highest priority</option>
+              <option value="severity">Most severe</option>
+              <option value="status">By status</option>
+            </select>
+
+            <select
+              value={queue}
+              onChange={(e) => setQueue(e.target.value)}
+              className="bg-neutral-900 border border-neutral-800 text-neutral-300 rounded-lg px-4 py-2 focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500/20"
+            >
+              <option value="all">All reports</option>
+              <option value="me">My queue</option>
+              <option value="unassigned">Unassigned</option>
+              <option value="mentions">Mentioning me</option>
+              {workload
+                .filter((member) => member.id !== currentUserId)
+                .map((member) => (
+                  <option key={member.id} value={String(member.id)}>
+                    Assigned to {member.name}
+                  </option>
+                ))}
+            </select>
+
+            <div className="flex rounded-lg border border-neutral-800 overflow-hidden">
+              {(["list", "map"] as const).map((option) => (
+                <button
+                  key={option}
+                  onClick={() => setView(option)}
+                  className={`px-4 py-2 text-sm font-medium capitalize transition-colors ${
+                    view === option
+                      ? "bg-neutral-800 text-white"
+                      : "bg-neutral-900 text-neutral-400 hover:text-white"
+                  }`}
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
           </div>
 
-          <div className="text-neutral-400">
-            {filteredReports.length} Reports
+          <div className="flex items-center gap-4">
+            <span className="text-neutral-400">
+              {reports.length}
+              {nextCursor ? "+" : ""} Reports
+            </span>
+            <button
+              onClick={() => setShowWorkload((prev) => !prev)}
+              className="px-4 py-2 text-sm font-medium text-neutral-300 bg-neutral-900 rounded-lg hover:bg-neutral-800 border border-neutral-800 transition-all hover:border-neutral-700"
+            >
+              {showWorkload ? "Hide workload" : "Workload"}
+            </button>
+            {canExport && (
+              <a
+                href="/api/reports/export"
+                className="px-4 py-2 text-sm font-medium text-neutral-300 bg-neutral-900 rounded-lg hover:bg-neutral-800 border border-neutral-800 transition-all hover:border-neutral-700"
+              >
+                Export CSV
+              </a>
+            )}
           </div>
         </div>
 
-        <div className="grid gap-4">
-          {filteredReports.map((report) => (
+        {showWorkload && (
+          <div className="mb-8">
+            <WorkloadSummary
+              workload={workload}
+              labels={Object.fromEntries(
+                statuses.map((status) => [status.name, status.label])
+              )}
+              onSelect={(userId) =>
+                setQueue(userId === currentUserId ? "me" : String(userId))
+              }
+            />
+          </div>
+        )}
+
+        {view === "map" && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-4 items-center">
+              <select
+                value={colorBy}
+                onChange={(e) => setColorBy(e.target.value as MapColorBy)}
+                className="bg-neutral-900 border border-neutral-800 text-neutral-300 rounded-lg px-4 py-2 focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500/20"
+              >
+                <option value="status">Color by status</option>
+                <option value="type">Color by incident type</option>
+              </select>
+              <label className="flex items-center gap-2 text-sm text-neutral-400">
+                <input
+                  type="checkbox"
+                  checked={showHeatmap}
+                  onChange={(e) => setShowHeatmap(e.target.checked)}
+                  className="rounded border-neutral-700 bg-neutral-900"
+                />
+                Heatmap
+              </label>
+              <select
+                value={heatmapRange}
+                disabled={!showHeatmap}
+                onChange={(e) =>
+                  setHeatmapRange(e.target.value as HeatmapRange)
+                }
+                className="bg-neutral-900 border border-neutral-800 text-neutral-300 rounded-lg px-4 py-2 focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500/20 disabled:opacity-50"
+              >
+                <option value="24h">Last 24 hours</option>
+                <option value="7d">Last 7 days</option>
+                <option value="30d">Last 30 days</option>
+                <option value="all">All time</option>
+              </select>
+            </div>
+            <IncidentMap
+              reports={reports}
+              colorBy={colorBy}
+              showHeatmap={showHeatmap}
+              heatmapRange={heatmapRange}
+              onSelect={openReport}
+            />
+          </div>
+        )}
+
+        <div className={`grid gap-4 ${view === "map" ? "hidden" : ""}`}>
+          {reports.map((report) => (
             <div
               key={report.id}
               className="bg-neutral-900/50 backdrop-blur-sm rounded-xl p-6 border border-neutral-800 hover:border-neutral-700 transition-all"
@@ -148,7 +682,12 @@ export default function Dashboard() {
                 <div className="space-y-4 flex-1">
                   <div className="flex items-center gap-3">
                     <h2 className="text-lg font-medium text-neutral-200">
-                      {report.title}
+                      <Link
+                        href={`/dashboard/reports/${report.reportId}`}
+                        className="hover:text-white"
+                      >
+                        {report.title}
+                      </Link>
                     </h2>
                     <span
                       className={`px-3 py-1 rounded-full text-xs font-medium ${getStatusColor(
@@ -157,6 +696,30 @@ export default function Dashboard() {
                     >
                       {report.status}
                     </span>
+                    {report.severity && (
+                      <span
+                        className={`px-3 py-1 rounded-full text-xs font-medium ${getSeverityColor(
+                          report.severity
+                        )}`}
+                      >
+                        {report.severity}
+                      </span>
+                    )}
+                    {report.priorityScore !== null && (
+                      <span className="text-xs text-neutral-500">
+                        Priority {report.priorityScore}
+                      </span>
+                    )}
+                    {report.possibleDuplicateOfId && (
+                      <span className="px-3 py-1 rounded-full text-xs font-medium bg-amber-500/10 text-amber-400 border border-amber-500/20">
+                        Possible duplicate
+                      </span>
+                    )}
+                    {report._count.mergedReports > 0 && (
+                      <span className="text-xs text-neutral-500">
+                        +{report._count.mergedReports} merged
+                      </span>
+                    )}
                   </div>
                   <p className="text-neutral-400 text-sm">
                     {report.description}
@@ -180,40 +743,156 @@ export default function Dashboard() {
                       </div>
                       {new Date(report.createdAt).toLocaleDateString()}
                     </span>
+                    {canManageAgencies ? (
+                      <select
+                        value={report.agency?.id ?? ""}
+                        onChange={(e) =>
+                          reassignReport(
+                            report.reportId,
+                            e.target.value || null
+                          )
+                        }
+                        aria-label="Agency"
+                        className="bg-neutral-900 border border-neutral-800 text-neutral-400 rounded-lg px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500/20"
+                      >
+                        <option value="">Unrouted</option>
+                        {agencies.map((agency) => (
+                          <option key={agency.id} value={agency.id}>
+                            {agency.name}
+                          </option>
+                        ))}
+                      </select>
+                    ) : (
+                      report.agency && (
+                        <span className="flex items-center gap-2">
+                          <div className="w-4 h-4 rounded-full bg-neutral-800 flex items-center justify-center">
+                            <div className="w-2 h-2 rounded-full bg-neutral-600"></div>
+                          </div>
+                          {report.agency.name}
+                        </span>
+                      )
+                    )}
+                    <AssignmentControls
+                      assignee={report.assignee}
+                      currentUserId={currentUserId}
+                      staff={workload}
+                      canClaim={canChangeStatus}
+                      canAssign={canAssign}
+                      onClaim={() =>
+                        changeAssignment(report.reportId, "claim")
+                      }
+                      onRelease={() =>
+                        changeAssignment(report.reportId, "release")
+                      }
+                      onAssign={(userId) =>
+                        changeAssignment(report.reportId, "assign", userId)
+                      }
+                    />
+                    {report.department && (
+                      <span className="flex items-center gap-2">
+                        <div className="w-4 h-4 rounded-full bg-neutral-800 flex items-center justify-center">
+                          <div className="w-2 h-2 rounded-full bg-neutral-600"></div>
+                        </div>
+                        {report.department}
+                      </span>
+                    )}
                   </div>
-                  {report.image && (
-                    <img
-                      src={report.image}
-                      alt="Report"
-                      className="mt-4 rounded-lg border border-neutral-800"
+                  <AttachmentGallery attachments={report.attachments} />
+                  <div className="flex gap-4">
+                    <Link
+                      href={`/dashboard/reports/${report.reportId}`}
+                      className="text-sm text-blue-500 hover:text-blue-400"
+                    >
+                      Case file
+                    </Link>
+                    <button
+                      onClick={() => togglePanel(report.reportId, "messages")}
+                      className="text-sm text-blue-500 hover:text-blue-400"
+                    >
+                      {isPanelOpen(report.reportId, "messages")
+                        ? "Hide messages"
+                        : "Messages"}
+                    </button>
+                    <button
+                      onClick={() => togglePanel(report.reportId, "history")}
+                      className="text-sm text-blue-500 hover:text-blue-400"
+                    >
+                      {isPanelOpen(report.reportId, "history")
+                        ? "Hide history"
+                        : "History"}
+                    </button>
+                    <button
+                      onClick={() => togglePanel(report.reportId, "triage")}
+                      className="text-sm text-blue-500 hover:text-blue-400"
+                    >
+                      {isPanelOpen(report.reportId, "triage")
+                        ? "Hide triage"
+                        : "Triage"}
+                    </button>
+                    <button
+                      onClick={() => togglePanel(report.reportId, "incident")}
+                      className="text-sm text-blue-500 hover:text-blue-400"
+                    >
+                      {isPanelOpen(report.reportId, "incident")
+                        ? "Hide related"
+                        : "Related"}
+                    </button>
+                  </div>
+                  {isPanelOpen(report.reportId, "messages") && (
+                    <MessageThread
+                      endpoint={`/api/reports/${report.reportId}/messages/agency`}
+                      viewer="AGENCY"
+                    />
+                  )}
+                  {isPanelOpen(report.reportId, "history") && (
+                    <ReportTimeline
+                      endpoint={`/api/reports/${report.reportId}/history`}
+                    />
+                  )}
+                  {isPanelOpen(report.reportId, "triage") && (
+                    <TriageEditor
+                      report={report}
+                      duplicateOf={reports.find(
+                        (other) => other.id === report.possibleDuplicateOfId
+                      )}
+                      canEdit={canEdit}
+                      onSave={(changes) =>
+                        updateReport(report.reportId, changes)
+                      }
+                    />
+                  )}
+                  {isPanelOpen(report.reportId, "incident") && (
+                    <IncidentPanel
+                      reportId={report.reportId}
+                      canEdit={canEdit}
+                      onMergeChange={fetchReports}
                     />
                   )}
                 </div>
-                <select
-                  value={report.status}
-                  onChange={(e) =>
-                    updateReportStatus(
-                      report.id,
-                      e.target.value as ReportStatus
-                    )
+                <StatusControl
+                  status={report.status}
+                  states={statuses}
+                  hasAssignee={report.assignee !== null}
+                  disabled={!canChangeStatus}
+                  onChange={(status, reason) =>
+                    updateReport(report.reportId, { status, reason })
                   }
-                  className="bg-neutral-900 border border-neutral-800 text-neutral-300 rounded-lg px-4 py-2 focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500/20"
-                >
-                  {Object.values(ReportStatus).map((status) => (
-                    <option key={status} value={status}>
-                      {status}
-                    </option>
-                  ))}
-                </select>
+                />
               </div>
             </div>
           ))}
 
-          {filteredReports.length === 0 && (
+          {reports.length === 0 && (
             <div className="text-center py-12 text-neutral-500 bg-neutral-900/50 rounded-xl border border-neutral-800">
               No reports found matching the selected filters.
             </div>
           )}
+
+          <div ref={loadMoreRef} className="flex justify-center py-4">
+            {isLoadingMore && (
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-500"></div>
+            )}
+          </div>
         </div>
       </main>
     </div>
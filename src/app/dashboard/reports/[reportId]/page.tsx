@@ -0,0 +1,378 @@
+"use client";
+
+import { useSession } from "next-auth/react";
+import { useCallback, useEffect, useState } from "react";
+import dynamic from "next/dynamic";
+import Link from "next/link";
+import { Report } from "@prisma/client";
+import { MessageThread } from "@/components/report/MessageThread";
+import { ReportTimeline } from "@/components/report/ReportTimeline";
+import {
+  AttachmentGallery,
+  ReportAttachment,
+} from "@/components/report/AttachmentGallery";
+import { TriageEditor } from "@/components/report/TriageEditor";
+import { IncidentPanel } from "@/components/report/IncidentPanel";
+import { AssignmentControls } from "@/components/report/AssignmentControls";
+import { CaseNotes } from "@/components/report/CaseNotes";
+import {
+  StatusControl,
+  WorkflowState,
+} from "@/components/report/StatusControl";
+import { Permission, hasPermission } from "@/lib/permissions";
+
+// Leaflet needs the browser, so the map is never rendered on the server
+const IncidentMap = dynamic(
+  () =>
+    import("@/components/report/IncidentMap").then((mod) => mod.IncidentMap),
+  { ssr: false }
+);
+
+type CaseReport = Report & {
+  attachments: ReportAttachment[];
+  agency: { id: string; name: string } | null;
+  assignee: { id: number; name: string; email: string } | null;
+  _count: { mergedReports: number };
+};
+
+interface StaffMember {
+  id: number;
+  name: string;
+  email: string;
+}
+
+interface AgencyOption {
+  id: string;
+  name: string;
+}
+
+const sectionClass =
+  "bg-neutral-900/50 rounded-xl p-6 border border-neutral-800 space-y-4";
+const headingClass = "text-sm font-medium text-neutral-200";
+
+// The staff case page. Its URL is the deep link staff share for a report.
+export default function CasePage({
+  params,
+}: {
+  params: { reportId: string };
+}) {
+  const { reportId } = params;
+  const { data: session } = useSession();
+  const [report, setReport] = useState<CaseReport | null>(null);
+  const [statuses, setStatuses] = useState<WorkflowState[]>([]);
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  const [agencies, setAgencies] = useState<AgencyOption[]>([]);
+  const [error, setError] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [copied, setCopied] = useState(false);
+  const role = session?.user?.role;
+  const canChangeStatus = hasPermission(role, Permission.CHANGE_STATUS);
+  const canEdit = hasPermission(role, Permission.EDIT_REPORTS);
+  const canAssign = hasPermission(role, Permission.ASSIGN_REPORTS);
+  const canManageAgencies = hasPermission(role, Permission.MANAGE_AGENCIES);
+  const currentUserId = session?.user?.id ? Number(session.user.id) : null;
+
+  const fetchReport = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/reports/${reportId}`);
+      if (!response.ok) {
+        setError(
+          response.status === 404
+            ? "This report does not exist or is outside your queue."
+            : "Unable to load the report."
+        );
+        return;
+      }
+      setReport(await response.json());
+      setError("");
+    } catch (err) {
+      console.error("Error fetching report:", err);
+      setError("Unable to load the report.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [reportId]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  useEffect(() => {
+    fetch("/api/workflow")
+      .then((response) => response.json())
+      .then((workflow) => setStatuses(workflow.states))
+      .catch((error) => console.error("Error fetching workflow:", error));
+    fetch("/api/reports/workload")
+      .then((response) => response.json())
+      .then(setStaff)
+      .catch((error) => console.error("Error fetching staff:", error));
+  }, []);
+
+  useEffect(() => {
+    if (!canManageAgencies) return;
+    fetch("/api/admin/agencies")
+      .then((response) => response.json())
+      .then(setAgencies)
+      .catch((error) => console.error("Error fetching agencies:", error));
+  }, [canManageAgencies]);
+
+  // Resolves to the server's error message when the update is refused
+  const updateReport = async (
+    changes: Record<string, unknown>
+  ): Promise<string | null> => {
+    try {
+      const response = await fetch(`/api/reports/${reportId}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(changes),
+      });
+
+      if (response.ok) {
+        fetchReport();
+        return null;
+      }
+      const data = await response.json();
+      return data.error || "Failed to update report";
+    } catch (error) {
+      console.error("Error updating report:", error);
+      return "Failed to update report";
+    }
+  };
+
+  const changeAssignment = async (
+    action: "claim" | "release" | "assign",
+    userId?: number | null
+  ) => {
+    try {
+      const response =
+        action === "assign"
+          ? await fetch(`/api/reports/${reportId}/assignee`, {
+              method: "PUT",
+              headers: {
+                "Content-Type": "application/json",
+              },
+              body: JSON.stringify({ userId }),
+            })
+          : await fetch(`/api/reports/${reportId}/claim`, {
+              method: action === "claim" ? "POST" : "DELETE",
+            });
+
+      if (response.ok) {
+        fetchReport();
+      }
+    } catch (error) {
+      console.error("Error changing assignment:", error);
+    }
+  };
+
+  const reassignReport = async (agencyId: string | null) => {
+    try {
+      const response = await fetch(`/api/reports/${reportId}/agency`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ agencyId }),
+      });
+
+      if (response.ok) {
+        fetchReport();
+      }
+    } catch (error) {
+      console.error("Error reassigning report:", error);
+    }
+  };
+
+  const copyLink = async () => {
+    await navigator.clipboard.writeText(window.location.href);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-black">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  if (!report) {
+    return (
+      <div className="min-h-screen bg-black text-white flex flex-col items-center justify-center gap-4">
+        <p className="text-neutral-400">{error}</p>
+        <Link href="/dashboard" className="text-sm text-blue-500 hover:text-blue-400">
+          Back to dashboard
+        </Link>
+      </div>
+    );
+  }
+
+  const statusLabel =
+    statuses.find((status) => status.name === report.status)?.label ??
+    report.status;
+  const hasLocation = report.latitude !== null && report.longitude !== null;
+
+  return (
+    <div className="min-h-screen bg-black text-white">
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        <div className="flex justify-between items-center">
+          <Link href="/dashboard" className="text-sm text-blue-500 hover:text-blue-400">
+            Back to dashboard
+          </Link>
+          <button
+            onClick={copyLink}
+            className="px-4 py-2 text-sm font-medium text-neutral-300 bg-neutral-900 rounded-lg hover:bg-neutral-800 border border-neutral-800 transition-all hover:border-neutral-700"
+          >
+            {copied ? "Link copied" : "Copy link"}
+          </button>
+        </div>
+
+        <div className="flex flex-wrap justify-between items-start gap-6">
+          <div className="space-y-2">
+            <p className="text-xs text-neutral-500 font-mono">
+              {report.reportId}
+            </p>
+            <h1 className="text-2xl font-bold text-neutral-200">
+              {report.title}
+            </h1>
+            <p className="text-sm text-neutral-500">
+              {report.type} · {report.reportType} · Filed{" "}
+              {new Date(report.createdAt).toLocaleString()}
+              {report.parentId && " · Merged into another incident"}
+            </p>
+          </div>
+          <div className="space-y-2">
+            <p className="text-xs text-neutral-500">Status: {statusLabel}</p>
+            <StatusControl
+              status={report.status}
+              states={statuses}
+              hasAssignee={report.assignee !== null}
+              disabled={!canChangeStatus}
+              onChange={(status, reason) => updateReport({ status, reason })}
+            />
+          </div>
+        </div>
+
+        {error && (
+          <div className="text-red-500 text-sm bg-red-500/10 border border-red-500/20 rounded-lg p-3">
+            {error}
+          </div>
+        )}
+
+        <div className="grid gap-8 lg:grid-cols-3">
+          <div className="space-y-8 lg:col-span-2">
+            <section className={sectionClass}>
+              <h2 className={headingClass}>Description</h2>
+              <p className="text-sm text-neutral-300 whitespace-pre-wrap break-words">
+                {report.description}
+              </p>
+              <AttachmentGallery attachments={report.attachments} />
+            </section>
+
+            <section className={sectionClass}>
+              <h2 className={headingClass}>Location</h2>
+              <p className="text-sm text-neutral-400">
+                {report.location || "N/A"}
+              </p>
+              {hasLocation ? (
+                <IncidentMap
+                  reports={[report]}
+                  colorBy="status"
+                  showHeatmap={false}
+                  heatmapRange="all"
+                  onSelect={() => {}}
+                />
+              ) : (
+                <p className="text-sm text-neutral-500">
+                  The reporter did not share coordinates.
+                </p>
+              )}
+            </section>
+
+            <section className={sectionClass}>
+              <h2 className={headingClass}>Internal notes</h2>
+              <CaseNotes
+                reportId={report.reportId}
+                currentUserId={currentUserId}
+                staff={staff}
+              />
+            </section>
+
+            <section className={sectionClass}>
+              <h2 className={headingClass}>Messages with the reporter</h2>
+              <MessageThread
+                endpoint={`/api/reports/${report.reportId}/messages/agency`}
+                viewer="AGENCY"
+              />
+            </section>
+          </div>
+
+          <div className="space-y-8">
+            <section className={sectionClass}>
+              <h2 className={headingClass}>Handling</h2>
+              <div className="space-y-3 text-sm text-neutral-400">
+                {canManageAgencies ? (
+                  <select
+                    value={report.agency?.id ?? ""}
+                    onChange={(e) => reassignReport(e.target.value || null)}
+                    aria-label="Agency"
+                    className="bg-neutral-900 border border-neutral-800 text-neutral-400 rounded-lg px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500/20"
+                  >
+                    <option value="">Unrouted</option>
+                    {agencies.map((agency) => (
+                      <option key={agency.id} value={agency.id}>
+                        {agency.name}
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <p>{report.agency?.name ?? "Unrouted"}</p>
+                )}
+                <AssignmentControls
+                  assignee={report.assignee}
+                  currentUserId={currentUserId}
+                  staff={staff}
+                  canClaim={canChangeStatus}
+                  canAssign={canAssign}
+                  onClaim={() => changeAssignment("claim")}
+                  onRelease={() => changeAssignment("release")}
+                  onAssign={(userId) => changeAssignment("assign", userId)}
+                />
+              </div>
+            </section>
+
+            <section className={sectionClass}>
+              <h2 className={headingClass}>Triage</h2>
+              <TriageEditor
+                report={report}
+                canEdit={canEdit}
+                onSave={updateReport}
+              />
+            </section>
+
+            <section className={sectionClass}>
+              <h2 className={headingClass}>Related reports</h2>
+              <IncidentPanel
+                reportId={report.reportId}
+                canEdit={canEdit}
+                onMergeChange={fetchReport}
+              />
+            </section>
+
+            <section className={sectionClass}>
+              <h2 className={headingClass}>History</h2>
+              {/* Remounts after each change so new history entries show */}
+              <ReportTimeline
+                key={String(report.updatedAt)}
+                endpoint={`/api/reports/${report.reportId}/history`}
+              />
+            </section>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
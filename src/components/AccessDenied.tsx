@@ -0,0 +1,11 @@
+export default function AccessDenied({ message }: { message: string }) {
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center bg-black text-center px-4">
+      <p className="text-sm font-medium text-blue-500">403</p>
+      <h1 className="mt-2 text-2xl font-bold text-neutral-200">
+        Access denied
+      </h1>
+      <p className="mt-2 text-neutral-400">{message}</p>
+    </div>
+  );
+}
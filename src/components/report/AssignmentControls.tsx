@@ -0,0 +1,99 @@
+"use client";
+
+import { useState } from "react";
+
+interface StaffMember {
+  id: number;
+  name: string;
+}
+
+interface AssignmentControlsProps {
+  assignee: StaffMember | null;
+  currentUserId: number | null;
+  // Staff the report can be handed to, when the viewer may assign others
+  staff?: StaffMember[];
+  canClaim: boolean;
+  canAssign: boolean;
+  onClaim: () => Promise<void>;
+  onRelease: () => Promise<void>;
+  onAssign: (userId: number | null) => Promise<void>;
+}
+
+const actionClass = "text-blue-500 hover:text-blue-400 disabled:opacity-50";
+
+export function AssignmentControls({
+  assignee,
+  currentUserId,
+  staff = [],
+  canClaim,
+  canAssign,
+  onClaim,
+  onRelease,
+  onAssign,
+}: AssignmentControlsProps) {
+  const [isSaving, setIsSaving] = useState(false);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsSaving(true);
+    try {
+      await action();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const isMine = assignee !== null && assignee.id === currentUserId;
+
+  if (canAssign) {
+    return (
+      <select
+        value={assignee?.id ?? ""}
+        disabled={isSaving}
+        onChange={(e) =>
+          run(() => onAssign(e.target.value ? Number(e.target.value) : null))
+        }
+        aria-label="Assignee"
+        className="bg-neutral-900 border border-neutral-800 text-neutral-400 rounded-lg px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500/20 disabled:opacity-50"
+      >
+        <option value="">Unassigned</option>
+        {/* Keeps the current assignee selectable even if they left the list */}
+        {assignee && !staff.some((member) => member.id === assignee.id) && (
+          <option value={assignee.id}>{assignee.name}</option>
+        )}
+        {staff.map((member) => (
+          <option key={member.id} value={member.id}>
+            {member.name}
+          </option>
+        ))}
+      </select>
+    );
+  }
+
+  return (
+    <span className="flex items-center gap-2">
+      {!assignee
+        ? "Unassigned"
+        : isMine
+          ? "Assigned to you"
+          : `Assigned to ${assignee.name}`}
+      {canClaim && !assignee && (
+        <button
+          onClick={() => run(onClaim)}
+          disabled={isSaving}
+          className={actionClass}
+        >
+          Claim
+        </button>
+      )}
+      {canClaim && isMine && (
+        <button
+          onClick={() => run(onRelease)}
+          disabled={isSaving}
+          className={actionClass}
+        >
+          Release
+        </button>
+      )}
+    </span>
+  );
+}
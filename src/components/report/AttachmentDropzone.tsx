@@ -0,0 +1,275 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import axios from "axios";
+import { FileAudio, FileText, FileVideo, Upload, X } from "lucide-react";
+
+interface AttachmentLimits {
+  maxBytes: number;
+  maxFiles: number;
+  allowedTypes: string[];
+}
+
+interface PendingUpload {
+  localId: string;
+  file: File;
+  // Object URL used for image thumbnails
+  preview: string | null;
+  progress: number;
+  status: "uploading" | "done" | "error";
+  error?: string;
+  attachmentId?: string;
+}
+
+interface AttachmentDropzoneProps {
+  // Called with the ids of every finished upload and whether any are pending
+  onChange: (state: { attachmentIds: string[]; isUploading: boolean }) => void;
+  // Called with newly accepted files, e.g. to analyze the first image
+  onFilesAdded?: (files: File[]) => void;
+  // Ask the server for each photo's GPS position before it is stripped
+  shareLocation?: boolean;
+  onLocationFound?: (location: { latitude: number; longitude: number }) => void;
+}
+
+function matchesType(type: string, allowedTypes: string[]) {
+  return allowedTypes.some((pattern) =>
+    pattern.endsWith("/*")
+      ? type.startsWith(pattern.slice(0, -1))
+      : type === pattern
+  );
+}
+
+function formatSize(bytes: number) {
+  if (bytes < 1024 * 1024) return `${Math.ceil(bytes / 1024)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function FileIcon({ type }: { type: string }) {
+  if (type.startsWith("video/")) return <FileVideo className="w-6 h-6" />;
+  if (type.startsWith("audio/")) return <FileAudio className="w-6 h-6" />;
+  return <FileText className="w-6 h-6" />;
+}
+
+export function AttachmentDropzone({
+  onChange,
+  onFilesAdded,
+  shareLocation = false,
+  onLocationFound,
+}: AttachmentDropzoneProps) {
+  const [limits, setLimits] = useState<AttachmentLimits | null>(null);
+  const [uploads, setUploads] = useState<PendingUpload[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [error, setError] = useState("");
+  const inputRef = useRef<HTMLInputElement>(null);
+  const previews = useRef<string[]>([]);
+
+  useEffect(() => {
+    fetch("/api/uploads")
+      .then((response) => response.json())
+      .then(setLimits)
+      .catch((err) => console.error("Error fetching upload limits:", err));
+  }, []);
+
+  // Release thumbnail URLs when the form goes away
+  useEffect(() => {
+    const urls = previews.current;
+    return () => urls.forEach((url) => URL.revokeObjectURL(url));
+  }, []);
+
+  useEffect(() => {
+    onChange({
+      attachmentIds: uploads
+        .filter((upload) => upload.status === "done")
+        .map((upload) => upload.attachmentId as string),
+      isUploading: uploads.some((upload) => upload.status === "uploading"),
+    });
+  }, [uploads, onChange]);
+
+  const updateUpload = (localId: string, changes: Partial<PendingUpload>) =>
+    setUploads((prev) =>
+      prev.map((upload) =>
+        upload.localId === localId ? { ...upload, ...changes } : upload
+      )
+    );
+
+  const upload = async ({ localId, file }: PendingUpload) => {
+    const body = new FormData();
+    body.append("file", file);
+    body.append("shareLocation", String(shareLocation));
+
+    try {
+      const { data } = await axios.post("/api/uploads", body, {
+        onUploadProgress: (event) => {
+          if (event.total) {
+            updateUpload(localId, {
+              progress: Math.round((event.loaded / event.total) * 100),
+            });
+          }
+        },
+      });
+      updateUpload(localId, {
+        status: "done",
+        progress: 100,
+        attachmentId: data.id,
+      });
+      if (data.location) onLocationFound?.(data.location);
+    } catch (err) {
+      console.error("Error uploading file:", err);
+      updateUpload(localId, {
+        status: "error",
+        error:
+          axios.isAxiosError(err) && err.response?.data?.error
+            ? err.response.data.error
+            : "Upload failed",
+      });
+    }
+  };
+
+  const addFiles = (files: File[]) => {
+    setError("");
+    if (!limits) return;
+
+    const room = limits.maxFiles - uploads.length;
+    if (files.length > room) {
+      setError(`You can attach up to ${limits.maxFiles} files.`);
+    }
+
+    const accepted: PendingUpload[] = [];
+    for (const file of files.slice(0, Math.max(room, 0))) {
+      if (file.size > limits.maxBytes) {
+        setError(`${file.name} is larger than ${formatSize(limits.maxBytes)}.`);
+        continue;
+      }
+      if (!matchesType(file.type, limits.allowedTypes)) {
+        setError(`${file.name} is not a supported file type.`);
+        continue;
+      }
+
+      const preview = file.type.startsWith("image/")
+        ? URL.createObjectURL(file)
+        : null;
+      if (preview) previews.current.push(preview);
+
+      accepted.push({
+        localId: crypto.randomUUID(),
+        file,
+        preview,
+        progress: 0,
+        status: "uploading",
+      });
+    }
+
+    if (accepted.length === 0) return;
+    setUploads((prev) => [...prev, ...accepted]);
+    accepted.forEach(upload);
+    onFilesAdded?.(accepted.map(({ file }) => file));
+  };
+
+  // The file stays in storage unclaimed; only submitted reports reference it
+  const removeUpload = (localId: string) =>
+    setUploads((prev) => prev.filter((upload) => upload.localId !== localId));
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        onClick={() => inputRef.current?.click()}
+        className={`block w-full p-8 border-2 border-dashed rounded-2xl text-center cursor-pointer
+                   transition-all duration-200 ${
+                     isDragging
+                       ? "border-sky-500 bg-sky-500/10"
+                       : "border-zinc-700 hover:border-sky-500/50 hover:bg-sky-500/5"
+                   }`}
+      >
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          accept={limits?.allowedTypes.join(",")}
+          onChange={(e) => {
+            addFiles(Array.from(e.target.files ?? []));
+            e.target.value = "";
+          }}
+          className="hidden"
+        />
+        <Upload className="mx-auto h-10 w-10 text-zinc-500" />
+        <p className="mt-3 text-sm text-zinc-400">
+          Drop photos, videos, audio or documents here, or click to upload
+        </p>
+        {limits && (
+          <p className="mt-1 text-xs text-zinc-500">
+            Up to {limits.maxFiles} files, {formatSize(limits.maxBytes)} each
+          </p>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {uploads.length > 0 && (
+        <ul className="space-y-2">
+          {uploads.map((item) => (
+            <li
+              key={item.localId}
+              className="flex items-center gap-3 rounded-xl border border-zinc-800 bg-zinc-900/50 p-3"
+            >
+              <div className="w-12 h-12 flex-shrink-0 rounded-lg overflow-hidden bg-black/40 flex items-center justify-center text-zinc-400">
+                {item.preview ? (
+                  // A local blob: URL, which next/image cannot optimize
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img
+                    src={item.preview}
+                    alt=""
+                    className="w-full h-full object-cover"
+                  />
+                ) : (
+                  <FileIcon type={item.file.type} />
+                )}
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="flex justify-between text-sm">
+                  <span className="truncate text-zinc-200">
+                    {item.file.name}
+                  </span>
+                  <span className="ml-2 text-zinc-500">
+                    {formatSize(item.file.size)}
+                  </span>
+                </div>
+                {item.status === "error" ? (
+                  <p className="text-xs text-red-400 mt-1">{item.error}</p>
+                ) : (
+                  <div className="mt-2 h-1.5 rounded-full bg-zinc-800 overflow-hidden">
+                    <div
+                      className={`h-full transition-all ${
+                        item.status === "done" ? "bg-emerald-500" : "bg-sky-500"
+                      }`}
+                      style={{ width: `${item.progress}%` }}
+                    />
+                  </div>
+                )}
+              </div>
+              <button
+                type="button"
+                onClick={() => removeUpload(item.localId)}
+                className="p-1.5 text-zinc-500 hover:text-white"
+                aria-label={`Remove ${item.file.name}`}
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+"use client";
+
+import { FileText } from "lucide-react";
+
+export interface ReportAttachment {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+}
+
+interface AttachmentGalleryProps {
+  attachments: ReportAttachment[];
+}
+
+export function AttachmentGallery({ attachments }: AttachmentGalleryProps) {
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className="mt-4 grid grid-cols-2 md:grid-cols-3 gap-3">
+      {attachments.map((attachment) => {
+        const src = `/api/attachments/${attachment.id}`;
+
+        if (attachment.mimeType.startsWith("image/")) {
+          return (
+            <a key={attachment.id} href={src} target="_blank" rel="noreferrer">
+              {/* Served only to signed-in staff, and the next/image optimizer
+                  would fetch it without their session */}
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img
+                src={src}
+                alt={attachment.fileName}
+                className="w-full h-40 object-cover rounded-lg border border-neutral-800"
+              />
+            </a>
+          );
+        }
+        if (attachment.mimeType.startsWith("video/")) {
+          return (
+            <video
+              key={attachment.id}
+              src={src}
+              controls
+              preload="metadata"
+              className="w-full h-40 rounded-lg border border-neutral-800 bg-black"
+            />
+          );
+        }
+        if (attachment.mimeType.startsWith("audio/")) {
+          return (
+            <div
+              key={attachment.id}
+              className="flex flex-col justify-center gap-2 p-3 rounded-lg border border-neutral-800"
+            >
+              <span className="truncate text-xs text-neutral-400">
+                {attachment.fileName}
+              </span>
+              <audio src={src} controls preload="none" className="w-full" />
+            </div>
+          );
+        }
+        return (
+          <a
+            key={attachment.id}
+            href={src}
+            className="flex items-center gap-2 p-3 rounded-lg border border-neutral-800 text-sm text-blue-500 hover:text-blue-400"
+          >
+            <FileText className="w-5 h-5 flex-shrink-0" />
+            <span className="truncate">{attachment.fileName}</span>
+          </a>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,330 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Loader } from "lucide-react";
+
+interface StaffMember {
+  id: number;
+  name: string;
+  email: string;
+}
+
+interface NoteRevision {
+  id: string;
+  body: string;
+  createdAt: string;
+}
+
+interface Note {
+  id: string;
+  body: string;
+  createdAt: string;
+  editedAt: string | null;
+  author: StaffMember | null;
+  mentions: { user: StaffMember }[];
+  revisions: NoteRevision[];
+}
+
+interface CaseNotesProps {
+  reportId: string;
+  currentUserId: number | null;
+  // Colleagues offered when typing "@"
+  staff?: StaffMember[];
+}
+
+const inputClass =
+  "w-full bg-neutral-900 border border-neutral-800 text-neutral-300 rounded-lg px-3 py-2 text-sm placeholder-neutral-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20";
+
+// Mentions are written as "@" and the colleague's email
+const MENTION = /(@[^\s@]+@[^\s@]+\.[A-Za-z0-9.-]*[A-Za-z0-9])/;
+
+// The "@..." being typed at the end of a draft, if any
+const MENTION_QUERY = /(^|\s)@([^\s@]*)$/;
+
+// Highlights the mentions in a note's text
+function NoteBody({ note }: { note: Note }) {
+  const mentioned = new Set(
+    note.mentions.map(({ user }) => `@${user.email.toLowerCase()}`)
+  );
+  return (
+    <p className="whitespace-pre-wrap break-words text-sm text-neutral-300">
+      {note.body.split(MENTION).map((part, index) =>
+        mentioned.has(part.toLowerCase()) ? (
+          <span key={index} className="text-blue-400">
+            {part}
+          </span>
+        ) : (
+          part
+        )
+      )}
+    </p>
+  );
+}
+
+function NoteEditor({
+  value,
+  staff,
+  placeholder,
+  submitLabel,
+  onSubmit,
+  onCancel,
+}: {
+  value: string;
+  staff: StaffMember[];
+  placeholder: string;
+  submitLabel: string;
+  // Resolves to an error message when the server refuses the note
+  onSubmit: (body: string) => Promise<string | null>;
+  onCancel?: () => void;
+}) {
+  const [draft, setDraft] = useState(value);
+  const [error, setError] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const query = draft.match(MENTION_QUERY)?.[2].toLowerCase();
+  const suggestions =
+    query === undefined
+      ? []
+      : staff
+          .filter(
+            (member) =>
+              member.name.toLowerCase().includes(query) ||
+              member.email.toLowerCase().includes(query)
+          )
+          .slice(0, 5);
+
+  const mention = (member: StaffMember) =>
+    setDraft((prev) =>
+      prev.replace(MENTION_QUERY, (_, space) => `${space}@${member.email} `)
+    );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim()) return;
+
+    setIsSaving(true);
+    try {
+      const failure = await onSubmit(draft);
+      if (failure) {
+        setError(failure);
+      } else {
+        setDraft("");
+        setError("");
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        rows={3}
+        placeholder={placeholder}
+        disabled={isSaving}
+        className={inputClass}
+      />
+      {suggestions.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {suggestions.map((member) => (
+            <button
+              key={member.id}
+              type="button"
+              onClick={() => mention(member)}
+              className="rounded-full border border-neutral-800 px-3 py-1 text-xs text-neutral-300 hover:border-neutral-700"
+            >
+              {member.name}
+            </button>
+          ))}
+        </div>
+      )}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      <div className="flex gap-3 text-sm">
+        <button
+          type="submit"
+          disabled={isSaving || !draft.trim()}
+          className="text-blue-500 hover:text-blue-400 disabled:opacity-50"
+        >
+          {submitLabel}
+        </button>
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="text-neutral-500 hover:text-neutral-300"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
+
+// Internal notes on a case. Reporters never see these.
+export function CaseNotes({
+  reportId,
+  currentUserId,
+  staff = [],
+}: CaseNotesProps) {
+  const [notes, setNotes] = useState<Note[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+
+  const endpoint = `/api/reports/${reportId}/notes`;
+
+  const fetchNotes = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(endpoint);
+      if (!response.ok) {
+        throw new Error("Failed to fetch notes");
+      }
+      setNotes(await response.json());
+      setError("");
+    } catch (err) {
+      console.error("Error fetching notes:", err);
+      setError("Unable to load notes.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [endpoint]);
+
+  useEffect(() => {
+    fetchNotes();
+  }, [fetchNotes]);
+
+  const save = async (url: string, method: string, body: string) => {
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ body }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        return { error: data.error || "Failed to save note" };
+      }
+      return { note: data as Note };
+    } catch (err) {
+      console.error("Error saving note:", err);
+      return { error: "Failed to save note" };
+    }
+  };
+
+  const addNote = async (body: string) => {
+    const { note, error } = await save(endpoint, "POST", body);
+    if (note) setNotes((prev) => [...prev, note]);
+    return error ?? null;
+  };
+
+  const editNote = async (noteId: string, body: string) => {
+    const { note, error } = await save(`${endpoint}/${noteId}`, "PATCH", body);
+    if (note) {
+      setNotes((prev) => prev.map((n) => (n.id === noteId ? note : n)));
+      setEditingId(null);
+    }
+    return error ?? null;
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader className="w-5 h-5 animate-spin text-neutral-400" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      <ul className="space-y-3">
+        {notes.map((note) => (
+          <li
+            key={note.id}
+            className="rounded-lg border border-neutral-800 bg-neutral-900/50 p-3 space-y-2"
+          >
+            <div className="flex items-center justify-between gap-3 text-xs text-neutral-500">
+              <span>
+                {note.author?.name ?? "Former staff member"} ·{" "}
+                {new Date(note.createdAt).toLocaleString()}
+                {note.editedAt && (
+                  <>
+                    {" · "}
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setHistoryId((prev) =>
+                          prev === note.id ? null : note.id
+                        )
+                      }
+                      className="underline hover:text-neutral-300"
+                    >
+                      edited {new Date(note.editedAt).toLocaleString()}
+                    </button>
+                  </>
+                )}
+              </span>
+              {note.author?.id === currentUserId && editingId !== note.id && (
+                <button
+                  type="button"
+                  onClick={() => setEditingId(note.id)}
+                  className="text-blue-500 hover:text-blue-400"
+                >
+                  Edit
+                </button>
+              )}
+            </div>
+
+            {editingId === note.id ? (
+              <NoteEditor
+                value={note.body}
+                staff={staff}
+                placeholder="Note"
+                submitLabel="Save"
+                onSubmit={(body) => editNote(note.id, body)}
+                onCancel={() => setEditingId(null)}
+              />
+            ) : (
+              <NoteBody note={note} />
+            )}
+
+            {historyId === note.id && (
+              <ol className="space-y-2 border-l border-neutral-800 pl-3">
+                {note.revisions.map((revision) => (
+                  <li key={revision.id} className="text-xs text-neutral-500">
+                    <p>
+                      Replaced {new Date(revision.createdAt).toLocaleString()}
+                    </p>
+                    <p className="whitespace-pre-wrap break-words text-neutral-400">
+                      {revision.body}
+                    </p>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </li>
+        ))}
+
+        {notes.length === 0 && (
+          <li className="text-center text-sm text-neutral-500 py-4">
+            No notes yet.
+          </li>
+        )}
+      </ul>
+
+      <NoteEditor
+        value=""
+        staff={staff}
+        placeholder="Add an internal note. Type @ to mention a colleague."
+        submitLabel="Add note"
+        onSubmit={addNote}
+      />
+    </div>
+  );
+}
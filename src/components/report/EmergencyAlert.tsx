@@ -0,0 +1,125 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { AlertTriangle, Volume2, VolumeX, X } from "lucide-react";
+
+interface AlertReport {
+  reportId: string;
+  title: string;
+  location: string | null;
+}
+
+interface EmergencyAlertProps {
+  alerts: AlertReport[];
+  onDismiss: (reportId: string) => void;
+}
+
+const MUTE_KEY = "emergency-alert-muted";
+
+// A short two-tone siren from the Web Audio API, so no sound file has to be
+// served. Browsers only allow it once the page has had a click or key press.
+function playAlertTone() {
+  try {
+    const context = new AudioContext();
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    oscillator.type = "square";
+    gain.gain.value = 0.1;
+    [880, 660, 880, 660].forEach((frequency, index) =>
+      oscillator.frequency.setValueAtTime(
+        frequency,
+        context.currentTime + index * 0.25
+      )
+    );
+    oscillator.connect(gain).connect(context.destination);
+    oscillator.start();
+    oscillator.stop(context.currentTime + 1);
+    oscillator.onended = () => context.close();
+  } catch (error) {
+    console.error("Error playing alert tone:", error);
+  }
+}
+
+// Banner for emergencies that arrived while the dashboard was open
+export function EmergencyAlert({ alerts, onDismiss }: EmergencyAlertProps) {
+  const [muted, setMuted] = useState(false);
+  const announced = useRef(new Set<string>());
+
+  useEffect(() => {
+    setMuted(localStorage.getItem(MUTE_KEY) === "true");
+  }, []);
+
+  useEffect(() => {
+    const fresh = alerts.filter(
+      (alert) => !announced.current.has(alert.reportId)
+    );
+    fresh.forEach((alert) => announced.current.add(alert.reportId));
+    if (fresh.length > 0 && !muted) {
+      playAlertTone();
+    }
+  }, [alerts, muted]);
+
+  const toggleMuted = () => {
+    localStorage.setItem(MUTE_KEY, String(!muted));
+    setMuted(!muted);
+  };
+
+  if (alerts.length === 0) {
+    return null;
+  }
+
+  return (
+    <div
+      role="alert"
+      className="mb-8 rounded-xl border border-red-500/40 bg-red-500/10 p-4 space-y-3"
+    >
+      <div className="flex items-center justify-between">
+        <p className="flex items-center gap-2 font-medium text-red-400">
+          <AlertTriangle className="w-5 h-5 animate-pulse" />
+          {alerts.length === 1
+            ? "New emergency report"
+            : `${alerts.length} new emergency reports`}
+        </p>
+        <button
+          type="button"
+          onClick={toggleMuted}
+          className="p-1.5 text-red-300 hover:text-white"
+          aria-label={muted ? "Unmute alerts" : "Mute alerts"}
+        >
+          {muted ? (
+            <VolumeX className="w-4 h-4" />
+          ) : (
+            <Volume2 className="w-4 h-4" />
+          )}
+        </button>
+      </div>
+      <ul className="space-y-2">
+        {alerts.map((alert) => (
+          <li
+            key={alert.reportId}
+            className="flex items-center justify-between gap-4 text-sm"
+          >
+            <Link
+              href={`/dashboard/reports/${alert.reportId}`}
+              className="text-red-200 hover:text-white"
+            >
+              {alert.title}
+              {alert.location && (
+                <span className="text-red-300/70"> · {alert.location}</span>
+              )}
+            </Link>
+            <button
+              type="button"
+              onClick={() => onDismiss(alert.reportId)}
+              className="p-1 text-red-300 hover:text-white"
+              aria-label="Dismiss alert"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import L from "leaflet";
+import "leaflet.markercluster";
+import "leaflet.heat";
+import "leaflet/dist/leaflet.css";
+import "leaflet.markercluster/dist/MarkerCluster.css";
+import "leaflet.markercluster/dist/MarkerCluster.Default.css";
+
+// Leaflet touches `window` on import, so load this component with
+// next/dynamic and ssr disabled.
+
+interface MapReport {
+  reportId: string;
+  title: string;
+  status: string;
+  reportType: string;
+  latitude: number | null;
+  longitude: number | null;
+  priorityScore: number | null;
+  createdAt: Date | string;
+}
+
+export type MapColorBy = "status" | "type";
+
+export type HeatmapRange = "24h" | "7d" | "30d" | "all";
+
+interface IncidentMapProps {
+  reports: MapReport[];
+  colorBy: MapColorBy;
+  showHeatmap: boolean;
+  heatmapRange: HeatmapRange;
+  onSelect: (reportId: string) => void;
+}
+
+const STATUS_COLORS: Record<string, string> = {
+  PENDING: "#f59e0b",
+  IN_PROGRESS: "#3b82f6",
+  RESOLVED: "#10b981",
+  DISMISSED: "#737373",
+};
+
+const TYPE_COLORS: Record<string, string> = {
+  Theft: "#a855f7",
+  "Fire Outbreak": "#ef4444",
+  "Medical Emergency": "#ec4899",
+  "Natural Disaster": "#14b8a6",
+  Violence: "#f97316",
+  Other: "#737373",
+};
+
+const FALLBACK_COLOR = "#a3a3a3";
+
+const HEATMAP_RANGES: Record<HeatmapRange, number | null> = {
+  "24h": 24 * 60 * 60 * 1000,
+  "7d": 7 * 24 * 60 * 60 * 1000,
+  "30d": 30 * 24 * 60 * 60 * 1000,
+  all: null,
+};
+
+// Any XYZ tile server works; a self-hosted one avoids sending staff locations
+// to a third party
+const TILE_URL =
+  process.env.NEXT_PUBLIC_MAP_TILE_URL ||
+  "https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png";
+const TILE_ATTRIBUTION =
+  process.env.NEXT_PUBLIC_MAP_TILE_ATTRIBUTION ||
+  '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+
+const DEFAULT_CENTER: L.LatLngTuple = [0, 0];
+
+function hasCoordinates(
+  report: MapReport
+): report is MapReport & { latitude: number; longitude: number } {
+  return report.latitude !== null && report.longitude !== null;
+}
+
+function markerColor(
+  report: Pick<MapReport, "status" | "reportType">,
+  colorBy: MapColorBy
+) {
+  const colors = colorBy === "status" ? STATUS_COLORS : TYPE_COLORS;
+  const key = colorBy === "status" ? report.status : report.reportType;
+  return colors[key] ?? FALLBACK_COLOR;
+}
+
+export function IncidentMap({
+  reports,
+  colorBy,
+  showHeatmap,
+  heatmapRange,
+  onSelect,
+}: IncidentMapProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<L.Map | null>(null);
+  const clusterRef = useRef<L.MarkerClusterGroup | null>(null);
+  const heatRef = useRef<L.HeatLayer | null>(null);
+  const hasFitted = useRef(false);
+  // Markers call the latest handler without being rebuilt when it changes
+  const onSelectRef = useRef(onSelect);
+  onSelectRef.current = onSelect;
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    const map = L.map(containerRef.current, {
+      center: DEFAULT_CENTER,
+      zoom: 2,
+    });
+    L.tileLayer(TILE_URL, {
+      attribution: TILE_ATTRIBUTION,
+      maxZoom: 19,
+    }).addTo(map);
+
+    const cluster = L.markerClusterGroup({ showCoverageOnHover: false });
+    map.addLayer(cluster);
+    const heat = L.heatLayer([], { radius: 25, blur: 15, maxZoom: 16 });
+
+    mapRef.current = map;
+    clusterRef.current = cluster;
+    heatRef.current = heat;
+
+    return () => {
+      map.remove();
+      mapRef.current = null;
+      clusterRef.current = null;
+      heatRef.current = null;
+      hasFitted.current = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    const cluster = clusterRef.current;
+    if (!map || !cluster) return;
+
+    cluster.clearLayers();
+    const located = reports.filter(hasCoordinates);
+    const markers = located.map((report) => {
+      const color = markerColor(report, colorBy);
+      return L.circleMarker([report.latitude, report.longitude], {
+        radius: 8,
+        color,
+        fillColor: color,
+        fillOpacity: 0.7,
+        weight: 2,
+      })
+        .bindTooltip(report.title)
+        .on("click", () => onSelectRef.current(report.reportId));
+    });
+    cluster.addLayers(markers);
+
+    // Frame the reports once; later refreshes keep whatever view staff chose
+    if (!hasFitted.current && markers.length > 0) {
+      map.fitBounds(cluster.getBounds(), { padding: [32, 32], maxZoom: 15 });
+      hasFitted.current = true;
+    }
+  }, [reports, colorBy]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    const heat = heatRef.current;
+    if (!map || !heat) return;
+
+    if (!showHeatmap) {
+      map.removeLayer(heat);
+      return;
+    }
+
+    const range = HEATMAP_RANGES[heatmapRange];
+    const since = range === null ? null : Date.now() - range;
+    const points = reports
+      .filter(hasCoordinates)
+      .filter(
+        (report) =>
+          since === null || new Date(report.createdAt).getTime() >= since
+      )
+      .map<L.HeatLatLngTuple>((report) => [
+        report.latitude,
+        report.longitude,
+        // Untriaged reports still count, just less than urgent ones
+        Math.max(report.priorityScore ?? 30, 10) / 100,
+      ]);
+
+    heat.setLatLngs(points);
+    if (!map.hasLayer(heat)) {
+      heat.addTo(map);
+    }
+  }, [reports, showHeatmap, heatmapRange]);
+
+  const legend = Object.entries(
+    colorBy === "status" ? STATUS_COLORS : TYPE_COLORS
+  );
+  const unlocated = reports.length - reports.filter(hasCoordinates).length;
+
+  return (
+    <div className="space-y-3">
+      <div
+        ref={containerRef}
+        className="h-[600px] w-full rounded-xl border border-neutral-800 overflow-hidden z-0"
+      />
+      <div className="flex flex-wrap items-center gap-4 text-xs text-neutral-400">
+        {legend.map(([label, color]) => (
+          <span key={label} className="flex items-center gap-2">
+            <span
+              className="w-3 h-3 rounded-full"
+              style={{ backgroundColor: color }}
+            />
+            {label}
+          </span>
+        ))}
+        {unlocated > 0 && (
+          <span className="ml-auto text-neutral-500">
+            {unlocated} {unlocated === 1 ? "report has" : "reports have"} no
+            coordinates
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,250 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Loader } from "lucide-react";
+
+interface LinkedReport {
+  id: string;
+  reportId: string;
+  title: string;
+  status: string;
+  createdAt: string;
+}
+
+interface IncidentLinks {
+  parent: LinkedReport | null;
+  mergedReports: LinkedReport[];
+  related: LinkedReport[];
+}
+
+interface DuplicateCandidate extends LinkedReport {
+  score: number;
+  distanceMeters: number | null;
+  hoursApart: number;
+  sameType: boolean;
+  textSimilarity: number;
+}
+
+interface IncidentPanelProps {
+  reportId: string;
+  canEdit: boolean;
+  // Called after a merge or unmerge, which changes what the dashboard lists
+  onMergeChange: () => void;
+}
+
+const actionClass = "text-blue-500 hover:text-blue-400 disabled:opacity-50";
+
+export function IncidentPanel({
+  reportId,
+  canEdit,
+  onMergeChange,
+}: IncidentPanelProps) {
+  const [links, setLinks] = useState<IncidentLinks | null>(null);
+  const [candidates, setCandidates] = useState<DuplicateCandidate[]>([]);
+  const [error, setError] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const base = `/api/reports/${reportId}`;
+
+  const fetchAll = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [linksResponse, duplicatesResponse] = await Promise.all([
+        fetch(`${base}/links`),
+        fetch(`${base}/duplicates`),
+      ]);
+      if (!linksResponse.ok || !duplicatesResponse.ok) {
+        throw new Error("Failed to fetch related reports");
+      }
+      setLinks(await linksResponse.json());
+      setCandidates(await duplicatesResponse.json());
+      setError("");
+    } catch (err) {
+      console.error("Error fetching related reports:", err);
+      setError("Unable to load related reports.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [base]);
+
+  useEffect(() => {
+    fetchAll();
+  }, [fetchAll]);
+
+  const request = async (
+    url: string,
+    init: RequestInit,
+    mergeChanged = false
+  ) => {
+    setIsSaving(true);
+    setError("");
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: { "Content-Type": "application/json" },
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Request failed");
+      }
+      if (mergeChanged) onMergeChange();
+      await fetchAll();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const mergeInto = (parentReportId: string) =>
+    request(
+      `${base}/merge`,
+      { method: "POST", body: JSON.stringify({ parentReportId }) },
+      true
+    );
+
+  const unmerge = (childReportId: string) =>
+    request(`/api/reports/${childReportId}/merge`, { method: "DELETE" }, true);
+
+  const link = (relatedReportId: string) =>
+    request(`${base}/links`, {
+      method: "POST",
+      body: JSON.stringify({ relatedReportId }),
+    });
+
+  const unlink = (relatedReportId: string) =>
+    request(`${base}/links/${relatedReportId}`, { method: "DELETE" });
+
+  if (isLoading && !links) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader className="w-5 h-5 animate-spin text-neutral-400" />
+      </div>
+    );
+  }
+
+  const relatedIds = new Set(links?.related.map((r) => r.id));
+  const mergedIds = new Set(links?.mergedReports.map((r) => r.id));
+  const suggestions = candidates.filter(
+    (c) =>
+      c.id !== links?.parent?.id &&
+      !relatedIds.has(c.id) &&
+      !mergedIds.has(c.id)
+  );
+
+  const describe = (report: LinkedReport) =>
+    `${report.title} · ${report.reportId} · ${report.status}`;
+
+  return (
+    <div className="rounded-xl border border-neutral-800 bg-black/30 p-4 space-y-4 text-sm">
+      {error && <p className="text-red-400">{error}</p>}
+
+      {links?.parent && (
+        <div className="flex items-center justify-between gap-4">
+          <span className="text-neutral-300">
+            Merged into {describe(links.parent)}
+          </span>
+          {canEdit && (
+            <button
+              onClick={() => unmerge(reportId)}
+              disabled={isSaving}
+              className={actionClass}
+            >
+              Unmerge
+            </button>
+          )}
+        </div>
+      )}
+
+      {links && links.mergedReports.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-neutral-500">Merged reports</h4>
+          {links.mergedReports.map((merged) => (
+            <div
+              key={merged.id}
+              className="flex items-center justify-between gap-4"
+            >
+              <span className="text-neutral-300">{describe(merged)}</span>
+              {canEdit && (
+                <button
+                  onClick={() => unmerge(merged.reportId)}
+                  disabled={isSaving}
+                  className={actionClass}
+                >
+                  Unmerge
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {links && links.related.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-neutral-500">Related reports</h4>
+          {links.related.map((related) => (
+            <div
+              key={related.id}
+              className="flex items-center justify-between gap-4"
+            >
+              <span className="text-neutral-300">{describe(related)}</span>
+              {canEdit && (
+                <button
+                  onClick={() => unlink(related.reportId)}
+                  disabled={isSaving}
+                  className={actionClass}
+                >
+                  Unlink
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <h4 className="text-neutral-500">Possible duplicates</h4>
+        {suggestions.map((candidate) => (
+          <div
+            key={candidate.id}
+            className="flex items-start justify-between gap-4"
+          >
+            <div>
+              <p className="text-neutral-300">{describe(candidate)}</p>
+              <p className="text-xs text-neutral-500">
+                {Math.round(candidate.score * 100)}% match
+                {candidate.distanceMeters !== null &&
+                  ` · ${candidate.distanceMeters} m away`}
+                {` · ${candidate.hoursApart} h apart`}
+                {candidate.sameType && " · same type"}
+                {` · ${Math.round(candidate.textSimilarity * 100)}% similar wording`}
+              </p>
+            </div>
+            {canEdit && !links?.parent && (
+              <div className="flex gap-3 shrink-0">
+                <button
+                  onClick={() => mergeInto(candidate.reportId)}
+                  disabled={isSaving}
+                  className={actionClass}
+                >
+                  Merge into
+                </button>
+                <button
+                  onClick={() => link(candidate.reportId)}
+                  disabled={isSaving}
+                  className={actionClass}
+                >
+                  Mark related
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+        {suggestions.length === 0 && (
+          <p className="text-neutral-500">No likely duplicates found.</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Loader, RefreshCw, Send } from "lucide-react";
+import { PASSPHRASE_HEADER } from "@/lib/passphrase";
+
+interface Message {
+  id: string;
+  sender: "REPORTER" | "AGENCY";
+  body: string;
+  createdAt: string;
+}
+
+interface MessageThreadProps {
+  // Base URL of the thread, e.g. /api/reports/<id>/messages
+  endpoint: string;
+  // Which side of the conversation is looking at the thread
+  viewer: "REPORTER" | "AGENCY";
+  // Reporter's access passphrase; staff requests are authorised by session
+  passphrase?: string;
+  // Messages pushed by a live stream since the thread was loaded
+  incoming?: Message[];
+  // Changing this reloads the thread, e.g. to catch up after a live stream
+  // was interrupted
+  reloadKey?: number;
+}
+
+export function MessageThread({
+  endpoint,
+  viewer,
+  passphrase,
+  incoming,
+  reloadKey,
+}: MessageThreadProps) {
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [draft, setDraft] = useState("");
+  const [error, setError] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSending, setIsSending] = useState(false);
+
+  const authHeaders = useCallback(
+    (): Record<string, string> =>
+      passphrase ? { [PASSPHRASE_HEADER]: passphrase } : {},
+    [passphrase]
+  );
+
+  const fetchMessages = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(endpoint, { headers: authHeaders() });
+      if (!response.ok) {
+        throw new Error("Failed to fetch messages");
+      }
+      setMessages(await response.json());
+      setError("");
+    } catch (err) {
+      console.error("Error fetching messages:", err);
+      setError("Unable to load messages.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [endpoint, authHeaders]);
+
+  useEffect(() => {
+    fetchMessages();
+  }, [fetchMessages, reloadKey]);
+
+  // A pushed message may already be listed, e.g. one this thread just sent
+  useEffect(() => {
+    if (!incoming?.length) return;
+    setMessages((prev) => {
+      const fresh = incoming.filter(
+        (message) => !prev.some(({ id }) => id === message.id)
+      );
+      return fresh.length > 0 ? [...prev, ...fresh] : prev;
+    });
+  }, [incoming]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim()) return;
+
+    setIsSending(true);
+    try {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...authHeaders() },
+        body: JSON.stringify({ body: draft }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to send message");
+      }
+
+      setMessages((prev) =>
+        prev.some(({ id }) => id === data.id) ? prev : [...prev, data]
+      );
+      setDraft("");
+      setError("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to send message");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const senderLabel = (sender: Message["sender"]) => {
+    if (sender === viewer) return "You";
+    return sender === "AGENCY" ? "Agency" : "Anonymous reporter";
+  };
+
+  return (
+    <div className="rounded-xl border border-white/5 bg-black/30 p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-white">Secure Messages</h3>
+        <button
+          type="button"
+          onClick={fetchMessages}
+          disabled={isLoading}
+          className="p-1.5 text-zinc-400 hover:text-white disabled:opacity-50"
+          aria-label="Refresh messages"
+        >
+          <RefreshCw className={`w-4 h-4 ${isLoading ? "animate-spin" : ""}`} />
+        </button>
+      </div>
+
+      <div className="max-h-80 overflow-y-auto space-y-3">
+        {messages.map((message) => (
+          <div
+            key={message.id}
+            className={`flex ${
+              message.sender === viewer ? "justify-end" : "justify-start"
+            }`}
+          >
+            <div
+              className={`max-w-[80%] rounded-lg px-3 py-2 text-sm ${
+                message.sender === viewer
+                  ? "bg-sky-500/20 text-sky-100"
+                  : "bg-white/5 text-zinc-200"
+              }`}
+            >
+              <div className="text-xs text-zinc-400 mb-1">
+                {senderLabel(message.sender)} ·{" "}
+                {new Date(message.createdAt).toLocaleString()}
+              </div>
+              <p className="whitespace-pre-wrap break-words">{message.body}</p>
+            </div>
+          </div>
+        ))}
+
+        {!isLoading && messages.length === 0 && (
+          <p className="text-center text-sm text-zinc-500 py-4">
+            No messages yet.
+          </p>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          rows={2}
+          placeholder={
+            viewer === "REPORTER"
+              ? "Write to the agency. Avoid sharing details that identify you."
+              : "Reply to the reporter"
+          }
+          className="flex-1 rounded-lg bg-black/50 border border-white/5 px-3 py-2 text-sm
+                   text-white placeholder-zinc-500 focus:outline-none focus:ring-2 focus:ring-sky-500/40"
+          disabled={isSending}
+        />
+        <button
+          type="submit"
+          disabled={isSending || !draft.trim()}
+          className="self-end rounded-lg bg-sky-500 px-3 py-2 text-white hover:bg-sky-400
+                   disabled:opacity-50 disabled:cursor-not-allowed"
+          aria-label="Send message"
+        >
+          {isSending ? (
+            <Loader className="w-4 h-4 animate-spin" />
+          ) : (
+            <Send className="w-4 h-4" />
+          )}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -1,23 +1,72 @@
 "use client";
 
-import { useState, useCallback, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { LocationInput } from "./LocationInput";
-import crypto from "crypto";
-
-const REPORT_TYPES = [
-  "Theft",
-  "Fire Outbreak",
-  "Medical Emergency",
-  "Natural Disaster",
-  "Violence",
-  "Other",
-] as const;
+import { AttachmentDropzone } from "./AttachmentDropzone";
+import { REPORT_TYPES } from "@/lib/report-types";
+import { LOW_CONFIDENCE } from "@/lib/image-analysis/schema";
+import { ImageAnalysis } from "@/lib/image-analysis/types";
 
 type ReportType = "EMERGENCY" | "NON_EMERGENCY";
 
+// Form fields the image analysis can suggest a value for
+type SuggestibleField =
+  | "title"
+  | "description"
+  | "specificType"
+  | "incidentType";
+
+interface FieldSuggestion {
+  value: string;
+  confidence: number;
+}
+
+interface SuggestionProps {
+  suggestion?: FieldSuggestion;
+  label?: string;
+  onAccept: () => void;
+  onDismiss: () => void;
+}
+
+function Suggestion({
+  suggestion,
+  label,
+  onAccept,
+  onDismiss,
+}: SuggestionProps) {
+  if (!suggestion) return null;
+
+  return (
+    <div className="mt-2 flex items-start gap-3 rounded-lg border border-sky-500/20 bg-sky-500/5 px-3 py-2 text-sm">
+      <p className="flex-1 text-zinc-300">
+        <span className="text-sky-400">
+          Suggested from photo ({Math.round(suggestion.confidence * 100)}%
+          sure):
+        </span>{" "}
+        {label ?? suggestion.value}
+      </p>
+      <button
+        type="button"
+        onClick={onAccept}
+        className="text-sky-400 hover:text-sky-300"
+      >
+        Use
+      </button>
+      <button
+        type="button"
+        onClick={onDismiss}
+        className="text-zinc-500 hover:text-zinc-300"
+      >
+        Dismiss
+      </button>
+    </div>
+  );
+}
+
 interface ReportResult {
   message: string;
   reportId: string;
+  passphrase: string;
   success: boolean;
 }
 
@@ -34,8 +83,21 @@ export function ReportForm({ onComplete }: ReportFormProps) {
     description: "",
     title: "",
   });
+  // Preview of the image the details were suggested from
   const [image, setImage] = useState<string | null>(null);
+  const [attachments, setAttachments] = useState({
+    attachmentIds: [] as string[],
+    isUploading: false,
+  });
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [analysis, setAnalysis] = useState<ImageAnalysis | null>(null);
+  // Analysis results that were not confident enough to fill in, or would have
+  // replaced something the reporter typed
+  const [suggestions, setSuggestions] = useState<
+    Partial<Record<SuggestibleField, FieldSuggestion>>
+  >({});
+  // Photo GPS is stripped on upload unless the reporter opts in to sharing it
+  const [sharePhotoLocation, setSharePhotoLocation] = useState(false);
   const [coordinates, setCoordinates] = useState<{
     latitude: number | null;
     longitude: number | null;
@@ -44,19 +106,88 @@ export function ReportForm({ onComplete }: ReportFormProps) {
     longitude: null,
   });
   const [isSubmitting, setIsSubmitting] = useState(false);
+  // Analysis finishes asynchronously; read what the reporter has typed by then
+  const formDataRef = useRef(formData);
+  formDataRef.current = formData;
 
-  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  const applyAnalysis = (result: ImageAnalysis) => {
+    const proposed: Record<SuggestibleField, FieldSuggestion> = {
+      title: { value: result.title, confidence: result.confidence.title },
+      description: {
+        value: result.description,
+        confidence: result.confidence.description,
+      },
+      specificType: {
+        value: result.reportType,
+        confidence: result.confidence.reportType,
+      },
+      incidentType: {
+        value: result.classification,
+        confidence: result.confidence.classification,
+      },
+    };
 
-    setIsAnalyzing(true);
+    const filled: Partial<Record<SuggestibleField, string>> = {};
+    const offered: Partial<Record<SuggestibleField, FieldSuggestion>> = {};
+    for (const [field, suggestion] of Object.entries(proposed) as [
+      SuggestibleField,
+      FieldSuggestion,
+    ][]) {
+      const current = formDataRef.current[field];
+      if (!suggestion.value || suggestion.value === current) continue;
+      if (!current && suggestion.confidence >= LOW_CONFIDENCE) {
+        filled[field] = suggestion.value;
+      } else {
+        offered[field] = suggestion;
+      }
+    }
+
+    setAnalysis(result);
+    setSuggestions(offered);
+    setFormData((prev) => ({
+      ...prev,
+      ...filled,
+      incidentType: (filled.incidentType as ReportType) ?? prev.incidentType,
+    }));
+  };
+
+  const acceptSuggestion = (field: SuggestibleField) => {
+    const suggestion = suggestions[field];
+    if (suggestion) {
+      setFormData((prev) => ({
+        ...prev,
+        [field]: suggestion.value,
+      }));
+    }
+    dismissSuggestion(field);
+  };
+
+  const dismissSuggestion = (field: SuggestibleField) =>
+    setSuggestions((prev) => {
+      const next = { ...prev };
+      delete next[field];
+      return next;
+    });
+
+  const suggestionProps = (field: SuggestibleField) => ({
+    suggestion: suggestions[field],
+    onAccept: () => acceptSuggestion(field),
+    onDismiss: () => dismissSuggestion(field),
+  });
+
+  // The first image attached is analyzed to suggest the report details
+  const handleFilesAdded = async (files: File[]) => {
+    const file = files.find((f) => f.type.startsWith("image/"));
+    if (!file || image) return;
 
+    setIsAnalyzing(true);
     try {
       const base64 = await new Promise((resolve) => {
         const reader = new FileReader();
         reader.onloadend = () => resolve(reader.result);
         reader.readAsDataURL(file);
       });
+      setImage(base64 as string);
 
       const response = await fetch("/api/analyze-image", {
         method: "POST",
@@ -65,16 +196,10 @@ export function ReportForm({ onComplete }: ReportFormProps) {
       });
 
       const data = await response.json();
-
-      if (data.title && data.description && data.reportType) {
-        setFormData((prev) => ({
-          ...prev,
-          title: data.title,
-          description: data.description,
-          specificType: data.reportType,
-        }));
-        setImage(base64 as string);
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to analyze image");
       }
+      applyAnalysis(data);
     } catch (error) {
       console.error("Error analyzing image:", error);
     } finally {
@@ -82,16 +207,18 @@ export function ReportForm({ onComplete }: ReportFormProps) {
     }
   };
 
-  const generateReportId = useCallback(() => {
-    const timestamp = Date.now().toString();
-    const randomBytes = crypto.randomBytes(16).toString("hex");
-    const combinedString = `${timestamp}-${randomBytes}`;
-    return crypto
-      .createHash("sha256")
-      .update(combinedString)
-      .digest("hex")
-      .slice(0, 16);
-  }, []);
+  const handlePhotoLocation = (location: {
+    latitude: number;
+    longitude: number;
+  }) => {
+    setCoordinates(location);
+    setFormData((prev) => ({
+      ...prev,
+      location:
+        prev.location ||
+        `${location.latitude.toFixed(5)}, ${location.longitude.toFixed(5)}`,
+    }));
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -99,7 +226,6 @@ export function ReportForm({ onComplete }: ReportFormProps) {
 
     try {
       const reportData = {
-        reportId: generateReportId(),
         type: formData.incidentType,
         specificType: formData.specificType,
         title: formData.title,
@@ -107,8 +233,7 @@ export function ReportForm({ onComplete }: ReportFormProps) {
         location: formData.location,
         latitude: coordinates.latitude,
         longitude: coordinates.longitude,
-        image: image,
-        status: "PENDING",
+        attachmentIds: attachments.attachmentIds,
       };
 
       const response = await fetch("/api/reports/create", {
@@ -124,7 +249,6 @@ export function ReportForm({ onComplete }: ReportFormProps) {
       if (!response.ok) {
         throw new Error(result.error || "Failed to submit report");
       }
-      console.log(result,"resresres")
       onComplete(result);
     } catch (error) {
       console.error("Error submitting report:", error);
@@ -205,83 +329,89 @@ export function ReportForm({ onComplete }: ReportFormProps) {
           </div>
         </button>
       </div>
+      <Suggestion
+        {...suggestionProps("incidentType")}
+        label={
+          suggestions.incidentType?.value === "EMERGENCY"
+            ? "Emergency"
+            : "Non-Emergency"
+        }
+      />
 
-      {/* Image Upload */}
-      <div className="relative group">
-        <input
-          type="file"
-          accept="image/*"
-          onChange={handleImageUpload}
-          className="hidden"
-          id="image-upload"
+      {/* Attachments */}
+      <div className="space-y-4">
+        <AttachmentDropzone
+          onChange={setAttachments}
+          onFilesAdded={handleFilesAdded}
+          shareLocation={sharePhotoLocation}
+          onLocationFound={handlePhotoLocation}
         />
-        <label
-          htmlFor="image-upload"
-          className="block w-full p-8 border-2 border-dashed border-zinc-700 rounded-2xl 
-                   hover:border-sky-500/50 hover:bg-sky-500/5 transition-all duration-200
-                   cursor-pointer text-center"
-        >
-          {image ? (
-            <div className="space-y-4">
-              <div className="w-full h-48 relative rounded-lg overflow-hidden">
-                <img
-                  src={image}
-                  alt="Preview"
-                  className="w-full h-full object-cover"
-                />
-              </div>
-              <p className="text-sm text-zinc-400">Click to change image</p>
-            </div>
-          ) : (
-            <div className="space-y-4">
-              <svg
-                className="mx-auto h-12 w-12 text-zinc-500"
-                fill="none"
-                viewBox="0 0 24 24"
-                stroke="currentColor"
-              >
-                <path
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                  strokeWidth={2}
-                  d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z"
-                />
-              </svg>
-              <p className="text-sm text-zinc-400">
-                Drop an image here or click to upload
-              </p>
-            </div>
-          )}
+        <label className="flex items-start gap-3 text-sm text-zinc-400">
+          <input
+            type="checkbox"
+            checked={sharePhotoLocation}
+            onChange={(e) => setSharePhotoLocation(e.target.checked)}
+            className="mt-0.5 rounded border-zinc-700 bg-zinc-900"
+          />
+          <span>
+            Use my photo&apos;s GPS position as the incident location.
+            Otherwise all photo metadata, including location, is removed before
+            the file is stored. Location is removed from MP4 and MOV videos
+            too, but not from other video or audio files.
+          </span>
         </label>
-        {isAnalyzing && (
-          <div className="absolute inset-0 bg-black/50 rounded-2xl flex items-center justify-center">
-            <div className="flex items-center space-x-3">
-              <svg
-                className="animate-spin h-5 w-5 text-sky-500"
-                xmlns="http://www.w3.org/2000/svg"
-                fill="none"
-                viewBox="0 0 24 24"
-              >
-                <circle
-                  className="opacity-25"
-                  cx="12"
-                  cy="12"
-                  r="10"
-                  stroke="currentColor"
-                  strokeWidth="4"
-                ></circle>
-                <path
-                  className="opacity-75"
-                  fill="currentColor"
-                  d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
-                ></path>
-              </svg>
-              <span className="text-sky-500 font-medium">
-                Analyzing image...
-              </span>
-            </div>
+        {image && (
+          <div className="relative w-full h-48 rounded-2xl overflow-hidden">
+            {/* A data: URL of the local file, which next/image cannot optimize */}
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img
+              src={image}
+              alt="Analyzed attachment"
+              className="w-full h-full object-cover"
+            />
+            {isAnalyzing && (
+              <div className="absolute inset-0 bg-black/50 flex items-center justify-center">
+                <div className="flex items-center space-x-3">
+                  <svg
+                    className="animate-spin h-5 w-5 text-sky-500"
+                    xmlns="http://www.w3.org/2000/svg"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                  >
+                    <circle
+                      className="opacity-25"
+                      cx="12"
+                      cy="12"
+                      r="10"
+                      stroke="currentColor"
+                      strokeWidth="4"
+                    ></circle>
+                    <path
+                      className="opacity-75"
+                      fill="currentColor"
+                      d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+                    ></path>
+                  </svg>
+                  <span className="text-sky-500 font-medium">
+                    Analyzing image...
+                  </span>
+                </div>
+              </div>
+            )}
           </div>
         )}
+        {analysis &&
+          (analysis.hazards.length > 0 || analysis.severity !== "LOW") && (
+            <div className="rounded-xl border border-amber-500/20 bg-amber-500/5 px-4 py-3 text-sm text-amber-200">
+              Estimated severity:{" "}
+              {analysis.severity.toLowerCase()}
+              {analysis.confidence.severity < LOW_CONFIDENCE && " (uncertain)"}
+              {analysis.hazards.length > 0 &&
+                ` · Possible hazards: ${analysis.hazards
+                  .map((hazard) => hazard.toLowerCase().replace(/_/g, " "))
+                  .join(", ")}`}
+            </div>
+          )}
       </div>
 
       {/* Specific Report Type */}
@@ -306,6 +436,7 @@ export function ReportForm({ onComplete }: ReportFormProps) {
             </option>
           ))}
         </select>
+        <Suggestion {...suggestionProps("specificType")} />
       </div>
 
       {/* Location */}
@@ -338,6 +469,7 @@ export function ReportForm({ onComplete }: ReportFormProps) {
                    focus:outline-none focus:ring-2 focus:ring-sky-500/40"
           required
         />
+        <Suggestion {...suggestionProps("title")} />
       </div>
 
       {/* Description */}
@@ -356,12 +488,15 @@ export function ReportForm({ onComplete }: ReportFormProps) {
                    focus:outline-none focus:ring-2 focus:ring-sky-500/40"
           required
         />
+        <Suggestion {...suggestionProps("description")} />
       </div>
 
       {/* Submit Button */}
       <button
         type="submit"
-        disabled={isSubmitting}
+        disabled={
+          isSubmitting || isAnalyzing || attachments.isUploading
+        }
         className="w-full relative group overflow-hidden rounded-xl bg-gradient-to-br from-sky-500 to-blue-600 
                  px-4 py-3.5 text-sm font-medium text-white shadow-lg
                  transition-all duration-200 hover:from-sky-400 hover:to-blue-500
@@ -3,15 +3,17 @@
 interface ReportResult {
   message: string;
   reportId: string;
+  passphrase: string;
   success: boolean;
 }
 
 interface ReportSubmittedProps {
   data?: string;
+  passphrase?: string;
   onComplete: (data: ReportResult) => void;
 }
 
-export function ReportSubmitted({ data }: ReportSubmittedProps) {
+export function ReportSubmitted({ data, passphrase }: ReportSubmittedProps) {
   const reportId = data || "ERROR-ID-NOT-FOUND";
 
   return (
@@ -51,6 +53,20 @@ export function ReportSubmitted({ data }: ReportSubmittedProps) {
         </p>
       </div>
 
+      {passphrase && (
+        <div className="bg-amber-500/10 border border-amber-500/20 rounded-lg p-6 max-w-md mx-auto">
+          <h4 className="text-white font-medium mb-2">Your Access Passphrase</h4>
+          <div className="bg-zinc-900 rounded p-3">
+            <code className="text-amber-400">{passphrase}</code>
+          </div>
+          <p className="mt-2 text-sm text-zinc-400">
+            This is shown only once and cannot be recovered. You need it
+            together with your report ID to view your report details and
+            messages. Anyone with the ID alone can only see its status.
+          </p>
+        </div>
+      )}
+
       <div className="pt-4">
         <button
           onClick={() => (window.location.href = "/")}
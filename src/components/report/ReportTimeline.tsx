@@ -0,0 +1,135 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Loader } from "lucide-react";
+
+interface TimelineEvent {
+  id: string;
+  type:
+    | "CREATED"
+    | "STATUS_CHANGED"
+    | "ASSIGNED"
+    | "EDITED"
+    | "MERGED"
+    | "UNMERGED"
+    | "LINKED"
+    | "UNLINKED"
+    | "ROUTED";
+  field?: string | null;
+  oldValue: string | null;
+  newValue: string | null;
+  note?: string | null;
+  createdAt: string;
+  actor?: { id: number; name: string; email: string } | null;
+}
+
+interface ReportTimelineProps {
+  // Either the public /timeline or the staff-only /history endpoint
+  endpoint: string;
+}
+
+export function ReportTimeline({ endpoint }: ReportTimelineProps) {
+  const [events, setEvents] = useState<TimelineEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const fetchEvents = async () => {
+      setIsLoading(true);
+      try {
+        const response = await fetch(endpoint);
+        if (!response.ok) {
+          throw new Error("Failed to fetch timeline");
+        }
+        setEvents(await response.json());
+        setError("");
+      } catch (err) {
+        console.error("Error fetching timeline:", err);
+        setError("Unable to load the report history.");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchEvents();
+  }, [endpoint]);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader className="w-5 h-5 animate-spin text-zinc-400" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-400">{error}</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-white/10 ml-2 space-y-4">
+      {events.map((event) => (
+        <li key={event.id} className="ml-4">
+          <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-black bg-sky-500" />
+          <p className="text-sm text-white">{describeEvent(event)}</p>
+          <p className="text-xs text-zinc-500">
+            {new Date(event.createdAt).toLocaleString()}
+            {event.actor && ` · ${event.actor.name}`}
+          </p>
+          {event.note && (
+            <p className="mt-1 text-xs text-zinc-400 italic">{event.note}</p>
+          )}
+        </li>
+      ))}
+
+      {events.length === 0 && (
+        <li className="ml-4 text-sm text-zinc-500">No history yet.</li>
+      )}
+    </ol>
+  );
+}
+
+function describeEvent(event: TimelineEvent): string {
+  switch (event.type) {
+    case "CREATED":
+      return "Report submitted";
+    case "STATUS_CHANGED":
+      return `Status changed from ${event.oldValue} to ${event.newValue}`;
+    case "ASSIGNED":
+      return event.newValue
+        ? `Assigned to ${event.newValue}`
+        : "Assignment removed";
+    case "EDITED":
+      return `${event.field} updated`;
+    // Reporters see merges without the other report's tracking code
+    case "MERGED":
+      if (event.field === "mergedReport") {
+        return event.newValue
+          ? `Report ${event.newValue} merged into this incident`
+          : "Another report of this incident was combined with yours";
+      }
+      return event.newValue
+        ? `Merged into incident ${event.newValue}`
+        : "Combined with other reports of the same incident";
+    case "UNMERGED":
+      if (event.field === "mergedReport") {
+        return event.oldValue
+          ? `Report ${event.oldValue} separated from this incident`
+          : "A combined report is being handled separately again";
+      }
+      return event.oldValue
+        ? `Separated from incident ${event.oldValue}`
+        : "Now handled separately from the combined incident";
+    case "LINKED":
+      return `Linked as related to ${event.newValue}`;
+    case "UNLINKED":
+      return `No longer related to ${event.oldValue}`;
+    case "ROUTED":
+      if (!event.newValue) {
+        return `Removed from ${event.oldValue}'s queue`;
+      }
+      return event.oldValue
+        ? `Moved from ${event.oldValue} to ${event.newValue}`
+        : `Routed to ${event.newValue}`;
+  }
+}
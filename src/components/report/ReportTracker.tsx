@@ -2,29 +2,63 @@
 
 import { useState } from "react";
 import { Search, Loader } from "lucide-react";
+import { MessageThread } from "./MessageThread";
+import { ReportTimeline } from "./ReportTimeline";
+import { useReportUpdates } from "./useReportUpdates";
+import { normalizeTrackingId } from "@/lib/tracking-code";
+import { PASSPHRASE_HEADER } from "@/lib/passphrase";
 
-interface ReportDetails {
+interface StreamedMessage {
   id: string;
+  sender: "REPORTER" | "AGENCY";
+  body: string;
+  createdAt: string;
+}
+
+interface ReportDetails {
   reportId: string;
   status: string;
   createdAt: string;
-  title: string;
-  description: string;
-  location: string;
+  // Without the passphrase only the status fields above are returned
+  restricted: boolean;
+  title?: string;
+  description?: string;
+  location?: string;
 }
 
 export function ReportTracker() {
   const [reportId, setReportId] = useState("");
+  const [passphrase, setPassphrase] = useState("");
+  // The passphrase the current details were unlocked with, kept apart from
+  // the input so editing the field does not re-query the thread
+  const [unlockedPassphrase, setUnlockedPassphrase] = useState("");
   const [error, setError] = useState("");
   const [loading, setLoading] = useState(false);
   const [reportDetails, setReportDetails] = useState<ReportDetails | null>(
     null
   );
+  const [incoming, setIncoming] = useState<StreamedMessage[]>([]);
+  // Bumped when the live stream reconnects so the thread catches up on
+  // messages sent while it was down
+  const [threadReloads, setThreadReloads] = useState(0);
+
+  // Keeps the status and messages current while the page stays open
+  const updates = useReportUpdates(
+    reportDetails?.reportId ?? null,
+    unlockedPassphrase,
+    {
+      onStatus: (status) =>
+        setReportDetails((prev) => (prev ? { ...prev, status } : prev)),
+      onMessage: (message) => setIncoming((prev) => [...prev, message]),
+      onReconnect: () => setThreadReloads((count) => count + 1),
+    }
+  );
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError("");
     setReportDetails(null);
+    setIncoming([]);
     setLoading(true);
 
     if (!reportId.trim()) {
@@ -33,13 +67,33 @@ export function ReportTracker() {
       return;
     }
 
+    // Catch typos locally instead of spending a lookup on them
+    const trackingId = normalizeTrackingId(reportId);
+    if (!trackingId) {
+      setError(
+        "That report ID doesn't look right. Please check it for typos and try again."
+      );
+      setLoading(false);
+      return;
+    }
+    setReportId(trackingId);
+
     try {
-      const response = await fetch(`/api/reports/${reportId}/details`);
+      const response = await fetch(`/api/reports/${trackingId}/details`, {
+        headers: passphrase.trim()
+          ? { [PASSPHRASE_HEADER]: passphrase.trim() }
+          : {},
+      });
+      if (response.status === 401) {
+        setError("Incorrect passphrase. Leave it empty to check the status only.");
+        return;
+      }
       if (!response.ok) {
         throw new Error("Report not found");
       }
       const data = await response.json();
       setReportDetails(data);
+      setUnlockedPassphrase(data.restricted ? "" : passphrase.trim());
     } catch (err) {
       console.log(err)
       setError("Unable to find report. Please check the ID and try again.");
@@ -99,7 +153,28 @@ export function ReportTracker() {
                   className="w-full px-4 py-3 bg-black/50 border border-white/5 rounded-xl
                            text-white placeholder-zinc-500 focus:outline-none focus:ring-2 
                            focus:ring-sky-500/50 focus:border-transparent transition-all"
-                  placeholder="Enter your report ID"
+                  placeholder="e.g. HH-7KQ4-M2XP-9"
+                  disabled={loading}
+                />
+              </div>
+
+              <div>
+                <label
+                  htmlFor="passphrase"
+                  className="block text-sm font-medium mb-2 text-zinc-400"
+                >
+                  Passphrase <span className="text-zinc-500">(optional)</span>
+                </label>
+                <input
+                  type="password"
+                  id="passphrase"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  autoComplete="off"
+                  className="w-full px-4 py-3 bg-black/50 border border-white/5 rounded-xl
+                           text-white placeholder-zinc-500 focus:outline-none focus:ring-2 
+                           focus:ring-sky-500/50 focus:border-transparent transition-all"
+                  placeholder="Needed for full details and messages"
                   disabled={loading}
                 />
               </div>
@@ -154,7 +229,18 @@ export function ReportTracker() {
             {reportDetails && (
               <div className="rounded-xl border border-white/5 bg-black/30 backdrop-blur-xl p-6 h-full">
                 <h2 className="text-xl font-semibold text-white flex items-center gap-2 mb-6">
-                  <div className="h-2 w-2 rounded-full bg-sky-400" />
+                  <div
+                    className={`h-2 w-2 rounded-full ${
+                      updates === "live"
+                        ? "bg-emerald-400 animate-pulse"
+                        : "bg-sky-400"
+                    }`}
+                    title={
+                      updates === "live"
+                        ? "Live: updates appear as they happen"
+                        : "Reconnecting for live updates"
+                    }
+                  />
                   Report Details
                 </h2>
 
@@ -174,7 +260,7 @@ export function ReportTracker() {
                   <div className="flex justify-between items-center p-3 rounded-lg bg-white/5">
                     <span className="text-zinc-400">Report ID</span>
                     <span className="text-white font-mono">
-                      {reportDetails.reportId || reportDetails.id}
+                      {reportDetails.reportId}
                     </span>
                   </div>
 
@@ -192,27 +278,57 @@ export function ReportTracker() {
                     </span>
                   </div>
 
-                  <div className="p-3 rounded-lg bg-white/5 space-y-1.5">
-                    <span className="text-zinc-400 text-sm">Title</span>
-                    <span className="text-white block font-medium">
-                      {reportDetails.title}
-                    </span>
-                  </div>
+                  {reportDetails.restricted ? (
+                    <p className="p-3 rounded-lg bg-white/5 text-sm text-zinc-400">
+                      Enter the passphrase you received when submitting to see
+                      the full report and message the agency.
+                    </p>
+                  ) : (
+                    <>
+                      <div className="p-3 rounded-lg bg-white/5 space-y-1.5">
+                        <span className="text-zinc-400 text-sm">Title</span>
+                        <span className="text-white block font-medium">
+                          {reportDetails.title}
+                        </span>
+                      </div>
 
-                  <div className="p-3 rounded-lg bg-white/5 space-y-1.5">
-                    <span className="text-zinc-400 text-sm">Location</span>
-                    <span className="text-white block font-medium">
-                      {reportDetails.location}
-                    </span>
-                  </div>
+                      <div className="p-3 rounded-lg bg-white/5 space-y-1.5">
+                        <span className="text-zinc-400 text-sm">Location</span>
+                        <span className="text-white block font-medium">
+                          {reportDetails.location}
+                        </span>
+                      </div>
 
-                  <div className="p-3 rounded-lg bg-white/5 space-y-1.5">
-                    <span className="text-zinc-400 text-sm">Description</span>
-                    <p className="text-white text-sm leading-relaxed">
-                      {reportDetails.description}
-                    </p>
-                  </div>
+                      <div className="p-3 rounded-lg bg-white/5 space-y-1.5">
+                        <span className="text-zinc-400 text-sm">Description</span>
+                        <p className="text-white text-sm leading-relaxed">
+                          {reportDetails.description}
+                        </p>
+                      </div>
+                    </>
+                  )}
+                </div>
+
+                <div className="mt-6 space-y-3">
+                  <h3 className="text-sm font-medium text-white">Timeline</h3>
+                  {/* Reloads when the status changes so the new entry shows */}
+                  <ReportTimeline
+                    key={reportDetails.status}
+                    endpoint={`/api/reports/${reportDetails.reportId}/timeline`}
+                  />
                 </div>
+
+                {!reportDetails.restricted && (
+                  <div className="mt-6">
+                    <MessageThread
+                      endpoint={`/api/reports/${reportDetails.reportId}/messages`}
+                      viewer="REPORTER"
+                      passphrase={unlockedPassphrase}
+                      incoming={incoming}
+                      reloadKey={threadReloads}
+                    />
+                  </div>
+                )}
               </div>
             )}
           </div>
@@ -7,6 +7,7 @@ import { ReportSubmitted } from "./ReportFormCompleted";
 interface ReportResult {
   message: string;
   reportId: string;
+  passphrase: string;
   success: boolean;
 }
 
@@ -23,13 +24,16 @@ export function ReportWizard() {
 
     setCurrentStep((prev) => prev + 1);
   };
-  console.log(reportData,"ttttttttttttttt")
 
   return (
     <div className="rounded-2xl bg-zinc-900 p-8">
       {currentStep === 1 && <ReportForm onComplete={handleStepComplete} />}
       {currentStep === 2 && (
-        <ReportSubmitted data={reportData?.reportId} onComplete={handleStepComplete} />
+        <ReportSubmitted
+          data={reportData?.reportId}
+          passphrase={reportData?.passphrase}
+          onComplete={handleStepComplete}
+        />
       )}
     </div>
   );
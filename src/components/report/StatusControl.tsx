@@ -0,0 +1,139 @@
+"use client";
+
+import { useState } from "react";
+
+export interface WorkflowState {
+  name: string;
+  label: string;
+  open: boolean;
+  requiresReason?: boolean;
+  requiresAssignee?: boolean;
+  next: string[];
+}
+
+interface StatusControlProps {
+  status: string;
+  states: WorkflowState[];
+  hasAssignee: boolean;
+  disabled?: boolean;
+  // Resolves to an error message when the server refuses the change
+  onChange: (status: string, reason: string | null) => Promise<string | null>;
+}
+
+const inputClass =
+  "bg-neutral-900 border border-neutral-800 text-neutral-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500/20 disabled:opacity-50";
+
+// Offers only the transitions the workflow allows from the current status and
+// asks for a reason where the workflow needs one
+export function StatusControl({
+  status,
+  states,
+  hasAssignee,
+  disabled = false,
+  onChange,
+}: StatusControlProps) {
+  const [pending, setPending] = useState<WorkflowState | null>(null);
+  const [reason, setReason] = useState("");
+  const [error, setError] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const current = states.find((state) => state.name === status);
+  const targets = current
+    ? states.filter((state) => current.next.includes(state.name))
+    : states.filter((state) => state.name !== status);
+
+  const needsReason = (target: WorkflowState) =>
+    Boolean(target.requiresReason || (current && !current.open));
+
+  const submit = async (target: WorkflowState, text: string | null) => {
+    setIsSaving(true);
+    setError("");
+    try {
+      const failure = await onChange(target.name, text);
+      if (failure) {
+        setError(failure);
+      } else {
+        setPending(null);
+        setReason("");
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const choose = (name: string) => {
+    const target = states.find((state) => state.name === name);
+    if (!target) return;
+    setError("");
+    if (needsReason(target)) {
+      setPending(target);
+    } else {
+      submit(target, null);
+    }
+  };
+
+  return (
+    <div className="space-y-2 w-56">
+      <select
+        value={pending?.name ?? status}
+        disabled={disabled || isSaving}
+        onChange={(e) => choose(e.target.value)}
+        className={`${inputClass} w-full`}
+      >
+        <option value={status}>{current?.label ?? status}</option>
+        {targets.map((state) => (
+          <option
+            key={state.name}
+            value={state.name}
+            disabled={state.requiresAssignee && !hasAssignee}
+          >
+            {state.label}
+            {state.requiresAssignee && !hasAssignee ? " (assign first)" : ""}
+          </option>
+        ))}
+      </select>
+
+      {pending && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            submit(pending, reason.trim());
+          }}
+          className="space-y-2"
+        >
+          <textarea
+            required
+            autoFocus
+            rows={2}
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder={`Why is this report ${pending.label.toLowerCase()}?`}
+            className={`${inputClass} w-full`}
+          />
+          <div className="flex gap-3 text-sm">
+            <button
+              type="submit"
+              disabled={isSaving || !reason.trim()}
+              className="text-blue-500 hover:text-blue-400 disabled:opacity-50"
+            >
+              Confirm
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setPending(null);
+                setReason("");
+                setError("");
+              }}
+              className="text-neutral-500 hover:text-neutral-300"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
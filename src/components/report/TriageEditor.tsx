@@ -0,0 +1,155 @@
+"use client";
+
+import { useState } from "react";
+import { Severity } from "@prisma/client";
+
+interface TriageValues {
+  priorityScore: number | null;
+  severity: Severity | null;
+  department: string | null;
+  hazards: string[];
+  possibleDuplicateOfId: string | null;
+}
+
+interface TriageEditorProps {
+  report: TriageValues;
+  // The report this one may duplicate, when it is in the current list
+  duplicateOf?: { reportId: string; title: string };
+  canEdit: boolean;
+  // Resolves to an error message when the server refuses the change
+  onSave: (changes: Partial<TriageValues>) => Promise<string | null>;
+}
+
+const inputClass =
+  "bg-neutral-900 border border-neutral-800 text-neutral-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500/20 focus:border-blue-500/20 disabled:opacity-50";
+
+export function TriageEditor({
+  report,
+  duplicateOf,
+  canEdit,
+  onSave,
+}: TriageEditorProps) {
+  const [draft, setDraft] = useState({
+    priorityScore: report.priorityScore?.toString() ?? "",
+    severity: report.severity ?? "",
+    department: report.department ?? "",
+  });
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  const save = async (changes: Partial<TriageValues>) => {
+    setIsSaving(true);
+    setError("");
+    try {
+      setError((await onSave(changes)) ?? "");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    save({
+      priorityScore:
+        draft.priorityScore === "" ? null : Number(draft.priorityScore),
+      severity: (draft.severity || null) as Severity | null,
+      department: draft.department.trim() || null,
+    });
+  };
+
+  return (
+    <div className="rounded-xl border border-neutral-800 bg-black/30 p-4 space-y-4">
+      {report.hazards.length > 0 && (
+        <p className="text-sm text-neutral-400">
+          Hazards seen in photos:{" "}
+          {report.hazards
+            .map((hazard) => hazard.toLowerCase().replace(/_/g, " "))
+            .join(", ")}
+        </p>
+      )}
+
+      {report.possibleDuplicateOfId && (
+        <div className="flex items-center justify-between gap-4 text-sm">
+          <span className="text-amber-400">
+            Possible duplicate of{" "}
+            {duplicateOf
+              ? `${duplicateOf.title} (${duplicateOf.reportId})`
+              : "an earlier report"}
+          </span>
+          {canEdit && (
+            <button
+              type="button"
+              onClick={() => save({ possibleDuplicateOfId: null })}
+              disabled={isSaving}
+              className="text-blue-500 hover:text-blue-400 disabled:opacity-50"
+            >
+              Not a duplicate
+            </button>
+          )}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="flex flex-wrap items-end gap-3">
+        <label className="space-y-1 text-xs text-neutral-500">
+          <span className="block">Severity</span>
+          <select
+            value={draft.severity}
+            disabled={!canEdit}
+            onChange={(e) =>
+              setDraft((prev) => ({
+                ...prev,
+                severity: e.target.value as Severity,
+              }))
+            }
+            className={inputClass}
+          >
+            <option value="">Not set</option>
+            {Object.values(Severity).map((severity) => (
+              <option key={severity} value={severity}>
+                {severity}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-1 text-xs text-neutral-500">
+          <span className="block">Priority (0-100)</span>
+          <input
+            type="number"
+            min={0}
+            max={100}
+            step={1}
+            value={draft.priorityScore}
+            disabled={!canEdit}
+            onChange={(e) =>
+              setDraft((prev) => ({ ...prev, priorityScore: e.target.value }))
+            }
+            className={`${inputClass} w-28`}
+          />
+        </label>
+        <label className="space-y-1 text-xs text-neutral-500 flex-1 min-w-[12rem]">
+          <span className="block">Department</span>
+          <input
+            type="text"
+            value={draft.department}
+            disabled={!canEdit}
+            onChange={(e) =>
+              setDraft((prev) => ({ ...prev, department: e.target.value }))
+            }
+            className={`${inputClass} w-full`}
+          />
+        </label>
+        {canEdit && (
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="px-3 py-2 text-sm font-medium text-neutral-300 bg-neutral-900 rounded-lg hover:bg-neutral-800 border border-neutral-800 transition-all hover:border-neutral-700 disabled:opacity-50"
+          >
+            Save triage
+          </button>
+        )}
+      </form>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+"use client";
+
+interface WorkloadEntry {
+  id: number;
+  name: string;
+  email: string;
+  open: number;
+  byStatus: Record<string, number>;
+}
+
+interface WorkloadSummaryProps {
+  workload: WorkloadEntry[];
+  // Display names of the workflow's statuses
+  labels: Record<string, string>;
+  // Shows the reports of the chosen officer
+  onSelect?: (userId: number) => void;
+}
+
+export function WorkloadSummary({
+  workload,
+  labels,
+  onSelect,
+}: WorkloadSummaryProps) {
+  if (workload.length === 0) {
+    return (
+      <p className="text-sm text-neutral-500">No staff in this queue yet.</p>
+    );
+  }
+
+  const busiest = Math.max(...workload.map((entry) => entry.open), 1);
+  // Every entry counts the same open statuses
+  const statuses = Object.keys(workload[0].byStatus);
+
+  return (
+    <div className="rounded-xl border border-neutral-800 bg-neutral-900/50 overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead className="text-left text-neutral-500 border-b border-neutral-800">
+          <tr>
+            <th className="px-6 py-3 font-medium">Officer</th>
+            {statuses.map((status) => (
+              <th key={status} className="px-6 py-3 font-medium">
+                {labels[status] ?? status}
+              </th>
+            ))}
+            <th className="px-6 py-3 font-medium w-1/3">Open</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-neutral-800">
+          {workload.map((entry) => (
+            <tr key={entry.id}>
+              <td className="px-6 py-3">
+                <button
+                  onClick={() => onSelect?.(entry.id)}
+                  className="text-neutral-200 hover:text-blue-400"
+                >
+                  {entry.name}
+                </button>
+              </td>
+              {statuses.map((status) => (
+                <td key={status} className="px-6 py-3 text-neutral-400">
+                  {entry.byStatus[status]}
+                </td>
+              ))}
+              <td className="px-6 py-3">
+                <div className="flex items-center gap-3">
+                  <div className="flex-1 h-1.5 rounded-full bg-neutral-800 overflow-hidden">
+                    <div
+                      className="h-full bg-blue-500"
+                      style={{ width: `${(entry.open / busiest) * 100}%` }}
+                    />
+                  </div>
+                  <span className="text-neutral-300 w-6 text-right">
+                    {entry.open}
+                  </span>
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { PASSPHRASE_HEADER } from "@/lib/passphrase";
+
+// Follows /api/reports/<id>/updates. EventSource cannot send the passphrase
+// header, so the stream is read with fetch and reconnected here, backing off
+// while the server is unreachable.
+
+export type UpdatesState = "connecting" | "live" | "offline";
+
+interface StreamMessage {
+  id: string;
+  sender: "REPORTER" | "AGENCY";
+  body: string;
+  createdAt: string;
+}
+
+interface ReportUpdatesHandlers {
+  onStatus: (status: string) => void;
+  onMessage?: (message: StreamMessage) => void;
+  // Called when the stream comes back after dropping. Status is sent again
+  // on every connect, but messages sent in the meantime are not.
+  onReconnect?: () => void;
+}
+
+const MIN_RETRY_MS = 1000;
+const MAX_RETRY_MS = 30000;
+
+// Calls `onEvent` for each complete event in an SSE chunk and returns the
+// unfinished remainder
+function parseEvents(
+  buffer: string,
+  onEvent: (event: string, data: string) => void
+) {
+  const blocks = buffer.split("\n\n");
+  const rest = blocks.pop() ?? "";
+  for (const block of blocks) {
+    let event = "message";
+    const data: string[] = [];
+    for (const line of block.split("\n")) {
+      if (line.startsWith("event:")) event = line.slice(6).trim();
+      else if (line.startsWith("data:")) data.push(line.slice(5).trim());
+    }
+    if (data.length > 0) onEvent(event, data.join("\n"));
+  }
+  return rest;
+}
+
+export function useReportUpdates(
+  reportId: string | null,
+  passphrase: string,
+  handlers: ReportUpdatesHandlers
+): UpdatesState {
+  const [state, setState] = useState<UpdatesState>("connecting");
+  // Handlers change every render; the connection only follows the report
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!reportId) return;
+
+    const controller = new AbortController();
+    let retryMs = MIN_RETRY_MS;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let hasConnected = false;
+
+    const retry = (delayMs: number) => {
+      setState("offline");
+      retryTimer = setTimeout(connect, delayMs);
+      retryMs = Math.min(retryMs * 2, MAX_RETRY_MS);
+    };
+
+    const connect = async () => {
+      setState("connecting");
+      try {
+        const response = await fetch(`/api/reports/${reportId}/updates`, {
+          headers: passphrase ? { [PASSPHRASE_HEADER]: passphrase } : {},
+          signal: controller.signal,
+        });
+        // A missing report or wrong passphrase will not fix itself
+        if (response.status === 404 || response.status === 401) {
+          setState("offline");
+          return;
+        }
+        if (response.status === 429) {
+          const retryAfter = Number(response.headers.get("Retry-After"));
+          retry(retryAfter > 0 ? retryAfter * 1000 : retryMs);
+          return;
+        }
+        if (!response.ok || !response.body) {
+          throw new Error("Failed to open report updates");
+        }
+
+        setState("live");
+        retryMs = MIN_RETRY_MS;
+        if (hasConnected) handlersRef.current.onReconnect?.();
+        hasConnected = true;
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = "";
+        for (;;) {
+          const { value, done } = await reader.read();
+          if (done) break;
+          buffer = parseEvents(
+            buffer + decoder.decode(value, { stream: true }),
+            (event, data) => {
+              const payload = JSON.parse(data);
+              if (event === "status") {
+                handlersRef.current.onStatus(payload.status);
+              } else if (event === "message") {
+                handlersRef.current.onMessage?.(payload);
+              }
+            }
+          );
+        }
+        // The server recycles streams now and then; pick up where it left off
+        retry(MIN_RETRY_MS);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error("Report updates interrupted:", err);
+        retry(retryMs);
+      }
+    };
+
+    connect();
+    return () => {
+      controller.abort();
+      clearTimeout(retryTimer);
+    };
+  }, [reportId, passphrase]);
+
+  return state;
+}
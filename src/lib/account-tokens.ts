@@ -0,0 +1,62 @@
+import crypto from "crypto";
+import { AccountTokenType, Prisma, Role } from "@prisma/client";
+import prisma from "./prisma";
+
+const TOKEN_TTL_MS: Record<AccountTokenType, number> = {
+  INVITATION: 7 * 24 * 60 * 60 * 1000,
+  PASSWORD_RESET: 60 * 60 * 1000,
+};
+
+function hashToken(token: string) {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+interface IssueTokenInput {
+  type: AccountTokenType;
+  email: string;
+  role?: Role;
+  userId?: number;
+  createdById: number;
+}
+
+// Creates a token and returns the raw value. It is never stored, so the
+// caller has to hand it to the recipient straight away.
+export async function issueAccountToken(input: IssueTokenInput) {
+  const token = crypto.randomBytes(32).toString("base64url");
+
+  const record = await prisma.accountToken.create({
+    data: {
+      type: input.type,
+      tokenHash: hashToken(token),
+      email: input.email,
+      role: input.role ?? null,
+      userId: input.userId ?? null,
+      createdById: input.createdById,
+      expiresAt: new Date(Date.now() + TOKEN_TTL_MS[input.type]),
+    },
+  });
+
+  return { token, record };
+}
+
+// Looks up a token that has not been used, revoked or expired.
+export function findUsableToken(token: string, type: AccountTokenType) {
+  return prisma.accountToken.findFirst({
+    where: {
+      tokenHash: hashToken(token),
+      type,
+      usedAt: null,
+      expiresAt: { gt: new Date() },
+    },
+  });
+}
+
+// Marks the token as used inside the caller's transaction. Returns false when
+// another request consumed it first, which the caller must treat as invalid.
+export async function consumeToken(tx: Prisma.TransactionClient, id: string) {
+  const { count } = await tx.accountToken.updateMany({
+    where: { id, usedAt: null, expiresAt: { gt: new Date() } },
+    data: { usedAt: new Date() },
+  });
+  return count === 1;
+}
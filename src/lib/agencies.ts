@@ -0,0 +1,320 @@
+import { Prisma } from "@prisma/client";
+import prisma from "./prisma";
+import type { Actor } from "./authorize";
+import { Permission, hasPermission } from "./permissions";
+import { recordReportEvent } from "./report-events";
+import { isReportTypeName } from "./report-types";
+import { Coordinates, isInPolygon, polygonBounds } from "./geo";
+import {
+  ReleasedAssignment,
+  releaseUnworkableAssignments,
+} from "./assignments";
+
+// Each agency answers for a jurisdiction: a boundary polygon and the incident
+// types it handles there. New reports are routed to the agency that covers
+// their location and type, and staff who belong to an agency only see that
+// agency's queue. Admins can move a report to another queue at any time;
+// every routing decision is kept in the report history.
+
+type AgencyFailure = { ok: false; error: string; status: 400 | 404 | 409 };
+type AgencyResult<T> = { ok: true; value: T } | AgencyFailure;
+
+export interface AgencyInput {
+  name: string;
+  boundary: Coordinates[];
+  incidentTypes?: string[];
+  active?: boolean;
+}
+
+interface RoutingInput {
+  id: string;
+  reportType: string;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+interface ReassignContext {
+  actorId: number | null;
+  note?: string | null;
+}
+
+const MAX_BOUNDARY_POINTS = 500;
+
+export const agencySelect = {
+  id: true,
+  name: true,
+  boundary: true,
+  incidentTypes: true,
+  active: true,
+  createdAt: true,
+  updatedAt: true,
+  _count: { select: { reports: true, staff: true } },
+} satisfies Prisma.AgencySelect;
+
+function failure(
+  error: string,
+  status: 400 | 404 | 409 = 400
+): AgencyFailure {
+  return { ok: false, error, status };
+}
+
+function isCoordinates(value: unknown): value is Coordinates {
+  if (typeof value !== "object" || value === null) return false;
+  const { latitude, longitude } = value as Record<string, unknown>;
+  return (
+    typeof latitude === "number" &&
+    typeof longitude === "number" &&
+    latitude >= -90 &&
+    latitude <= 90 &&
+    longitude >= -180 &&
+    longitude <= 180
+  );
+}
+
+// Validates the fields of a create (every field required) or update request
+export function parseAgencyInput(
+  body: Record<string, unknown>,
+  { partial }: { partial: boolean }
+): AgencyResult<Partial<AgencyInput>> {
+  const input: Partial<AgencyInput> = {};
+
+  if (body.name !== undefined || !partial) {
+    if (typeof body.name !== "string" || !body.name.trim()) {
+      return failure("Name is required");
+    }
+    input.name = body.name.trim();
+  }
+
+  if (body.boundary !== undefined || !partial) {
+    const boundary = body.boundary;
+    if (
+      !Array.isArray(boundary) ||
+      boundary.length < 3 ||
+      boundary.length > MAX_BOUNDARY_POINTS ||
+      !boundary.every(isCoordinates)
+    ) {
+      return failure(
+        `Boundary must be 3-${MAX_BOUNDARY_POINTS} points with a latitude and longitude`
+      );
+    }
+    input.boundary = boundary.map(({ latitude, longitude }) => ({
+      latitude,
+      longitude,
+    }));
+  }
+
+  if (body.incidentTypes !== undefined) {
+    const types = body.incidentTypes;
+    if (!Array.isArray(types) || !types.every(isReportTypeName)) {
+      return failure("Unknown incident type");
+    }
+    input.incidentTypes = Array.from(new Set(types));
+  }
+
+  if (body.active !== undefined) {
+    if (typeof body.active !== "boolean") {
+      return failure("active must be a boolean");
+    }
+    input.active = body.active;
+  }
+
+  return { ok: true, value: input };
+}
+
+// Column values for an agency, with the bounds derived from its boundary
+export function agencyData(input: AgencyInput): Prisma.AgencyCreateInput;
+export function agencyData(
+  input: Partial<AgencyInput>
+): Prisma.AgencyUpdateInput;
+export function agencyData(
+  input: Partial<AgencyInput>
+): Prisma.AgencyUpdateInput {
+  const { boundary, ...rest } = input;
+  return {
+    ...rest,
+    ...(boundary && {
+      boundary: boundary.map(({ latitude, longitude }) => ({
+        latitude,
+        longitude,
+      })),
+      ...polygonBounds(boundary),
+    }),
+  };
+}
+
+// The reports an actor may see: every report with VIEW_ALL_REPORTS, otherwise
+// only their agency's queue, or the unrouted queue for staff without one
+export function reportScope(actor: Actor): Prisma.ReportWhereInput {
+  if (hasPermission(actor.role, Permission.VIEW_ALL_REPORTS)) {
+    return {};
+  }
+  return { agencyId: actor.agencyId };
+}
+
+export async function isReportVisible(actor: Actor, reportId: string) {
+  if (hasPermission(actor.role, Permission.VIEW_ALL_REPORTS)) {
+    return true;
+  }
+  const count = await prisma.report.count({
+    where: { reportId, ...reportScope(actor) },
+  });
+  return count > 0;
+}
+
+// The active agency responsible for a location and incident type. An agency
+// that names the type wins over one covering every type, and a smaller
+// jurisdiction wins over a larger one around it.
+export async function findAgencyFor(report: Omit<RoutingInput, "id">) {
+  if (report.latitude === null || report.longitude === null) {
+    return null;
+  }
+  const point = { latitude: report.latitude, longitude: report.longitude };
+
+  const agencies = await prisma.agency.findMany({
+    where: {
+      active: true,
+      minLatitude: { lte: point.latitude },
+      maxLatitude: { gte: point.latitude },
+      minLongitude: { lte: point.longitude },
+      maxLongitude: { gte: point.longitude },
+      OR: [
+        { incidentTypes: { isEmpty: true } },
+        { incidentTypes: { has: report.reportType } },
+      ],
+    },
+    select: {
+      id: true,
+      name: true,
+      boundary: true,
+      incidentTypes: true,
+      minLatitude: true,
+      maxLatitude: true,
+      minLongitude: true,
+      maxLongitude: true,
+    },
+  });
+
+  const area = (agency: (typeof agencies)[number]) =>
+    (agency.maxLatitude - agency.minLatitude) *
+    (agency.maxLongitude - agency.minLongitude);
+
+  const [best] = agencies
+    .filter((agency) =>
+      isInPolygon(point, agency.boundary as unknown as Coordinates[])
+    )
+    .sort(
+      (a, b) =>
+        Number(b.incidentTypes.length > 0) -
+          Number(a.incidentTypes.length > 0) || area(a) - area(b)
+    );
+  return best ? { id: best.id, name: best.name } : null;
+}
+
+// Routes a newly stored report. Like triage it never throws; a report that
+// cannot be routed stays in the unrouted queue.
+export async function routeReport(report: RoutingInput) {
+  try {
+    const agency = await findAgencyFor(report);
+    if (!agency) {
+      return null;
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.report.update({
+        where: { id: report.id },
+        data: { agencyId: agency.id, routedAt: new Date() },
+      });
+      await recordReportEvent(tx, {
+        reportId: report.id,
+        type: "ROUTED",
+        field: "agency",
+        newValue: agency.name,
+        note: "Routed from the report's location and incident type",
+      });
+    });
+    return agency;
+  } catch (error) {
+    console.error("Error routing report:", error);
+    return null;
+  }
+}
+
+// Moves a report to another agency's queue, or back to the unrouted queue
+// when agencyId is null. An assignee who cannot see the new queue is released.
+export async function reassignReport(
+  reportId: string,
+  agencyId: string | null,
+  { actorId, note }: ReassignContext
+): Promise<
+  AgencyResult<{
+    agency: { id: string; name: string } | null;
+    released: ReleasedAssignment[];
+  }>
+> {
+  return prisma.$transaction(async (tx) => {
+    const report = await tx.report.findUnique({
+      where: { reportId },
+      select: { id: true, agency: { select: { id: true, name: true } } },
+    });
+    if (!report) {
+      return failure("Report not found", 404);
+    }
+
+    const agency = agencyId
+      ? await tx.agency.findUnique({
+          where: { id: agencyId },
+          select: { id: true, name: true },
+        })
+      : null;
+    if (agencyId && !agency) {
+      return failure("Agency not found");
+    }
+    if ((report.agency?.id ?? null) === (agency?.id ?? null)) {
+      return { ok: true, value: { agency, released: [] } };
+    }
+
+    await tx.report.update({
+      where: { id: report.id },
+      data: { agencyId: agency?.id ?? null, routedAt: new Date() },
+    });
+    await recordReportEvent(tx, {
+      reportId: report.id,
+      type: "ROUTED",
+      field: "agency",
+      oldValue: report.agency?.name ?? null,
+      newValue: agency?.name ?? null,
+      note,
+      actorId,
+    });
+    const released = await releaseUnworkableAssignments(
+      tx,
+      { id: report.id },
+      { actorId, note: "Moved out of the assignee's queue" }
+    );
+
+    return { ok: true, value: { agency, released } };
+  });
+}
+
+// Agencies still holding reports are deactivated instead, so no report
+// silently drops out of a queue
+export async function deleteAgency(
+  agencyId: string
+): Promise<AgencyResult<null>> {
+  const agency = await prisma.agency.findUnique({
+    where: { id: agencyId },
+    select: { _count: { select: { reports: true } } },
+  });
+  if (!agency) {
+    return failure("Agency not found", 404);
+  }
+  if (agency._count.reports > 0) {
+    return failure(
+      "Agency still has reports; reassign them or deactivate the agency",
+      409
+    );
+  }
+
+  await prisma.agency.delete({ where: { id: agencyId } });
+  return { ok: true, value: null };
+}
@@ -0,0 +1,307 @@
+import { Prisma, Role } from "@prisma/client";
+import prisma from "./prisma";
+import type { Actor } from "./authorize";
+import { Permission, hasPermission } from "./permissions";
+import { recordReportEvent } from "./report-events";
+import { getState, getWorkflow, openStatuses } from "./workflow";
+
+// A report is worked by at most one staff member, its assignee. Staff claim
+// unassigned reports for themselves; supervisors with ASSIGN_REPORTS can hand
+// a report to anyone who can see it. Assignments show up in the history with
+// the assignee's name.
+
+type AssignmentFailure = { ok: false; error: string; status: 400 | 404 | 409 };
+type AssignmentResult<T> = { ok: true; value: T } | AssignmentFailure;
+
+export const assigneeSelect = {
+  id: true,
+  name: true,
+  email: true,
+} satisfies Prisma.UserSelect;
+
+type Assignee = Prisma.UserGetPayload<{ select: typeof assigneeSelect }>;
+
+function failure(
+  error: string,
+  status: 400 | 404 | 409 = 400
+): AssignmentFailure {
+  return { ok: false, error, status };
+}
+
+export const STAFF_ROLES = Object.values(Role).filter((role) =>
+  hasPermission(role, Permission.VIEW_REPORTS)
+);
+
+// Active staff an actor can see and assign to: everyone for those who see
+// every queue, otherwise colleagues in the same agency
+export function staffScope(actor: Actor): Prisma.UserWhereInput {
+  return {
+    active: true,
+    role: { in: STAFF_ROLES },
+    ...(!hasPermission(actor.role, Permission.VIEW_ALL_REPORTS) && {
+      agencyId: actor.agencyId,
+    }),
+  };
+}
+
+// Staff assigned to a report must be able to see it: either they see every
+// queue or they belong to the report's agency
+export function canWorkOn(
+  user: { role: Role; agencyId: string | null },
+  report: { agencyId: string | null }
+) {
+  return (
+    hasPermission(user.role, Permission.VIEW_ALL_REPORTS) ||
+    user.agencyId === report.agencyId
+  );
+}
+
+// Assigns the report to userId, or unassigns it when userId is null. With
+// onlyIfUnassigned the assignment fails if somebody else already has it, which
+// is how claims avoid taking over a colleague's case. `changed` is false when
+// the report already had that assignee, so callers announce nothing. A report in a state
+// that needs an assignee cannot be left without one; it has to be moved out
+// of that state first.
+export async function assignReport(
+  reportId: string,
+  userId: number | null,
+  {
+    actorId,
+    onlyIfUnassigned = false,
+  }: { actorId: number | null; onlyIfUnassigned?: boolean }
+): Promise<AssignmentResult<{ assignee: Assignee | null; changed: boolean }>> {
+  return prisma.$transaction(async (tx) => {
+    const report = await tx.report.findUnique({
+      where: { reportId },
+      select: {
+        id: true,
+        agencyId: true,
+        status: true,
+        assignee: { select: assigneeSelect },
+      },
+    });
+    if (!report) {
+      return failure("Report not found", 404);
+    }
+
+    const assignee = userId
+      ? await tx.user.findFirst({
+          where: { id: userId, active: true, role: { in: STAFF_ROLES } },
+          select: { ...assigneeSelect, role: true, agencyId: true },
+        })
+      : null;
+    if (userId && !assignee) {
+      return failure("Assignee must be an active staff member");
+    }
+    if (assignee && !canWorkOn(assignee, report)) {
+      return failure("Assignee cannot see this report's queue");
+    }
+
+    const current = report.assignee;
+    if ((current?.id ?? null) === (assignee?.id ?? null)) {
+      return { ok: true, value: { assignee: current, changed: false } };
+    }
+    if (onlyIfUnassigned && current) {
+      return failure(`Already assigned to ${current.name}`, 409);
+    }
+    const state = getState(report.status);
+    if (!assignee && state?.requiresAssignee) {
+      return failure(
+        `A ${state.label.toLowerCase()} report needs an assignee; change its status before releasing it`,
+        409
+      );
+    }
+
+    await tx.report.update({
+      where: { id: report.id },
+      data: {
+        assigneeId: assignee?.id ?? null,
+        assignedAt: assignee ? new Date() : null,
+      },
+    });
+    await recordReportEvent(tx, {
+      reportId: report.id,
+      type: "ASSIGNED",
+      field: "assignee",
+      oldValue: current?.name ?? null,
+      newValue: assignee?.name ?? null,
+      actorId,
+    });
+
+    const value = assignee
+      ? { id: assignee.id, name: assignee.name, email: assignee.email }
+      : null;
+    return { ok: true, value: { assignee: value, changed: true } };
+  });
+}
+
+// A report released because its assignee can no longer work on it, or merged
+// into one that was, and the status it had if that had to change as well
+export interface ReleasedAssignment {
+  reportId: string;
+  // False for merged reports, whose status followed their incident's
+  unassigned: boolean;
+  previousStatus: string | null;
+}
+
+// Unassigns the matching reports whose assignee can no longer work on them:
+// the report moved to another agency, or the assignee was deactivated,
+// demoted or moved. A report left in a state that needs an assignee goes back
+// to the workflow's initial state, along with the reports merged into it.
+export async function releaseUnworkableAssignments(
+  tx: Prisma.TransactionClient,
+  where: Prisma.ReportWhereInput,
+  { actorId, note }: { actorId: number | null; note: string }
+): Promise<ReleasedAssignment[]> {
+  const reports = await tx.report.findMany({
+    where: { ...where, assigneeId: { not: null } },
+    select: {
+      id: true,
+      reportId: true,
+      status: true,
+      agencyId: true,
+      assignee: {
+        select: { name: true, role: true, agencyId: true, active: true },
+      },
+    },
+  });
+
+  const released: ReleasedAssignment[] = [];
+  for (const report of reports) {
+    const assignee = report.assignee;
+    if (
+      !assignee ||
+      (assignee.active &&
+        STAFF_ROLES.includes(assignee.role) &&
+        canWorkOn(assignee, report))
+    ) {
+      continue;
+    }
+
+    const initial = getWorkflow().initial;
+    const resetStatus = getState(report.status)?.requiresAssignee
+      ? initial
+      : null;
+
+    await tx.report.update({
+      where: { id: report.id },
+      data: {
+        assigneeId: null,
+        assignedAt: null,
+        ...(resetStatus && { status: resetStatus }),
+      },
+    });
+    await recordReportEvent(tx, {
+      reportId: report.id,
+      type: "ASSIGNED",
+      field: "assignee",
+      oldValue: assignee.name,
+      newValue: null,
+      note,
+      actorId,
+    });
+
+    if (resetStatus) {
+      const merged = await tx.report.findMany({
+        where: { parentId: report.id, status: { not: resetStatus } },
+        select: { id: true, reportId: true, status: true },
+      });
+      await tx.report.updateMany({
+        where: { id: { in: merged.map(({ id }) => id) } },
+        data: { status: resetStatus },
+      });
+      released.push(
+        ...merged.map((child) => ({
+          reportId: child.reportId,
+          unassigned: false,
+          previousStatus: child.status,
+        }))
+      );
+      for (const changed of [report, ...merged]) {
+        await recordReportEvent(tx, {
+          reportId: changed.id,
+          type: "STATUS_CHANGED",
+          field: "status",
+          oldValue: changed.status,
+          newValue: resetStatus,
+          note:
+            changed.id === report.id
+              ? "Back in the queue after its assignee was released"
+              : "Updated with the incident it was merged into",
+          actorId,
+        });
+      }
+    }
+
+    released.push({
+      reportId: report.reportId,
+      unassigned: true,
+      previousStatus: resetStatus ? report.status : null,
+    });
+  }
+  return released;
+}
+
+// Drops the actor's own assignment. Supervisors may unassign anyone.
+export async function unclaimReport(
+  reportId: string,
+  actor: Actor
+): Promise<AssignmentResult<{ assignee: null; changed: boolean }>> {
+  const report = await prisma.report.findUnique({
+    where: { reportId },
+    select: { assigneeId: true },
+  });
+  if (!report) {
+    return failure("Report not found", 404);
+  }
+  if (
+    report.assigneeId !== actor.id &&
+    !hasPermission(actor.role, Permission.ASSIGN_REPORTS)
+  ) {
+    return failure("Only the assignee can release this report", 409);
+  }
+
+  const result = await assignReport(reportId, null, { actorId: actor.id });
+  return result.ok
+    ? { ok: true, value: { assignee: null, changed: result.value.changed } }
+    : result;
+}
+
+// Open reports per staff member the actor can see, busiest first. Open
+// statuses are the ones the workflow marks as still needing attention.
+export async function getWorkload(actor: Actor) {
+  const statuses = openStatuses();
+  const staff = await prisma.user.findMany({
+    where: staffScope(actor),
+    select: assigneeSelect,
+    orderBy: { name: "asc" },
+  });
+
+  const counts = await prisma.report.groupBy({
+    by: ["assigneeId", "status"],
+    where: {
+      assigneeId: { in: staff.map(({ id }) => id) },
+      status: { in: statuses },
+      // Merged reports are worked through their parent incident
+      parentId: null,
+    },
+    _count: { _all: true },
+  });
+
+  const countFor = (userId: number, status: string) =>
+    counts.find((row) => row.assigneeId === userId && row.status === status)
+      ?._count._all ?? 0;
+
+  return staff
+    .map((user) => {
+      const byStatus = Object.fromEntries(
+        statuses.map((status) => [status, countFor(user.id, status)])
+      ) as Record<string, number>;
+      return {
+        ...user,
+        open: statuses.reduce((sum, status) => sum + byStatus[status], 0),
+        byStatus,
+      };
+    })
+    .sort((a, b) => b.open - a.open);
+}
@@ -0,0 +1,87 @@
+import { Prisma } from "@prisma/client";
+import prisma from "./prisma";
+import { getStorage } from "./storage";
+import { MEDIA_TYPES, MediaType } from "./media";
+
+export interface AttachmentLimits {
+  maxBytes: number;
+  maxFiles: number;
+  // MIME types or wildcards such as "image/*"
+  allowedTypes: string[];
+}
+
+const DEFAULT_MAX_BYTES = 25 * 1024 * 1024;
+const DEFAULT_MAX_FILES = 10;
+const DEFAULT_UNCLAIMED_TTL_HOURS = 24;
+
+// Limits are set per deployment through the environment, so each agency
+// running an instance can tighten or relax them:
+//
+//   ATTACHMENT_MAX_BYTES=52428800
+//   ATTACHMENT_MAX_FILES=5
+//   ATTACHMENT_ALLOWED_TYPES=image/*,application/pdf
+export function getAttachmentLimits(): AttachmentLimits {
+  const allowed = process.env.ATTACHMENT_ALLOWED_TYPES;
+
+  return {
+    maxBytes: Number(process.env.ATTACHMENT_MAX_BYTES) || DEFAULT_MAX_BYTES,
+    maxFiles: Number(process.env.ATTACHMENT_MAX_FILES) || DEFAULT_MAX_FILES,
+    allowedTypes: allowed
+      ? allowed.split(",").map((type) => type.trim()).filter(Boolean)
+      : Object.keys(MEDIA_TYPES),
+  };
+}
+
+export function isAllowedType(mimeType: MediaType, limits: AttachmentLimits) {
+  return limits.allowedTypes.some((pattern) =>
+    pattern.endsWith("/*")
+      ? mimeType.startsWith(pattern.slice(0, -1))
+      : mimeType === pattern
+  );
+}
+
+// What staff and reporters see; the storage key stays server-side
+export const attachmentSelect = {
+  id: true,
+  fileName: true,
+  mimeType: true,
+  size: true,
+  createdAt: true,
+} satisfies Prisma.AttachmentSelect;
+
+// Uploads happen before the report is submitted, so files whose report never
+// arrives are removed once they are older than ATTACHMENT_UNCLAIMED_TTL_HOURS.
+// Reports can only claim uploads younger than that.
+export function unclaimedUploadCutoff(now = new Date()) {
+  const hours =
+    Number(process.env.ATTACHMENT_UNCLAIMED_TTL_HOURS) ||
+    DEFAULT_UNCLAIMED_TTL_HOURS;
+  return new Date(now.getTime() - hours * 60 * 60 * 1000);
+}
+
+// Deletes up to `limit` expired unclaimed uploads and returns how many went.
+// The row is removed first and only while still unclaimed, so a file is never
+// taken out of storage from under a report.
+export async function deleteExpiredUploads({ limit }: { limit: number }) {
+  const expired = await prisma.attachment.findMany({
+    where: { reportId: null, createdAt: { lt: unclaimedUploadCutoff() } },
+    select: { id: true, storageKey: true },
+    orderBy: { createdAt: "asc" },
+    take: limit,
+  });
+
+  let deleted = 0;
+  for (const { id, storageKey } of expired) {
+    const { count } = await prisma.attachment.deleteMany({
+      where: { id, reportId: null },
+    });
+    if (count === 0) continue;
+    try {
+      await getStorage().delete(storageKey);
+    } catch (error) {
+      console.error(`Error deleting expired upload ${storageKey}:`, error);
+    }
+    deleted++;
+  }
+  return deleted;
+}
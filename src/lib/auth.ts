@@ -15,6 +15,7 @@ export enum Role {
 declare module "next-auth" {
   interface Session {
     user: {
+      id: string;
       email: string;
       name: string;
       role: string;  // Added role to the session
@@ -62,6 +63,10 @@ export const authOptions: AuthOptions = {
           throw new Error("Incorrect password");
         }
 
+        if (!user.active) {
+          throw new Error("This account has been deactivated");
+        }
+
         // Return the user data including role
         return {
           id: user.id.toString(),
@@ -82,7 +87,8 @@ export const authOptions: AuthOptions = {
     },
     async session({ session, token }) {
       if (session?.user) {
-        // Add role from token to session
+        // Add id and role from token to session
+        session.user.id = token.sub!;
         (session.user as { role: string }).role = (token as { role: string }).role!;
       }
       return session;
@@ -0,0 +1,99 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { Role } from "@prisma/client";
+import { authOptions } from "./auth";
+import prisma from "./prisma";
+import { Permission, hasPermission } from "./permissions";
+import { isReportVisible } from "./agencies";
+
+export interface Actor {
+  id: number;
+  email: string;
+  name: string;
+  role: Role;
+  agencyId: string | null;
+}
+
+type AuthorizeResult =
+  | { actor: Actor; error?: undefined }
+  | { actor?: undefined; error: NextResponse };
+
+export function unauthorized() {
+  return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+}
+
+export function forbidden() {
+  return NextResponse.json(
+    { error: "Forbidden: you do not have permission to perform this action" },
+    { status: 403 }
+  );
+}
+
+// Returns the signed-in account as stored in the database, or null when there
+// is no session or the account has been deactivated. Sessions are JWTs that
+// outlive role changes and deactivation, so the token alone is not trusted.
+export async function getActiveUser(): Promise<Actor | null> {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return null;
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: Number(session.user.id) },
+    select: {
+      id: true,
+      email: true,
+      name: true,
+      role: true,
+      active: true,
+      agencyId: true,
+    },
+  });
+  if (!user?.active) {
+    return null;
+  }
+
+  const { id, email, name, role, agencyId } = user;
+  return { id, email, name, role, agencyId };
+}
+
+// Resolves the signed-in staff member and checks every given permission.
+// Route handlers return `error` as-is when it is set:
+//
+//   const { actor, error } = await authorize(Permission.VIEW_REPORTS);
+//   if (error) return error;
+export async function authorize(
+  ...permissions: Permission[]
+): Promise<AuthorizeResult> {
+  const actor = await getActiveUser();
+  if (!actor) {
+    return { error: unauthorized() };
+  }
+
+  if (!permissions.every((permission) => hasPermission(actor.role, permission))) {
+    return { error: forbidden() };
+  }
+
+  return { actor };
+}
+
+// Like authorize, and also requires the report to be in the actor's queue.
+// Reports in another agency's queue answer as not found, so staff cannot
+// probe for tracking codes outside their jurisdiction.
+export async function authorizeReport(
+  reportId: string,
+  ...permissions: Permission[]
+): Promise<AuthorizeResult> {
+  const result = await authorize(...permissions);
+  if (result.error) {
+    return result;
+  }
+
+  if (!(await isReportVisible(result.actor, reportId))) {
+    return {
+      error: NextResponse.json({ error: "Report not found" }, { status: 404 }),
+    };
+  }
+
+  return result;
+}
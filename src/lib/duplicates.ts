@@ -0,0 +1,198 @@
+import { Prisma } from "@prisma/client";
+import prisma from "./prisma";
+import { boundingBox, Coordinates, distanceMeters } from "./geo";
+import { openStatuses } from "./workflow";
+
+// Finds open reports that probably describe the same incident as a given
+// one. Each candidate is scored from 0 to 1 on how close it is in place and
+// time, whether the incident type matches and how similar the wording is.
+
+export interface DuplicateSearchOptions {
+  radiusMeters?: number;
+  windowHours?: number;
+  minScore?: number;
+  // Only consider reports filed before this one, as triage does
+  earlierOnly?: boolean;
+  // Restricts candidates to the reports the searcher may see
+  scope?: Prisma.ReportWhereInput;
+}
+
+export interface DuplicateCandidate {
+  id: string;
+  reportId: string;
+  title: string;
+  status: string;
+  createdAt: Date;
+  score: number;
+  // Null when either report has no coordinates
+  distanceMeters: number | null;
+  hoursApart: number;
+  sameType: boolean;
+  textSimilarity: number;
+}
+
+type SearchSubject = {
+  id: string;
+  reportType: string;
+  title: string;
+  description: string;
+  latitude: number | null;
+  longitude: number | null;
+  createdAt: Date;
+};
+
+const DEFAULTS: Required<DuplicateSearchOptions> = {
+  radiusMeters: 1000,
+  windowHours: 24,
+  minScore: 0.5,
+  earlierOnly: false,
+  scope: {},
+};
+
+const WEIGHTS = { proximity: 0.35, time: 0.2, type: 0.2, text: 0.25 };
+
+// Candidates fetched before scoring; nearby, recent reports come first
+const MAX_CANDIDATES = 200;
+
+const STOP_WORDS = new Set(
+  "the and for with near there this that was are has have from into some been were its".split(
+    " "
+  )
+);
+
+function tokens(text: string) {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((word) => word.length >= 3 && !STOP_WORDS.has(word))
+  );
+}
+
+// Dice coefficient over the distinct words of both texts
+export function textSimilarity(a: string, b: string) {
+  const left = tokens(a);
+  const right = tokens(b);
+  if (left.size === 0 || right.size === 0) return 0;
+
+  let shared = 0;
+  left.forEach((word) => {
+    if (right.has(word)) shared++;
+  });
+  return (2 * shared) / (left.size + right.size);
+}
+
+function coordinatesOf(report: {
+  latitude: number | null;
+  longitude: number | null;
+}): Coordinates | null {
+  return report.latitude !== null && report.longitude !== null
+    ? { latitude: report.latitude, longitude: report.longitude }
+    : null;
+}
+
+export async function findDuplicateCandidates(
+  report: SearchSubject,
+  options: DuplicateSearchOptions = {}
+): Promise<DuplicateCandidate[]> {
+  const { radiusMeters, windowHours, minScore, earlierOnly, scope } = {
+    ...DEFAULTS,
+    ...options,
+  };
+  const windowMs = windowHours * 3600 * 1000;
+  const origin = coordinatesOf(report);
+
+  // Reports without coordinates can only match on time, type and text
+  const area: Prisma.ReportWhereInput = origin
+    ? (() => {
+        const box = boundingBox(origin, radiusMeters);
+        return {
+          OR: [
+            {
+              latitude: { gte: box.minLatitude, lte: box.maxLatitude },
+              longitude: { gte: box.minLongitude, lte: box.maxLongitude },
+            },
+            { latitude: null },
+            { longitude: null },
+          ],
+        };
+      })()
+    : {};
+
+  const rows = await prisma.report.findMany({
+    where: {
+      ...area,
+      AND: [scope],
+      id: { not: report.id },
+      // Merged reports are reached through their parent incident
+      parentId: null,
+      status: { in: openStatuses() },
+      createdAt: {
+        gte: new Date(report.createdAt.getTime() - windowMs),
+        lte: earlierOnly
+          ? report.createdAt
+          : new Date(report.createdAt.getTime() + windowMs),
+      },
+    },
+    select: {
+      id: true,
+      reportId: true,
+      title: true,
+      description: true,
+      reportType: true,
+      status: true,
+      latitude: true,
+      longitude: true,
+      createdAt: true,
+    },
+    orderBy: { createdAt: "desc" },
+    take: MAX_CANDIDATES,
+  });
+
+  const reportText = `${report.title} ${report.description}`;
+  const candidates: DuplicateCandidate[] = [];
+
+  for (const row of rows) {
+    const position = coordinatesOf(row);
+    const distance =
+      origin && position ? distanceMeters(origin, position) : null;
+    if (distance !== null && distance > radiusMeters) continue;
+
+    const hoursApart =
+      Math.abs(row.createdAt.getTime() - report.createdAt.getTime()) /
+      3600000;
+    const sameType = row.reportType === report.reportType;
+    const similarity = textSimilarity(
+      reportText,
+      `${row.title} ${row.description}`
+    );
+
+    let weighted =
+      WEIGHTS.time * (1 - hoursApart / windowHours) +
+      WEIGHTS.type * (sameType ? 1 : 0) +
+      WEIGHTS.text * similarity;
+    let total = WEIGHTS.time + WEIGHTS.type + WEIGHTS.text;
+    if (distance !== null) {
+      weighted += WEIGHTS.proximity * (1 - distance / radiusMeters);
+      total += WEIGHTS.proximity;
+    }
+
+    const score = weighted / total;
+    if (score < minScore) continue;
+
+    candidates.push({
+      id: row.id,
+      reportId: row.reportId,
+      title: row.title,
+      status: row.status,
+      createdAt: row.createdAt,
+      score: Math.round(score * 100) / 100,
+      distanceMeters: distance === null ? null : Math.round(distance),
+      hoursApart: Math.round(hoursApart * 10) / 10,
+      sameType,
+      textSimilarity: Math.round(similarity * 100) / 100,
+    });
+  }
+
+  return candidates.sort((a, b) => b.score - a.score);
+}
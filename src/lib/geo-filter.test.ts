@@ -0,0 +1,52 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { matchesGeoFilter, parseGeoFilter } from "./geo-filter";
+
+function parse(query: string) {
+  return parseGeoFilter(new URLSearchParams(query));
+}
+
+describe("parseGeoFilter", () => {
+  it("reads each kind of area", () => {
+    assert.deepEqual(parse("near=51.5,-0.12&radius=500"), {
+      ok: true,
+      value: {
+        kind: "near",
+        center: { latitude: 51.5, longitude: -0.12 },
+        radiusMeters: 500,
+      },
+    });
+    assert.equal(parse("near=51.5,-0.12").ok, true);
+    assert.equal(parse("bbox=51,-1,52,0").ok, true);
+    assert.equal(parse("polygon=0,0;0,1;1,1").ok, true);
+    assert.deepEqual(parse(""), { ok: true, value: null });
+  });
+
+  it("rejects malformed or out of range areas", () => {
+    for (const query of [
+      "near=91,0",
+      "near=51.5",
+      "near=51.5,-0.12&radius=0",
+      "near=51.5,-0.12&radius=1000000",
+      "bbox=52,-1,51,0",
+      "bbox=51,-1,52",
+      "polygon=0,0;0,1",
+      "polygon=0,0;0,x;1,1",
+      "near=0,0&bbox=0,0,1,1",
+    ]) {
+      assert.equal(parse(query).ok, false, query);
+    }
+  });
+});
+
+describe("matchesGeoFilter", () => {
+  it("applies the exact shape", () => {
+    const result = parse("near=51.5,-0.12&radius=1000");
+    assert.ok(result.ok && result.value);
+    const filter = result.value;
+
+    assert.ok(matchesGeoFilter(filter, { latitude: 51.505, longitude: -0.12 }));
+    assert.ok(!matchesGeoFilter(filter, { latitude: 51.51, longitude: -0.12 }));
+    assert.ok(!matchesGeoFilter(filter, { latitude: null, longitude: null }));
+  });
+});
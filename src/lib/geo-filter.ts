@@ -0,0 +1,162 @@
+import { Prisma } from "@prisma/client";
+import {
+  BoundingBox,
+  Coordinates,
+  boundingBox,
+  distanceMeters,
+  geohashesCovering,
+  isInBox,
+  isInPolygon,
+  polygonBounds,
+} from "./geo";
+
+// Area filters for report queries. The database narrows candidates by
+// geohash prefix and coordinate range; the exact shape test runs on the
+// results.
+//
+//   near=lat,lng&radius=meters
+//   bbox=minLat,minLng,maxLat,maxLng
+//   polygon=lat,lng;lat,lng;lat,lng;...
+
+export type GeoFilter =
+  | { kind: "near"; center: Coordinates; radiusMeters: number }
+  | { kind: "bbox"; box: BoundingBox }
+  | { kind: "polygon"; polygon: Coordinates[] };
+
+type GeoFilterResult =
+  | { ok: true; value: GeoFilter | null }
+  | { ok: false; error: string };
+
+const DEFAULT_RADIUS_METERS = 1000;
+const MAX_RADIUS_METERS = 100000;
+const MAX_POLYGON_POINTS = 200;
+
+function failure(error: string): GeoFilterResult {
+  return { ok: false, error };
+}
+
+function parseNumbers(value: string) {
+  const numbers = value.split(",").map((part) => Number(part.trim()));
+  return numbers.some((number) => !Number.isFinite(number)) ? null : numbers;
+}
+
+function isValidCoordinates({ latitude, longitude }: Coordinates) {
+  return (
+    latitude >= -90 && latitude <= 90 && longitude >= -180 && longitude <= 180
+  );
+}
+
+function parsePoint(value: string): Coordinates | null {
+  const numbers = parseNumbers(value);
+  if (!numbers || numbers.length !== 2) return null;
+  const point = { latitude: numbers[0], longitude: numbers[1] };
+  return isValidCoordinates(point) ? point : null;
+}
+
+export function parseGeoFilter(params: URLSearchParams): GeoFilterResult {
+  const near = params.get("near");
+  const bbox = params.get("bbox");
+  const polygon = params.get("polygon");
+
+  if ([near, bbox, polygon].filter((value) => value !== null).length > 1) {
+    return failure("Use only one of near, bbox and polygon");
+  }
+
+  if (near !== null) {
+    const center = parsePoint(near);
+    if (!center) {
+      return failure("near must be latitude,longitude");
+    }
+    const radius = params.get("radius");
+    const radiusMeters =
+      radius === null ? DEFAULT_RADIUS_METERS : Number(radius);
+    if (
+      !Number.isFinite(radiusMeters) ||
+      radiusMeters <= 0 ||
+      radiusMeters > MAX_RADIUS_METERS
+    ) {
+      return failure(
+        `radius must be between 0 and ${MAX_RADIUS_METERS} meters`
+      );
+    }
+    return { ok: true, value: { kind: "near", center, radiusMeters } };
+  }
+
+  if (bbox !== null) {
+    const numbers = parseNumbers(bbox);
+    if (!numbers || numbers.length !== 4) {
+      return failure("bbox must be minLat,minLng,maxLat,maxLng");
+    }
+    const [minLatitude, minLongitude, maxLatitude, maxLongitude] = numbers;
+    const box = { minLatitude, minLongitude, maxLatitude, maxLongitude };
+    if (
+      !isValidCoordinates({ latitude: minLatitude, longitude: minLongitude }) ||
+      !isValidCoordinates({ latitude: maxLatitude, longitude: maxLongitude }) ||
+      minLatitude > maxLatitude ||
+      minLongitude > maxLongitude
+    ) {
+      return failure("bbox corners are out of range or out of order");
+    }
+    return { ok: true, value: { kind: "bbox", box } };
+  }
+
+  if (polygon !== null) {
+    const points = polygon.split(";").map(parsePoint);
+    if (points.some((point) => point === null)) {
+      return failure("polygon must be latitude,longitude pairs separated by ;");
+    }
+    if (points.length < 3 || points.length > MAX_POLYGON_POINTS) {
+      return failure(
+        `polygon must have between 3 and ${MAX_POLYGON_POINTS} points`
+      );
+    }
+    return {
+      ok: true,
+      value: { kind: "polygon", polygon: points as Coordinates[] },
+    };
+  }
+
+  return { ok: true, value: null };
+}
+
+function filterBounds(filter: GeoFilter) {
+  switch (filter.kind) {
+    case "near":
+      return boundingBox(filter.center, filter.radiusMeters);
+    case "bbox":
+      return filter.box;
+    case "polygon":
+      return polygonBounds(filter.polygon);
+  }
+}
+
+// Conditions that keep the query on the geohash index. Reports without
+// coordinates have no geohash and never match.
+export function geoFilterWhere(filter: GeoFilter): Prisma.ReportWhereInput {
+  const box = filterBounds(filter);
+  return {
+    OR: geohashesCovering(box).map((prefix) => ({
+      geohash: { startsWith: prefix },
+    })),
+    latitude: { gte: box.minLatitude, lte: box.maxLatitude },
+    longitude: { gte: box.minLongitude, lte: box.maxLongitude },
+  };
+}
+
+export function matchesGeoFilter(
+  filter: GeoFilter,
+  report: { latitude: number | null; longitude: number | null }
+) {
+  if (report.latitude === null || report.longitude === null) {
+    return false;
+  }
+  const point = { latitude: report.latitude, longitude: report.longitude };
+  switch (filter.kind) {
+    case "near":
+      return distanceMeters(filter.center, point) <= filter.radiusMeters;
+    case "bbox":
+      return isInBox(point, filter.box);
+    case "polygon":
+      return isInPolygon(point, filter.polygon);
+  }
+}
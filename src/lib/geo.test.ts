@@ -0,0 +1,97 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  encodeGeohash,
+  geohashesCovering,
+  isInPolygon,
+  polygonBounds,
+} from "./geo";
+
+describe("encodeGeohash", () => {
+  it("matches the reference encoding", () => {
+    assert.equal(
+      encodeGeohash({ latitude: 57.64911, longitude: 10.40744 }),
+      "u4pruydqq"
+    );
+    assert.equal(
+      encodeGeohash({ latitude: -33.8688, longitude: 151.2093 }, 5),
+      "r3gx2"
+    );
+  });
+});
+
+describe("geohashesCovering", () => {
+  const boxes = [
+    // A few streets, a city, and one straddling the equator and meridian
+    {
+      minLatitude: 51.5,
+      maxLatitude: 51.502,
+      minLongitude: -0.13,
+      maxLongitude: -0.125,
+    },
+    {
+      minLatitude: 40.5,
+      maxLatitude: 40.95,
+      minLongitude: -74.3,
+      maxLongitude: -73.7,
+    },
+    {
+      minLatitude: -0.5,
+      maxLatitude: 0.5,
+      minLongitude: -0.5,
+      maxLongitude: 0.5,
+    },
+  ];
+
+  it("covers every point in the box with at most 32 prefixes", () => {
+    for (const box of boxes) {
+      const prefixes = geohashesCovering(box);
+      assert.ok(prefixes.length > 0 && prefixes.length <= 32);
+
+      for (let i = 0; i <= 10; i++) {
+        for (let j = 0; j <= 10; j++) {
+          const point = {
+            latitude:
+              box.minLatitude + ((box.maxLatitude - box.minLatitude) * i) / 10,
+            longitude:
+              box.minLongitude +
+              ((box.maxLongitude - box.minLongitude) * j) / 10,
+          };
+          const hash = encodeGeohash(point);
+          assert.ok(
+            prefixes.some((prefix) => hash.startsWith(prefix)),
+            `${hash} is not covered`
+          );
+        }
+      }
+    }
+  });
+});
+
+describe("isInPolygon", () => {
+  // An L shape, so the notch is inside its bounds but outside the polygon
+  const shape = [
+    { latitude: 0, longitude: 0 },
+    { latitude: 0, longitude: 2 },
+    { latitude: 1, longitude: 2 },
+    { latitude: 1, longitude: 1 },
+    { latitude: 2, longitude: 1 },
+    { latitude: 2, longitude: 0 },
+  ];
+
+  it("tells points in the polygon from points in its notch", () => {
+    assert.ok(isInPolygon({ latitude: 0.5, longitude: 1.5 }, shape));
+    assert.ok(isInPolygon({ latitude: 1.5, longitude: 0.5 }, shape));
+    assert.ok(!isInPolygon({ latitude: 1.5, longitude: 1.5 }, shape));
+    assert.ok(!isInPolygon({ latitude: 3, longitude: 0.5 }, shape));
+  });
+
+  it("bounds the polygon by its extreme points", () => {
+    assert.deepEqual(polygonBounds(shape), {
+      minLatitude: 0,
+      maxLatitude: 2,
+      minLongitude: 0,
+      maxLongitude: 2,
+    });
+  });
+});
@@ -0,0 +1,178 @@
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+const EARTH_RADIUS_METERS = 6371000;
+
+function toRadians(degrees: number) {
+  return (degrees * Math.PI) / 180;
+}
+
+// Great-circle distance in meters
+export function distanceMeters(a: Coordinates, b: Coordinates) {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLng = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) *
+      Math.cos(toRadians(b.latitude)) *
+      Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(h));
+}
+
+// A latitude/longitude box that contains every point within radiusMeters of
+// the center, for narrowing a query before exact distances are computed
+export function boundingBox(center: Coordinates, radiusMeters: number) {
+  const dLat = (radiusMeters / EARTH_RADIUS_METERS) * (180 / Math.PI);
+  const dLng = dLat / Math.max(Math.cos(toRadians(center.latitude)), 0.01);
+  return {
+    minLatitude: center.latitude - dLat,
+    maxLatitude: center.latitude + dLat,
+    minLongitude: center.longitude - dLng,
+    maxLongitude: center.longitude + dLng,
+  };
+}
+
+export interface BoundingBox {
+  minLatitude: number;
+  maxLatitude: number;
+  minLongitude: number;
+  maxLongitude: number;
+}
+
+// Reports store a geohash of their coordinates so area queries can use an
+// index: every point inside a geohash cell shares the cell's prefix.
+const GEOHASH_ALPHABET = "0123456789bcdefghjkmnpqrstuvwxyz";
+
+export const GEOHASH_PRECISION = 9;
+
+// Cells a box may be split into before a coarser precision is used instead
+const MAX_COVERING_CELLS = 32;
+
+export function encodeGeohash(
+  { latitude, longitude }: Coordinates,
+  precision = GEOHASH_PRECISION
+) {
+  let [minLat, maxLat, minLng, maxLng] = [-90, 90, -180, 180];
+  let hash = "";
+  let bits = 0;
+  let index = 0;
+  let isLongitude = true;
+
+  while (hash.length < precision) {
+    if (isLongitude) {
+      const mid = (minLng + maxLng) / 2;
+      index = index * 2 + (longitude >= mid ? 1 : 0);
+      if (longitude >= mid) minLng = mid;
+      else maxLng = mid;
+    } else {
+      const mid = (minLat + maxLat) / 2;
+      index = index * 2 + (latitude >= mid ? 1 : 0);
+      if (latitude >= mid) minLat = mid;
+      else maxLat = mid;
+    }
+    isLongitude = !isLongitude;
+
+    if (++bits === 5) {
+      hash += GEOHASH_ALPHABET.charAt(index);
+      bits = 0;
+      index = 0;
+    }
+  }
+  return hash;
+}
+
+// Width and height in degrees of a geohash cell at the given precision
+function geohashCellSize(precision: number) {
+  const longitudeBits = Math.ceil((precision * 5) / 2);
+  const latitudeBits = Math.floor((precision * 5) / 2);
+  return {
+    width: 360 / 2 ** longitudeBits,
+    height: 180 / 2 ** latitudeBits,
+  };
+}
+
+// Geohash prefixes whose cells together cover the box, at the finest
+// precision that needs no more than MAX_COVERING_CELLS of them. Points in
+// these cells may still fall outside the box, so callers filter exactly
+// afterwards.
+export function geohashesCovering(box: BoundingBox) {
+  for (let precision = GEOHASH_PRECISION; precision > 1; precision--) {
+    const { width, height } = geohashCellSize(precision);
+    const columns =
+      Math.floor(box.maxLongitude / width) -
+      Math.floor(box.minLongitude / width) +
+      1;
+    const rows =
+      Math.floor(box.maxLatitude / height) -
+      Math.floor(box.minLatitude / height) +
+      1;
+    if (columns * rows <= MAX_COVERING_CELLS) {
+      return cellsCovering(box, precision);
+    }
+  }
+  return cellsCovering(box, 1);
+}
+
+function cellsCovering(box: BoundingBox, precision: number) {
+  const { width, height } = geohashCellSize(precision);
+  const hashes = new Set<string>();
+  // Step from cell center to cell center so every cell is visited once
+  const firstLat = (Math.floor(box.minLatitude / height) + 0.5) * height;
+  const firstLng = (Math.floor(box.minLongitude / width) + 0.5) * width;
+  for (let lat = firstLat; lat - height / 2 <= box.maxLatitude; lat += height) {
+    for (let lng = firstLng; lng - width / 2 <= box.maxLongitude; lng += width) {
+      hashes.add(
+        encodeGeohash(
+          {
+            latitude: Math.min(Math.max(lat, -90), 90),
+            longitude: Math.min(Math.max(lng, -180), 180),
+          },
+          precision
+        )
+      );
+    }
+  }
+  return Array.from(hashes);
+}
+
+export function isInBox(point: Coordinates, box: BoundingBox) {
+  return (
+    point.latitude >= box.minLatitude &&
+    point.latitude <= box.maxLatitude &&
+    point.longitude >= box.minLongitude &&
+    point.longitude <= box.maxLongitude
+  );
+}
+
+export function polygonBounds(polygon: Coordinates[]): BoundingBox {
+  const latitudes = polygon.map((point) => point.latitude);
+  const longitudes = polygon.map((point) => point.longitude);
+  return {
+    minLatitude: Math.min(...latitudes),
+    maxLatitude: Math.max(...latitudes),
+    minLongitude: Math.min(...longitudes),
+    maxLongitude: Math.max(...longitudes),
+  };
+}
+
+// Ray casting test. The polygon may be open or closed, and is treated as flat,
+// which is accurate enough at city scale.
+export function isInPolygon(point: Coordinates, polygon: Coordinates[]) {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (
+      a.latitude > point.latitude !== b.latitude > point.latitude &&
+      point.longitude <
+        ((b.longitude - a.longitude) * (point.latitude - a.latitude)) /
+          (b.latitude - a.latitude) +
+          a.longitude
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
@@ -0,0 +1,43 @@
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import { ANALYSIS_PROMPT, parseAnalysis } from "./schema";
+import { ImageAnalyzer } from "./types";
+
+interface GeminiAnalyzerOptions {
+  apiKey: string;
+  model: string;
+  timeoutMs: number;
+}
+
+export function createGeminiAnalyzer(
+  options: GeminiAnalyzerOptions
+): ImageAnalyzer {
+  const model = new GoogleGenerativeAI(options.apiKey).getGenerativeModel({
+    model: options.model,
+    generationConfig: { responseMimeType: "application/json" },
+  });
+
+  return {
+    async analyze(image) {
+      const result = await model.generateContent(
+        [
+          ANALYSIS_PROMPT,
+          {
+            inlineData: {
+              data: image.data.toString("base64"),
+              mimeType: image.mimeType,
+            },
+          },
+        ],
+        { signal: AbortSignal.timeout(options.timeoutMs) }
+      );
+
+      const analysis = parseAnalysis(result.response.text());
+      if (!analysis) {
+        throw new Error(
+          "Image analysis returned a response that does not match the schema"
+        );
+      }
+      return analysis;
+    },
+  };
+}
@@ -0,0 +1,62 @@
+import { createGeminiAnalyzer } from "./gemini";
+import { createMockAnalyzer } from "./mock";
+import { createOpenAIAnalyzer } from "./openai";
+import { ImageAnalyzer } from "./types";
+
+export type {
+  AnalyzerImage,
+  Hazard,
+  ImageAnalysis,
+  ImageAnalyzer,
+  Severity,
+} from "./types";
+
+// Report submission waits on triage, so a slow or unresponsive provider must
+// not hold it up for long
+const DEFAULT_TIMEOUT_MS = 15000;
+
+let analyzer: ImageAnalyzer | undefined;
+
+// Picks the provider from IMAGE_ANALYZER ("gemini" by default, "openai" or
+// "mock"); IMAGE_ANALYZER_MODEL overrides the provider's default model and
+// IMAGE_ANALYZER_TIMEOUT_MS how long a request may take.
+export function getImageAnalyzer(): ImageAnalyzer {
+  if (analyzer) {
+    return analyzer;
+  }
+
+  const provider = process.env.IMAGE_ANALYZER || "gemini";
+  const model = process.env.IMAGE_ANALYZER_MODEL;
+  const timeoutMs =
+    Number(process.env.IMAGE_ANALYZER_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS;
+
+  switch (provider) {
+    case "gemini":
+      analyzer = createGeminiAnalyzer({
+        apiKey: process.env.GEMINI_API_KEY || "",
+        model: model || "gemini-1.5-pro",
+        timeoutMs,
+      });
+      break;
+    case "openai":
+      if (!process.env.OPENAI_API_KEY && !process.env.OPENAI_BASE_URL) {
+        throw new Error(
+          "OPENAI_API_KEY or OPENAI_BASE_URL must be set when IMAGE_ANALYZER=openai"
+        );
+      }
+      analyzer = createOpenAIAnalyzer({
+        apiKey: process.env.OPENAI_API_KEY || "",
+        model: model || "gpt-4o-mini",
+        baseUrl: process.env.OPENAI_BASE_URL || "https://api.openai.com/v1",
+        timeoutMs,
+      });
+      break;
+    case "mock":
+      analyzer = createMockAnalyzer();
+      break;
+    default:
+      throw new Error(`Unknown IMAGE_ANALYZER: ${provider}`);
+  }
+
+  return analyzer;
+}
@@ -0,0 +1,76 @@
+import crypto from "crypto";
+import { ImageAnalysis, ImageAnalyzer } from "./types";
+
+const SAMPLES: ImageAnalysis[] = [
+  {
+    title: "Vehicle on fire at roadside",
+    reportType: "Fire Outbreak",
+    description: "A parked car is burning with heavy smoke near the road.",
+    classification: "EMERGENCY",
+    severity: "HIGH",
+    hazards: ["FIRE", "SMOKE"],
+    confidence: {
+      title: 0.9,
+      reportType: 0.95,
+      description: 0.85,
+      classification: 0.9,
+      severity: 0.75,
+    },
+  },
+  {
+    title: "Person injured on pavement",
+    reportType: "Medical Emergency",
+    description: "Someone is lying on the ground and appears to need help.",
+    classification: "EMERGENCY",
+    severity: "CRITICAL",
+    hazards: ["INJURED_PERSON"],
+    confidence: {
+      title: 0.8,
+      reportType: 0.85,
+      description: 0.6,
+      classification: 0.85,
+      severity: 0.5,
+    },
+  },
+  {
+    title: "Shop window broken",
+    reportType: "Theft",
+    description: "A storefront window has been smashed and goods are missing.",
+    classification: "NON_EMERGENCY",
+    severity: "MEDIUM",
+    hazards: [],
+    confidence: {
+      title: 0.75,
+      reportType: 0.55,
+      description: 0.7,
+      classification: 0.8,
+      severity: 0.6,
+    },
+  },
+  {
+    title: "Flooded street",
+    reportType: "Natural Disaster",
+    description: "Water has covered the street and is rising around buildings.",
+    classification: "EMERGENCY",
+    severity: "HIGH",
+    hazards: ["FLOODING", "ELECTRICAL"],
+    confidence: {
+      title: 0.9,
+      reportType: 0.9,
+      description: 0.8,
+      classification: 0.65,
+      severity: 0.6,
+    },
+  },
+];
+
+// Offline stand-in for development and tests. The same image always gets the
+// same answer, and nothing leaves the machine.
+export function createMockAnalyzer(): ImageAnalyzer {
+  return {
+    async analyze(image) {
+      const digest = crypto.createHash("sha256").update(image.data).digest();
+      return SAMPLES[digest[0] % SAMPLES.length];
+    },
+  };
+}
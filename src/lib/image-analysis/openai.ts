@@ -0,0 +1,65 @@
+import { ANALYSIS_PROMPT, parseAnalysis } from "./schema";
+import { ImageAnalyzer } from "./types";
+
+interface OpenAIAnalyzerOptions {
+  apiKey: string;
+  model: string;
+  // Any server implementing the OpenAI chat completions API, e.g. a local
+  // vLLM or Ollama instance
+  baseUrl: string;
+  timeoutMs: number;
+}
+
+export function createOpenAIAnalyzer(
+  options: OpenAIAnalyzerOptions
+): ImageAnalyzer {
+  const endpoint = `${options.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+  return {
+    async analyze(image) {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${options.apiKey}`,
+        },
+        signal: AbortSignal.timeout(options.timeoutMs),
+        body: JSON.stringify({
+          model: options.model,
+          response_format: { type: "json_object" },
+          messages: [
+            {
+              role: "user",
+              content: [
+                { type: "text", text: ANALYSIS_PROMPT },
+                {
+                  type: "image_url",
+                  image_url: {
+                    url: `data:${image.mimeType};base64,${image.data.toString(
+                      "base64"
+                    )}`,
+                  },
+                },
+              ],
+            },
+          ],
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(
+          `Image analysis request failed with status ${response.status}`
+        );
+      }
+
+      const data = await response.json();
+      const analysis = parseAnalysis(data.choices?.[0]?.message?.content ?? "");
+      if (!analysis) {
+        throw new Error(
+          "Image analysis returned a response that does not match the schema"
+        );
+      }
+      return analysis;
+    },
+  };
+}
@@ -0,0 +1,97 @@
+import { REPORT_TYPES, isReportTypeName } from "../report-types";
+import {
+  HAZARDS,
+  Hazard,
+  ImageAnalysis,
+  SEVERITIES,
+  SUGGESTED_FIELDS,
+  Severity,
+} from "./types";
+
+// Suggestions below this confidence are offered to the reporter rather than
+// filled in for them
+export const LOW_CONFIDENCE = 0.7;
+
+const MAX_TITLE_LENGTH = 120;
+const MAX_DESCRIPTION_LENGTH = 2000;
+
+export const ANALYSIS_PROMPT = `You help people report emergencies. Look at this photo of an incident and describe it for a report to the authorities.
+
+Respond with a single JSON object and nothing else:
+- title: a clear, brief title
+- reportType: one of ${REPORT_TYPES.join(", ")}
+- description: a clear, concise description of what can be seen
+- classification: EMERGENCY if anyone needs immediate help, otherwise NON_EMERGENCY
+- severity: one of ${SEVERITIES.join(", ")}
+- hazards: every hazard visible in the photo, from ${HAZARDS.join(", ")}
+- confidence: for each of ${SUGGESTED_FIELDS.join(", ")}, how sure you are from 0 to 1
+
+Do not guess at anyone's identity.`;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function clamp(value: unknown) {
+  return typeof value === "number" && Number.isFinite(value)
+    ? Math.min(Math.max(value, 0), 1)
+    : 0;
+}
+
+// Checks a provider's answer against the schema. Returns null when a required
+// field is missing or has the wrong type.
+export function validateAnalysis(value: unknown): ImageAnalysis | null {
+  if (!isRecord(value)) return null;
+
+  const { title, reportType, description, classification, severity, hazards } =
+    value;
+  if (
+    typeof title !== "string" ||
+    typeof description !== "string" ||
+    typeof reportType !== "string" ||
+    (classification !== "EMERGENCY" && classification !== "NON_EMERGENCY") ||
+    !SEVERITIES.includes(severity as Severity) ||
+    !Array.isArray(hazards)
+  ) {
+    return null;
+  }
+
+  const reported = isRecord(value.confidence) ? value.confidence : {};
+  const confidence = Object.fromEntries(
+    SUGGESTED_FIELDS.map((field) => [field, clamp(reported[field])])
+  ) as ImageAnalysis["confidence"];
+
+  // Models occasionally invent a type; fall back to Other and say so with
+  // zero confidence rather than failing the whole analysis
+  let type = reportType;
+  if (!isReportTypeName(type)) {
+    console.warn("Image analysis returned an unknown report type");
+    type = "Other";
+    confidence.reportType = 0;
+  }
+
+  return {
+    title: title.trim().slice(0, MAX_TITLE_LENGTH),
+    reportType: type as ImageAnalysis["reportType"],
+    description: description.trim().slice(0, MAX_DESCRIPTION_LENGTH),
+    classification,
+    severity: severity as Severity,
+    hazards: Array.from(
+      new Set(hazards.filter((h): h is Hazard => HAZARDS.includes(h)))
+    ),
+    confidence,
+  };
+}
+
+// Parses a model's text reply, tolerating a Markdown code fence around it
+export function parseAnalysis(text: string): ImageAnalysis | null {
+  const json = text
+    .trim()
+    .replace(/^```(?:json)?\s*/i, "")
+    .replace(/\s*```$/, "");
+  try {
+    return validateAnalysis(JSON.parse(json));
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,48 @@
+import { ReportTypeName } from "../report-types";
+
+export const SEVERITIES = ["LOW", "MEDIUM", "HIGH", "CRITICAL"] as const;
+export type Severity = (typeof SEVERITIES)[number];
+
+export const HAZARDS = [
+  "FIRE",
+  "SMOKE",
+  "WEAPON",
+  "INJURED_PERSON",
+  "VEHICLE_COLLISION",
+  "FLOODING",
+  "STRUCTURAL_DAMAGE",
+  "ELECTRICAL",
+  "HAZARDOUS_MATERIAL",
+] as const;
+export type Hazard = (typeof HAZARDS)[number];
+
+// Fields the reporter can take from a suggestion
+export const SUGGESTED_FIELDS = [
+  "title",
+  "reportType",
+  "description",
+  "classification",
+  "severity",
+] as const;
+export type SuggestedField = (typeof SUGGESTED_FIELDS)[number];
+
+// Suggested report details for a photo of an incident, each with the model's
+// confidence between 0 and 1
+export interface ImageAnalysis {
+  title: string;
+  reportType: ReportTypeName;
+  description: string;
+  classification: "EMERGENCY" | "NON_EMERGENCY";
+  severity: Severity;
+  hazards: Hazard[];
+  confidence: Record<SuggestedField, number>;
+}
+
+export interface AnalyzerImage {
+  data: Buffer;
+  mimeType: string;
+}
+
+export interface ImageAnalyzer {
+  analyze(image: AnalyzerImage): Promise<ImageAnalysis>;
+}
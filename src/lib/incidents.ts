@@ -0,0 +1,307 @@
+import { Prisma } from "@prisma/client";
+import prisma from "./prisma";
+import { recordReportEvent } from "./report-events";
+import { checkTransition } from "./workflow";
+
+// Staff can fold duplicate reports into one parent incident, or just link
+// reports they consider related. Merging is one level deep: a report merged
+// into another that was itself merged ends up under the top-level parent.
+// Merged reports keep their own tracking code and follow the parent's status,
+// so merging is refused when the workflow does not allow that status change.
+
+type IncidentFailure = { ok: false; error: string; status: 400 | 404 };
+type IncidentResult<T> = { ok: true; value: T } | IncidentFailure;
+
+interface ActorContext {
+  actorId: number | null;
+}
+
+const linkReportSelect = {
+  id: true,
+  reportId: true,
+  title: true,
+  status: true,
+  createdAt: true,
+} satisfies Prisma.ReportSelect;
+
+function failure(error: string, status: 400 | 404 = 400): IncidentFailure {
+  return { ok: false, error, status };
+}
+
+// Links are stored once per pair, lowest id first
+function orderedPair(a: string, b: string) {
+  return a < b ? { reportId: a, relatedId: b } : { reportId: b, relatedId: a };
+}
+
+export async function mergeReport(
+  reportId: string,
+  parentReportId: string,
+  { actorId }: ActorContext
+): Promise<
+  IncidentResult<{
+    parentReportId: string;
+    // Reports whose status changed to follow the incident, with the old one
+    statusChanged: { reportId: string; status: string }[];
+  }>
+> {
+  return prisma.$transaction(async (tx) => {
+    const select = {
+      id: true,
+      reportId: true,
+      status: true,
+      parentId: true,
+      assigneeId: true,
+    };
+    const [child, target] = await Promise.all([
+      tx.report.findUnique({ where: { reportId }, select }),
+      tx.report.findUnique({ where: { reportId: parentReportId }, select }),
+    ]);
+    if (!child || !target) {
+      return failure("Report not found", 404);
+    }
+
+    const parent = target.parentId
+      ? await tx.report.findUniqueOrThrow({
+          where: { id: target.parentId },
+          select,
+        })
+      : target;
+    if (parent.id === child.id) {
+      return failure("A report cannot be merged into itself");
+    }
+    if (child.parentId === parent.id) {
+      return failure("Report is already part of this incident");
+    }
+
+    // Anything already merged into the child moves up to the new parent
+    const grandchildren = await tx.report.findMany({
+      where: { parentId: child.id },
+      select: { id: true, reportId: true, status: true, assigneeId: true },
+    });
+
+    for (const merged of [child, ...grandchildren]) {
+      const invalid = checkTransition(merged.status, parent.status, {
+        reason: `Merged into ${parent.reportId}`,
+        hasAssignee: merged.assigneeId !== null,
+      });
+      if (invalid) {
+        return failure(
+          merged.id === child.id
+            ? invalid
+            : `${merged.reportId}, merged into this report: ${invalid}`
+        );
+      }
+    }
+    await tx.report.updateMany({
+      where: { parentId: child.id },
+      data: { parentId: parent.id, status: parent.status },
+    });
+
+    await tx.report.update({
+      where: { id: child.id },
+      data: {
+        parentId: parent.id,
+        mergedAt: new Date(),
+        status: parent.status,
+        possibleDuplicateOfId: null,
+      },
+    });
+
+    for (const merged of [child, ...grandchildren]) {
+      await recordReportEvent(tx, {
+        reportId: merged.id,
+        type: "MERGED",
+        field: "parent",
+        newValue: parent.reportId,
+        actorId,
+      });
+      if (merged.status !== parent.status) {
+        await recordReportEvent(tx, {
+          reportId: merged.id,
+          type: "STATUS_CHANGED",
+          field: "status",
+          oldValue: merged.status,
+          newValue: parent.status,
+          note: "Now follows the incident it was merged into",
+          actorId,
+        });
+      }
+    }
+    await recordReportEvent(tx, {
+      reportId: parent.id,
+      type: "MERGED",
+      field: "mergedReport",
+      newValue: child.reportId,
+      actorId,
+    });
+
+    return {
+      ok: true,
+      value: {
+        parentReportId: parent.reportId,
+        statusChanged: [child, ...grandchildren]
+          .filter((merged) => merged.status !== parent.status)
+          .map(({ reportId, status }) => ({ reportId, status })),
+      },
+    };
+  });
+}
+
+// Splits a merged report back out. It keeps the status it had as part of the
+// incident.
+export async function unmergeReport(
+  reportId: string,
+  { actorId }: ActorContext
+): Promise<IncidentResult<null>> {
+  return prisma.$transaction(async (tx) => {
+    const report = await tx.report.findUnique({
+      where: { reportId },
+      select: {
+        id: true,
+        reportId: true,
+        parent: { select: { id: true, reportId: true } },
+      },
+    });
+    if (!report) {
+      return failure("Report not found", 404);
+    }
+    if (!report.parent) {
+      return failure("Report is not part of a merged incident");
+    }
+
+    await tx.report.update({
+      where: { id: report.id },
+      data: { parentId: null, mergedAt: null },
+    });
+    await recordReportEvent(tx, {
+      reportId: report.id,
+      type: "UNMERGED",
+      field: "parent",
+      oldValue: report.parent.reportId,
+      actorId,
+    });
+    await recordReportEvent(tx, {
+      reportId: report.parent.id,
+      type: "UNMERGED",
+      field: "mergedReport",
+      oldValue: report.reportId,
+      actorId,
+    });
+
+    return { ok: true, value: null };
+  });
+}
+
+export async function linkReports(
+  reportId: string,
+  relatedReportId: string,
+  { actorId }: ActorContext
+): Promise<IncidentResult<null>> {
+  return prisma.$transaction(async (tx) => {
+    const [report, related] = await Promise.all([
+      tx.report.findUnique({ where: { reportId }, select: { id: true } }),
+      tx.report.findUnique({
+        where: { reportId: relatedReportId },
+        select: { id: true },
+      }),
+    ]);
+    if (!report || !related) {
+      return failure("Report not found", 404);
+    }
+    if (report.id === related.id) {
+      return failure("A report cannot be related to itself");
+    }
+
+    const pair = orderedPair(report.id, related.id);
+    const existing = await tx.reportLink.findUnique({
+      where: { reportId_relatedId: pair },
+    });
+    if (existing) {
+      return { ok: true, value: null };
+    }
+
+    await tx.reportLink.create({ data: { ...pair, createdById: actorId } });
+    for (const [from, to] of [
+      [report.id, relatedReportId],
+      [related.id, reportId],
+    ]) {
+      await recordReportEvent(tx, {
+        reportId: from,
+        type: "LINKED",
+        newValue: to,
+        actorId,
+      });
+    }
+
+    return { ok: true, value: null };
+  });
+}
+
+export async function unlinkReports(
+  reportId: string,
+  relatedReportId: string,
+  { actorId }: ActorContext
+): Promise<IncidentResult<null>> {
+  return prisma.$transaction(async (tx) => {
+    const [report, related] = await Promise.all([
+      tx.report.findUnique({ where: { reportId }, select: { id: true } }),
+      tx.report.findUnique({
+        where: { reportId: relatedReportId },
+        select: { id: true },
+      }),
+    ]);
+    if (!report || !related) {
+      return failure("Report not found", 404);
+    }
+
+    const { count } = await tx.reportLink.deleteMany({
+      where: orderedPair(report.id, related.id),
+    });
+    if (count === 0) {
+      return failure("Reports are not linked");
+    }
+
+    for (const [from, to] of [
+      [report.id, relatedReportId],
+      [related.id, reportId],
+    ]) {
+      await recordReportEvent(tx, {
+        reportId: from,
+        type: "UNLINKED",
+        oldValue: to,
+        actorId,
+      });
+    }
+
+    return { ok: true, value: null };
+  });
+}
+
+// The incident a report belongs to: its parent if merged, the reports merged
+// into it, and reports linked to it as related
+export async function getIncidentLinks(reportId: string) {
+  const report = await prisma.report.findUnique({
+    where: { reportId },
+    select: {
+      parent: { select: linkReportSelect },
+      mergedReports: {
+        select: linkReportSelect,
+        orderBy: { createdAt: "asc" },
+      },
+      linksFrom: { select: { related: { select: linkReportSelect } } },
+      linksTo: { select: { report: { select: linkReportSelect } } },
+    },
+  });
+  if (!report) {
+    return null;
+  }
+
+  return {
+    parent: report.parent,
+    mergedReports: report.mergedReports,
+    related: [
+      ...report.linksFrom.map((link) => link.related),
+      ...report.linksTo.map((link) => link.report),
+    ],
+  };
+}
@@ -0,0 +1,79 @@
+import crypto from "crypto";
+
+// Every type an attachment can have, keyed by the MIME type we serve it as
+export const MEDIA_TYPES = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "video/mp4": "mp4",
+  "video/quicktime": "mov",
+  "video/webm": "webm",
+  "audio/mpeg": "mp3",
+  "audio/mp4": "m4a",
+  "audio/ogg": "ogg",
+  "audio/wav": "wav",
+  "audio/webm": "weba",
+  "application/pdf": "pdf",
+} as const;
+
+export type MediaType = keyof typeof MEDIA_TYPES;
+
+function ascii(data: Buffer, start: number, end: number) {
+  return data.subarray(start, end).toString("ascii");
+}
+
+// Identifies a file from its leading bytes. The browser-supplied MIME type is
+// whatever the client says it is, so it is only used to tell apart formats
+// that share a container (WebM audio vs video).
+export function sniffMediaType(
+  data: Buffer,
+  declaredType?: string
+): MediaType | null {
+  if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+    return "image/jpeg";
+  }
+  if (data.subarray(0, 8).equals(Buffer.from("89504e470d0a1a0a", "hex"))) {
+    return "image/png";
+  }
+  if (ascii(data, 0, 4) === "GIF8") return "image/gif";
+  if (ascii(data, 0, 4) === "RIFF") {
+    if (ascii(data, 8, 12) === "WEBP") return "image/webp";
+    if (ascii(data, 8, 12) === "WAVE") return "audio/wav";
+  }
+  if (ascii(data, 0, 5) === "%PDF-") return "application/pdf";
+  if (ascii(data, 4, 8) === "ftyp") {
+    const brand = ascii(data, 8, 12);
+    if (brand === "qt  ") return "video/quicktime";
+    if (brand === "M4A ") return "audio/mp4";
+    return "video/mp4";
+  }
+  if (data.subarray(0, 4).equals(Buffer.from("1a45dfa3", "hex"))) {
+    return declaredType?.startsWith("audio/") ? "audio/webm" : "video/webm";
+  }
+  if (ascii(data, 0, 4) === "OggS") return "audio/ogg";
+  if (
+    ascii(data, 0, 3) === "ID3" ||
+    (data[0] === 0xff && (data[1] & 0xe0) === 0xe0)
+  ) {
+    return "audio/mpeg";
+  }
+  return null;
+}
+
+export function newStorageKey(mimeType: MediaType) {
+  return `attachments/${crypto.randomUUID()}.${MEDIA_TYPES[mimeType]}`;
+}
+
+export function sha256(data: Buffer) {
+  return crypto.createHash("sha256").update(data).digest("hex");
+}
+
+// Decodes the base64 data URLs reports used to store inline
+export function parseDataUrl(dataUrl: string) {
+  const match = dataUrl.match(/^data:([^;,]+);base64,([\s\S]*)$/);
+  if (!match) {
+    return null;
+  }
+  return { mimeType: match[1], data: Buffer.from(match[2], "base64") };
+}
@@ -0,0 +1,26 @@
+import { Prisma } from "@prisma/client";
+
+export const MAX_MESSAGE_LENGTH = 2000;
+
+// Only these fields ever leave the server. The author is deliberately left out
+// so reporters never learn which officer replied, and reporter messages have
+// nothing identifying stored in the first place.
+export const messageSelect = {
+  id: true,
+  sender: true,
+  body: true,
+  createdAt: true,
+} satisfies Prisma.ReportMessageSelect;
+
+export function validateMessageBody(body: unknown): string | null {
+  if (typeof body !== "string") {
+    return null;
+  }
+
+  const trimmed = body.trim();
+  if (!trimmed || trimmed.length > MAX_MESSAGE_LENGTH) {
+    return null;
+  }
+
+  return trimmed;
+}
@@ -0,0 +1,177 @@
+import { Prisma } from "@prisma/client";
+import prisma from "./prisma";
+import type { Actor } from "./authorize";
+import { STAFF_ROLES, assigneeSelect, canWorkOn } from "./assignments";
+
+// Internal notes staff keep on a case. Only the author may edit a note, and
+// every edit keeps the previous text as a revision. Notes mention colleagues
+// by email, e.g. "@jane@agency.gov", and only staff who can see the report
+// can be mentioned.
+
+type NoteFailure = { ok: false; error: string; status: 400 | 403 | 404 };
+type NoteResult<T> = { ok: true; value: T } | NoteFailure;
+
+export const MAX_NOTE_LENGTH = 5000;
+
+const MENTION_PATTERN = /(^|\s)@([^\s@]+@[^\s@]+\.[A-Za-z0-9.-]*[A-Za-z0-9])/g;
+
+export const noteSelect = {
+  id: true,
+  body: true,
+  createdAt: true,
+  editedAt: true,
+  author: { select: assigneeSelect },
+  mentions: { select: { user: { select: assigneeSelect } } },
+  revisions: {
+    select: { id: true, body: true, createdAt: true },
+    orderBy: { createdAt: "desc" },
+  },
+} satisfies Prisma.ReportNoteSelect;
+
+type Note = Prisma.ReportNoteGetPayload<{ select: typeof noteSelect }>;
+
+function failure(
+  error: string,
+  status: 400 | 403 | 404 = 400
+): NoteFailure {
+  return { ok: false, error, status };
+}
+
+export function validateNoteBody(body: unknown): string | null {
+  if (typeof body !== "string") {
+    return null;
+  }
+
+  const trimmed = body.trim();
+  if (!trimmed || trimmed.length > MAX_NOTE_LENGTH) {
+    return null;
+  }
+
+  return trimmed;
+}
+
+// Lowercased emails mentioned in a note, each once
+export function parseMentions(body: string) {
+  const emails = Array.from(body.matchAll(MENTION_PATTERN), (match) =>
+    match[2].toLowerCase()
+  );
+  return Array.from(new Set(emails));
+}
+
+// The staff members a note mentions. Mentioning someone who cannot open the
+// report fails rather than quietly dropping them.
+async function resolveMentions(
+  tx: Prisma.TransactionClient,
+  body: string,
+  report: { agencyId: string | null }
+): Promise<NoteResult<number[]>> {
+  const emails = parseMentions(body);
+  if (emails.length === 0) {
+    return { ok: true, value: [] };
+  }
+
+  const users = await tx.user.findMany({
+    where: {
+      email: { in: emails, mode: "insensitive" },
+      active: true,
+      role: { in: STAFF_ROLES },
+    },
+    select: { id: true, email: true, role: true, agencyId: true },
+  });
+  const mentioned = users.filter((user) => canWorkOn(user, report));
+
+  const missing = emails.find(
+    (email) => !mentioned.some((user) => user.email.toLowerCase() === email)
+  );
+  if (missing) {
+    return failure(`@${missing} is not a staff member who can see this report`);
+  }
+  return { ok: true, value: mentioned.map(({ id }) => id) };
+}
+
+export async function createNote(
+  reportId: string,
+  body: string,
+  actor: Actor
+): Promise<NoteResult<Note>> {
+  return prisma.$transaction(async (tx) => {
+    const report = await tx.report.findUnique({
+      where: { reportId },
+      select: { id: true, agencyId: true },
+    });
+    if (!report) {
+      return failure("Report not found", 404);
+    }
+
+    const mentions = await resolveMentions(tx, body, report);
+    if (!mentions.ok) {
+      return mentions;
+    }
+
+    const note = await tx.reportNote.create({
+      data: {
+        reportId: report.id,
+        body,
+        authorId: actor.id,
+        mentions: {
+          create: mentions.value.map((userId) => ({ userId })),
+        },
+      },
+      select: noteSelect,
+    });
+    return { ok: true, value: note };
+  });
+}
+
+// Replaces the text of the actor's own note, keeping the old text as a
+// revision and the mentions in step with the new text
+export async function editNote(
+  reportId: string,
+  noteId: string,
+  body: string,
+  actor: Actor
+): Promise<NoteResult<Note>> {
+  return prisma.$transaction(async (tx) => {
+    const note = await tx.reportNote.findFirst({
+      where: { id: noteId, report: { reportId } },
+      select: {
+        body: true,
+        authorId: true,
+        report: { select: { agencyId: true } },
+      },
+    });
+    if (!note) {
+      return failure("Note not found", 404);
+    }
+    if (note.authorId !== actor.id) {
+      return failure("Only the author can edit a note", 403);
+    }
+
+    const mentions = await resolveMentions(tx, body, note.report);
+    if (!mentions.ok) {
+      return mentions;
+    }
+    if (note.body === body) {
+      const unchanged = await tx.reportNote.findUniqueOrThrow({
+        where: { id: noteId },
+        select: noteSelect,
+      });
+      return { ok: true, value: unchanged };
+    }
+
+    const updated = await tx.reportNote.update({
+      where: { id: noteId },
+      data: {
+        body,
+        editedAt: new Date(),
+        revisions: { create: { body: note.body } },
+        mentions: {
+          deleteMany: {},
+          create: mentions.value.map((userId) => ({ userId })),
+        },
+      },
+      select: noteSelect,
+    });
+    return { ok: true, value: updated };
+  });
+}
@@ -0,0 +1,250 @@
+import {
+  NotificationChannel,
+  NotificationRule,
+  Prisma,
+  ReportType,
+  Severity,
+} from "@prisma/client";
+import prisma from "./prisma";
+import { isReportTypeName } from "./report-types";
+
+// Routing rules send new reports to fixed addresses outside the staff list,
+// such as an on-call pager: "EMERGENCY Fire Outbreak reports in agency X go
+// to +15550100". A rule matches when every condition it sets holds; a rule
+// with no conditions matches every report.
+
+type RuleFailure = { ok: false; error: string; status: 400 | 404 };
+type RuleResult<T> = { ok: true; value: T } | RuleFailure;
+
+export interface RuleInput {
+  name: string;
+  active?: boolean;
+  reportType?: ReportType | null;
+  incidentType?: string | null;
+  agencyId?: string | null;
+  minSeverity?: Severity | null;
+  channel: NotificationChannel;
+  address: string;
+}
+
+type RuleConditions = Pick<
+  NotificationRule,
+  "reportType" | "incidentType" | "agencyId" | "minSeverity"
+>;
+
+interface MatchedReport {
+  type: ReportType;
+  reportType: string;
+  agencyId: string | null;
+  severity: Severity | null;
+}
+
+export const ruleSelect = {
+  id: true,
+  name: true,
+  active: true,
+  reportType: true,
+  incidentType: true,
+  agency: { select: { id: true, name: true } },
+  minSeverity: true,
+  channel: true,
+  address: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.NotificationRuleSelect;
+
+type Rule = Prisma.NotificationRuleGetPayload<{ select: typeof ruleSelect }>;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+// E.164: a plus sign, country code and subscriber number
+export const PHONE_PATTERN = /^\+[1-9]\d{6,14}$/;
+const SEVERITIES = Object.values(Severity);
+
+function failure(error: string, status: 400 | 404 = 400): RuleFailure {
+  return { ok: false, error, status };
+}
+
+function isEnumValue<T extends string>(
+  values: Record<string, T>,
+  value: unknown
+): value is T {
+  return Object.values(values).includes(value as T);
+}
+
+function isWebhookUrl(value: string) {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === "https:" || protocol === "http:";
+  } catch {
+    return false;
+  }
+}
+
+// Why an address cannot receive notifications on a channel, or null when it
+// can
+export function checkAddress(channel: NotificationChannel, address: string) {
+  switch (channel) {
+    case NotificationChannel.EMAIL:
+      return EMAIL_PATTERN.test(address) ? null : "Invalid email address";
+    case NotificationChannel.SMS:
+      return PHONE_PATTERN.test(address)
+        ? null
+        : "Phone numbers must be in international form, e.g. +15550100";
+    case NotificationChannel.WEBHOOK:
+      return isWebhookUrl(address) ? null : "Webhook must be an http(s) URL";
+  }
+}
+
+// Validates the fields of a create (name, channel and address required) or
+// update request. Conditions may be cleared with null.
+export function parseRuleInput(
+  body: Record<string, unknown>,
+  { partial }: { partial: boolean }
+): RuleResult<Partial<RuleInput>> {
+  const input: Partial<RuleInput> = {};
+
+  if (body.name !== undefined || !partial) {
+    if (typeof body.name !== "string" || !body.name.trim()) {
+      return failure("Name is required");
+    }
+    input.name = body.name.trim();
+  }
+
+  if (body.active !== undefined) {
+    if (typeof body.active !== "boolean") {
+      return failure("active must be a boolean");
+    }
+    input.active = body.active;
+  }
+
+  if (body.reportType !== undefined) {
+    if (body.reportType !== null && !isEnumValue(ReportType, body.reportType)) {
+      return failure("reportType must be EMERGENCY, NON_EMERGENCY or null");
+    }
+    input.reportType = body.reportType;
+  }
+
+  if (body.incidentType !== undefined) {
+    if (body.incidentType !== null && !isReportTypeName(body.incidentType)) {
+      return failure("Unknown incident type");
+    }
+    input.incidentType = body.incidentType;
+  }
+
+  if (body.agencyId !== undefined) {
+    if (body.agencyId !== null && typeof body.agencyId !== "string") {
+      return failure("agencyId must be an agency id or null");
+    }
+    input.agencyId = body.agencyId;
+  }
+
+  if (body.minSeverity !== undefined) {
+    if (body.minSeverity !== null && !isEnumValue(Severity, body.minSeverity)) {
+      return failure(`minSeverity must be one of ${SEVERITIES.join(", ")}`);
+    }
+    input.minSeverity = body.minSeverity;
+  }
+
+  if (body.channel !== undefined || !partial) {
+    if (!isEnumValue(NotificationChannel, body.channel)) {
+      return failure("channel must be EMAIL, SMS or WEBHOOK");
+    }
+    input.channel = body.channel;
+  }
+
+  if (body.address !== undefined || !partial) {
+    if (typeof body.address !== "string" || !body.address.trim()) {
+      return failure("Address is required");
+    }
+    input.address = body.address.trim();
+  }
+
+  return { ok: true, value: input };
+}
+
+function isMissingAgency(error: unknown) {
+  return (
+    error instanceof Prisma.PrismaClientKnownRequestError &&
+    error.code === "P2003"
+  );
+}
+
+export async function createRule(
+  input: RuleInput
+): Promise<RuleResult<Rule>> {
+  const invalid = checkAddress(input.channel, input.address);
+  if (invalid) {
+    return failure(invalid);
+  }
+  try {
+    const rule = await prisma.notificationRule.create({
+      data: input,
+      select: ruleSelect,
+    });
+    return { ok: true, value: rule };
+  } catch (error) {
+    if (isMissingAgency(error)) {
+      return failure("Agency not found");
+    }
+    throw error;
+  }
+}
+
+// Applies a partial update. A new channel or address is checked against the
+// other as it will be stored.
+export async function updateRule(
+  id: string,
+  input: Partial<RuleInput>
+): Promise<RuleResult<Rule>> {
+  const rule = await prisma.notificationRule.findUnique({
+    where: { id },
+    select: { channel: true, address: true },
+  });
+  if (!rule) {
+    return failure("Rule not found", 404);
+  }
+
+  const invalid = checkAddress(
+    input.channel ?? rule.channel,
+    input.address ?? rule.address
+  );
+  if (invalid) {
+    return failure(invalid);
+  }
+  try {
+    const updated = await prisma.notificationRule.update({
+      where: { id },
+      data: input,
+      select: ruleSelect,
+    });
+    return { ok: true, value: updated };
+  } catch (error) {
+    if (isMissingAgency(error)) {
+      return failure("Agency not found");
+    }
+    throw error;
+  }
+}
+
+// Whether a new report meets every condition the rule sets. A report that
+// has not been given a severity never meets a minimum severity.
+export function ruleMatches(rule: RuleConditions, report: MatchedReport) {
+  if (rule.reportType && rule.reportType !== report.type) {
+    return false;
+  }
+  if (rule.incidentType && rule.incidentType !== report.reportType) {
+    return false;
+  }
+  if (rule.agencyId && rule.agencyId !== report.agencyId) {
+    return false;
+  }
+  if (rule.minSeverity) {
+    if (
+      !report.severity ||
+      SEVERITIES.indexOf(report.severity) < SEVERITIES.indexOf(rule.minSeverity)
+    ) {
+      return false;
+    }
+  }
+  return true;
+}
@@ -0,0 +1,200 @@
+import {
+  NotificationChannel,
+  NotificationEvent,
+  NotificationStatus,
+  Prisma,
+} from "@prisma/client";
+import prisma from "../prisma";
+import { getChannel } from ".";
+
+// Every notification is stored before it is sent, then delivered in the
+// background. A failed send is retried after RETRY_DELAYS_MS; anything still
+// pending when the server stops is picked up by deliverDueNotifications,
+// which `npm run notifications:deliver` runs.
+
+export interface NotificationDraft {
+  event: NotificationEvent;
+  channel: NotificationChannel;
+  address: string;
+  subject: string;
+  body: string;
+  reportId?: string | null;
+  userId?: number | null;
+  ruleId?: string | null;
+}
+
+// Wait before the second, third and fourth attempt
+const RETRY_DELAYS_MS = [60 * 1000, 5 * 60 * 1000, 30 * 60 * 1000];
+const MAX_ATTEMPTS = RETRY_DELAYS_MS.length + 1;
+// How long a claimed send is left alone before another worker may retry it
+const CLAIM_MS = 5 * 60 * 1000;
+const MAX_ERROR_LENGTH = 500;
+
+export const notificationSelect = {
+  id: true,
+  event: true,
+  channel: true,
+  address: true,
+  subject: true,
+  reportId: true,
+  status: true,
+  attempts: true,
+  lastError: true,
+  nextAttemptAt: true,
+  sentAt: true,
+  createdAt: true,
+  user: { select: { id: true, name: true } },
+  rule: { select: { id: true, name: true } },
+} satisfies Prisma.NotificationSelect;
+
+function errorMessage(error: unknown) {
+  const message = error instanceof Error ? error.message : String(error);
+  return message.slice(0, MAX_ERROR_LENGTH);
+}
+
+// Takes the send for this worker by pushing its next attempt into the
+// future, so the background send and the delivery script never both send it
+async function claim(id: string) {
+  const now = new Date();
+  const { count } = await prisma.notification.updateMany({
+    where: {
+      id,
+      status: NotificationStatus.PENDING,
+      nextAttemptAt: { lte: now },
+    },
+    data: {
+      attempts: { increment: 1 },
+      nextAttemptAt: new Date(now.getTime() + CLAIM_MS),
+    },
+  });
+  if (count === 0) {
+    return null;
+  }
+  return prisma.notification.findUnique({ where: { id } });
+}
+
+// Makes one attempt at a pending notification and records the outcome.
+// Resolves to its status afterwards, or null when it was not due.
+export async function deliverNotification(id: string) {
+  const notification = await claim(id);
+  if (!notification) {
+    return null;
+  }
+
+  const adapter = getChannel(notification.channel);
+  if (!adapter) {
+    // Retrying cannot help until the deployment configures the channel
+    await prisma.notification.update({
+      where: { id },
+      data: {
+        status: NotificationStatus.FAILED,
+        lastError: `${notification.channel} notifications are not configured`,
+      },
+    });
+    return NotificationStatus.FAILED;
+  }
+
+  try {
+    await adapter.send({
+      to: notification.address,
+      subject: notification.subject,
+      body: notification.body,
+      event: notification.event,
+      reportId: notification.reportId,
+    });
+    await prisma.notification.update({
+      where: { id },
+      data: {
+        status: NotificationStatus.SENT,
+        sentAt: new Date(),
+        lastError: null,
+      },
+    });
+    return NotificationStatus.SENT;
+  } catch (error) {
+    const exhausted = notification.attempts >= MAX_ATTEMPTS;
+    await prisma.notification.update({
+      where: { id },
+      data: {
+        status: exhausted
+          ? NotificationStatus.FAILED
+          : NotificationStatus.PENDING,
+        lastError: errorMessage(error),
+        nextAttemptAt: new Date(
+          Date.now() + (RETRY_DELAYS_MS[notification.attempts - 1] ?? 0)
+        ),
+      },
+    });
+    return exhausted ? NotificationStatus.FAILED : NotificationStatus.PENDING;
+  }
+}
+
+async function deliverAll(ids: string[]) {
+  for (const id of ids) {
+    try {
+      await deliverNotification(id);
+    } catch (error) {
+      console.error("Error delivering notification:", error);
+    }
+  }
+}
+
+// Records the notifications and starts sending them without waiting for the
+// channels. Errors are logged rather than thrown.
+export async function dispatchNotifications(drafts: NotificationDraft[]) {
+  if (drafts.length === 0) {
+    return;
+  }
+  try {
+    const created = await prisma.notification.createManyAndReturn({
+      data: drafts,
+      select: { id: true },
+    });
+    void deliverAll(created.map(({ id }) => id));
+  } catch (error) {
+    console.error("Error dispatching notifications:", error);
+  }
+}
+
+// Starts a failed notification over with a fresh set of attempts
+export async function retryNotification(id: string) {
+  const { count } = await prisma.notification.updateMany({
+    where: { id, status: NotificationStatus.FAILED },
+    data: {
+      status: NotificationStatus.PENDING,
+      attempts: 0,
+      nextAttemptAt: new Date(),
+    },
+  });
+  if (count === 0) {
+    return null;
+  }
+  await deliverNotification(id);
+  return prisma.notification.findUnique({
+    where: { id },
+    select: notificationSelect,
+  });
+}
+
+// Attempts every pending notification that is due, oldest first, and
+// counts the outcomes
+export async function deliverDueNotifications({ limit = 100 } = {}) {
+  const due = await prisma.notification.findMany({
+    where: {
+      status: NotificationStatus.PENDING,
+      nextAttemptAt: { lte: new Date() },
+    },
+    select: { id: true },
+    orderBy: { nextAttemptAt: "asc" },
+    take: limit,
+  });
+
+  const counts = { sent: 0, retrying: 0, failed: 0 };
+  for (const { id } of due) {
+    const status = await deliverNotification(id);
+    if (status === NotificationStatus.SENT) counts.sent++;
+    else if (status === NotificationStatus.PENDING) counts.retrying++;
+    else if (status === NotificationStatus.FAILED) counts.failed++;
+  }
+  return counts;
+}
@@ -0,0 +1,33 @@
+import nodemailer from "nodemailer";
+import { ChannelAdapter } from "./types";
+
+interface EmailOptions {
+  host: string;
+  port: number;
+  user?: string;
+  pass?: string;
+  from: string;
+}
+
+// Plain-text email over SMTP. Port 465 uses TLS from the start; other ports
+// upgrade with STARTTLS when the server offers it.
+export function createEmailChannel({
+  host,
+  port,
+  user,
+  pass,
+  from,
+}: EmailOptions): ChannelAdapter {
+  const transport = nodemailer.createTransport({
+    host,
+    port,
+    secure: port === 465,
+    auth: user ? { user, pass } : undefined,
+  });
+
+  return {
+    async send({ to, subject, body }) {
+      await transport.sendMail({ from, to, subject, text: body });
+    },
+  };
+}
@@ -0,0 +1,55 @@
+import { NotificationChannel } from "@prisma/client";
+import { createEmailChannel } from "./email";
+import { createLogSmsProvider, createSmsChannel } from "./sms";
+import { ChannelAdapter } from "./types";
+import { createWebhookChannel } from "./webhook";
+
+export type {
+  ChannelAdapter,
+  OutgoingNotification,
+  SmsProvider,
+} from "./types";
+
+const channels: Partial<Record<NotificationChannel, ChannelAdapter | null>> =
+  {};
+
+function createChannel(channel: NotificationChannel): ChannelAdapter | null {
+  switch (channel) {
+    case NotificationChannel.EMAIL:
+      // Email stays off until an SMTP server is configured
+      if (!process.env.SMTP_HOST) {
+        return null;
+      }
+      return createEmailChannel({
+        host: process.env.SMTP_HOST,
+        port: Number(process.env.SMTP_PORT) || 587,
+        user: process.env.SMTP_USER || undefined,
+        pass: process.env.SMTP_PASS || undefined,
+        from: process.env.SMTP_FROM || "Hidden Help <no-reply@localhost>",
+      });
+    case NotificationChannel.WEBHOOK:
+      return createWebhookChannel();
+    case NotificationChannel.SMS: {
+      const provider = process.env.SMS_PROVIDER || "log";
+      switch (provider) {
+        case "log":
+          return createSmsChannel(createLogSmsProvider());
+        default:
+          // Treated as unconfigured so queued texts fail instead of being
+          // retried forever
+          console.error(`Unknown SMS_PROVIDER: ${provider}`);
+          return null;
+      }
+    }
+  }
+}
+
+// The adapter for a channel, or null when the deployment has not configured
+// it. SMS goes through SMS_PROVIDER ("log" by default); an unknown provider
+// leaves SMS unconfigured.
+export function getChannel(channel: NotificationChannel): ChannelAdapter | null {
+  if (!(channel in channels)) {
+    channels[channel] = createChannel(channel);
+  }
+  return channels[channel] ?? null;
+}
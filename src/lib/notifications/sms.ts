@@ -0,0 +1,20 @@
+import { ChannelAdapter, SmsProvider } from "./types";
+
+// Prints messages instead of sending them, for development and for
+// deployments that have not set up a gateway yet
+export function createLogSmsProvider(): SmsProvider {
+  return {
+    async sendSms(to, text) {
+      console.log(`[sms] to ${to}: ${text}`);
+    },
+  };
+}
+
+// Text messages carry the subject and body on separate lines
+export function createSmsChannel(provider: SmsProvider): ChannelAdapter {
+  return {
+    async send({ to, subject, body }) {
+      await provider.sendSms(to, `${subject}\n${body}`);
+    },
+  };
+}
@@ -0,0 +1,21 @@
+// A notification ready to go out on one channel. Adapters deliver it or
+// throw; the dispatcher records the outcome and schedules any retry.
+export interface OutgoingNotification {
+  // An email address, phone number or webhook URL, depending on the channel
+  to: string;
+  subject: string;
+  body: string;
+  event: string;
+  // The report's public reportId, when the notification is about one
+  reportId: string | null;
+}
+
+export interface ChannelAdapter {
+  send(notification: OutgoingNotification): Promise<void>;
+}
+
+// Text message gateways. Only a log-only stub ships; a real provider
+// implements this and is picked in getChannel.
+export interface SmsProvider {
+  sendSms(to: string, text: string): Promise<void>;
+}
@@ -0,0 +1,20 @@
+import { ChannelAdapter } from "./types";
+
+const TIMEOUT_MS = 10000;
+
+// POSTs the notification as JSON. Any 2xx response counts as delivered.
+export function createWebhookChannel(): ChannelAdapter {
+  return {
+    async send({ to, subject, body, event, reportId }) {
+      const response = await fetch(to, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ event, reportId, subject, body }),
+        signal: AbortSignal.timeout(TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`Webhook responded with ${response.status}`);
+      }
+    },
+  };
+}
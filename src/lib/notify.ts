@@ -0,0 +1,320 @@
+import {
+  NotificationChannel,
+  NotificationEvent,
+  Prisma,
+  ReportType,
+  Role,
+} from "@prisma/client";
+import prisma from "./prisma";
+import type { Actor } from "./authorize";
+import { Permission, hasPermission } from "./permissions";
+import { STAFF_ROLES } from "./assignments";
+import { PHONE_PATTERN, ruleMatches } from "./notification-rules";
+import {
+  NotificationDraft,
+  dispatchNotifications,
+} from "./notifications/dispatcher";
+
+// Who is told about what. Staff hear about emergencies in their queue,
+// reports assigned to them and notes that mention them, on the channels they
+// pick; routing rules add fixed addresses for new reports. Nobody is told
+// about their own actions. Like routing, none of this throws: a failure to
+// notify never fails the change that caused it.
+
+type PreferenceFailure = { ok: false; error: string; status: 400 | 404 };
+type PreferenceResult<T> = { ok: true; value: T } | PreferenceFailure;
+
+export const USER_EVENTS = [
+  NotificationEvent.EMERGENCY_REPORT,
+  NotificationEvent.REPORT_ASSIGNED,
+  NotificationEvent.NOTE_MENTION,
+] as const;
+export type UserEvent = (typeof USER_EVENTS)[number];
+
+// Webhooks are for systems, so staff only choose between these
+export const USER_CHANNELS: NotificationChannel[] = [
+  NotificationChannel.EMAIL,
+  NotificationChannel.SMS,
+];
+const DEFAULT_CHANNELS: NotificationChannel[] = [NotificationChannel.EMAIL];
+
+const VIEW_ALL_ROLES = Object.values(Role).filter((role) =>
+  hasPermission(role, Permission.VIEW_ALL_REPORTS)
+);
+
+export interface NotificationPreferences {
+  phone: string | null;
+  events: Record<UserEvent, NotificationChannel[]>;
+}
+
+type Message = Pick<NotificationDraft, "subject" | "body" | "reportId">;
+
+function failure(
+  error: string,
+  status: 400 | 404 = 400
+): PreferenceFailure {
+  return { ok: false, error, status };
+}
+
+function isUserEvent(value: string): value is UserEvent {
+  return USER_EVENTS.includes(value as UserEvent);
+}
+
+// Absolute when NEXTAUTH_URL is set, as it must be in production
+function reportLink(reportId: string) {
+  const base = (process.env.NEXTAUTH_URL || "").replace(/\/$/, "");
+  return `${base}/dashboard/reports/${reportId}`;
+}
+
+// One draft per channel each active staff member matching `where` has chosen
+// for the event. Channels they have no address for are skipped.
+async function staffDrafts(
+  where: Prisma.UserWhereInput,
+  event: UserEvent,
+  message: Message
+): Promise<NotificationDraft[]> {
+  const users = await prisma.user.findMany({
+    where: { ...where, active: true, role: { in: STAFF_ROLES } },
+    select: {
+      id: true,
+      email: true,
+      phone: true,
+      notificationPreferences: {
+        where: { event },
+        select: { channels: true },
+      },
+    },
+  });
+
+  return users.flatMap((user) => {
+    const channels =
+      user.notificationPreferences[0]?.channels ?? DEFAULT_CHANNELS;
+    return channels.flatMap((channel) => {
+      const address =
+        channel === NotificationChannel.EMAIL
+          ? user.email
+          : channel === NotificationChannel.SMS
+            ? user.phone
+            : null;
+      return address
+        ? [{ event, channel, address, userId: user.id, ...message }]
+        : [];
+    });
+  });
+}
+
+// Tells the staff who can see a new emergency, and every address whose
+// routing rule matches the report. Runs after triage and routing, so rules
+// can look at the report's severity and agency.
+export async function notifyReportCreated(reportId: string) {
+  try {
+    const report = await prisma.report.findUnique({
+      where: { reportId },
+      select: {
+        reportId: true,
+        type: true,
+        reportType: true,
+        title: true,
+        location: true,
+        severity: true,
+        agencyId: true,
+        agency: { select: { name: true } },
+      },
+    });
+    if (!report) return;
+
+    const emergency = report.type === ReportType.EMERGENCY;
+    const message: Message = {
+      reportId,
+      subject: `${emergency ? "EMERGENCY" : "New report"}: ${report.reportType} - ${report.title}`,
+      body: [
+        `${report.title} (${report.reportId})`,
+        `Type: ${emergency ? "Emergency" : "Non-emergency"}, ${report.reportType}`,
+        `Severity: ${report.severity ?? "not set"}`,
+        `Location: ${report.location || "not given"}`,
+        `Agency: ${report.agency?.name ?? "unrouted"}`,
+        "",
+        reportLink(reportId),
+      ].join("\n"),
+    };
+
+    const drafts = emergency
+      ? await staffDrafts(
+          {
+            OR: [
+              { agencyId: report.agencyId },
+              { role: { in: VIEW_ALL_ROLES } },
+            ],
+          },
+          NotificationEvent.EMERGENCY_REPORT,
+          message
+        )
+      : [];
+
+    const rules = await prisma.notificationRule.findMany({
+      where: { active: true },
+    });
+    for (const rule of rules) {
+      if (ruleMatches(rule, report)) {
+        drafts.push({
+          event: NotificationEvent.ROUTING_RULE,
+          channel: rule.channel,
+          address: rule.address,
+          ruleId: rule.id,
+          ...message,
+        });
+      }
+    }
+
+    await dispatchNotifications(drafts);
+  } catch (error) {
+    console.error("Error notifying about new report:", error);
+  }
+}
+
+// Tells a staff member a report has been handed to them
+export async function notifyAssigned(
+  reportId: string,
+  assigneeId: number | null,
+  actor: Actor
+) {
+  if (assigneeId === null || assigneeId === actor.id) return;
+  try {
+    const report = await prisma.report.findUnique({
+      where: { reportId },
+      select: { title: true },
+    });
+    if (!report) return;
+
+    await dispatchNotifications(
+      await staffDrafts(
+        { id: assigneeId },
+        NotificationEvent.REPORT_ASSIGNED,
+        {
+          reportId,
+          subject: `Assigned to you: ${report.title}`,
+          body: `${actor.name} assigned report ${reportId} to you.\n\n${reportLink(reportId)}`,
+        }
+      )
+    );
+  } catch (error) {
+    console.error("Error notifying assignee:", error);
+  }
+}
+
+// Tells staff a note mentions them. The note itself stays in the case file.
+export async function notifyMentioned(
+  reportId: string,
+  userIds: number[],
+  actor: Actor
+) {
+  const recipients = userIds.filter((id) => id !== actor.id);
+  if (recipients.length === 0) return;
+  try {
+    await dispatchNotifications(
+      await staffDrafts(
+        { id: { in: recipients } },
+        NotificationEvent.NOTE_MENTION,
+        {
+          reportId,
+          subject: `${actor.name} mentioned you on report ${reportId}`,
+          body: `${actor.name} mentioned you in a case note.\n\n${reportLink(reportId)}`,
+        }
+      )
+    );
+  } catch (error) {
+    console.error("Error notifying mentioned staff:", error);
+  }
+}
+
+// The channels a staff member has chosen for each event, with email for
+// any they have not set
+export async function getPreferences(
+  userId: number
+): Promise<NotificationPreferences | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      phone: true,
+      notificationPreferences: { select: { event: true, channels: true } },
+    },
+  });
+  if (!user) {
+    return null;
+  }
+
+  const events = Object.fromEntries(
+    USER_EVENTS.map((event) => [
+      event,
+      user.notificationPreferences.find((pref) => pref.event === event)
+        ?.channels ?? DEFAULT_CHANNELS,
+    ])
+  ) as NotificationPreferences["events"];
+  return { phone: user.phone, events };
+}
+
+// Saves a phone number (null or "" clears it) and channels for any of the
+// events. SMS can only be chosen while a phone number is on file.
+export async function updatePreferences(
+  userId: number,
+  body: Record<string, unknown>
+): Promise<PreferenceResult<NotificationPreferences>> {
+  const current = await getPreferences(userId);
+  if (!current) {
+    return failure("User not found", 404);
+  }
+
+  let phone = current.phone;
+  if (body.phone !== undefined) {
+    if (body.phone !== null && typeof body.phone !== "string") {
+      return failure("phone must be a string or null");
+    }
+    phone = body.phone?.replace(/[\s()-]/g, "") || null;
+    if (phone && !PHONE_PATTERN.test(phone)) {
+      return failure(
+        "Phone numbers must be in international form, e.g. +15550100"
+      );
+    }
+  }
+
+  const updates: [UserEvent, NotificationChannel[]][] = [];
+  if (body.events !== undefined) {
+    if (typeof body.events !== "object" || body.events === null) {
+      return failure("events must map events to lists of channels");
+    }
+    for (const [event, channels] of Object.entries(body.events)) {
+      if (!isUserEvent(event)) {
+        return failure(`Unknown notification event: ${event}`);
+      }
+      if (
+        !Array.isArray(channels) ||
+        !channels.every((channel) => USER_CHANNELS.includes(channel))
+      ) {
+        return failure(`Channels must be chosen from ${USER_CHANNELS.join(", ")}`);
+      }
+      updates.push([event, Array.from(new Set(channels))]);
+    }
+  }
+
+  const events = { ...current.events, ...Object.fromEntries(updates) };
+  if (
+    !phone &&
+    Object.values(events).some((channels) =>
+      channels.includes(NotificationChannel.SMS)
+    )
+  ) {
+    return failure("Add a phone number to receive text messages");
+  }
+
+  await prisma.$transaction([
+    prisma.user.update({ where: { id: userId }, data: { phone } }),
+    ...updates.map(([event, channels]) =>
+      prisma.notificationPreference.upsert({
+        where: { userId_event: { userId, event } },
+        create: { userId, event, channels },
+        update: { channels },
+      })
+    ),
+  ]);
+  return { ok: true, value: { phone, events } };
+}
@@ -0,0 +1,10 @@
+// Shared by the tracker in the browser and the API routes, so it must not
+// import anything server-only.
+
+// Header carrying the reporter's passphrase. A header rather than a query
+// parameter keeps it out of URLs, browser history and access logs.
+export const PASSPHRASE_HEADER = "x-report-passphrase";
+
+export function normalizePassphrase(passphrase: string) {
+  return passphrase.toLowerCase().replace(/[\s-]/g, "");
+}
@@ -0,0 +1,46 @@
+import { Role } from "@prisma/client";
+
+// Actions a signed-in account can be allowed to perform. Routes check one of
+// these rather than comparing roles directly, so changing who may do what only
+// ever touches ROLE_PERMISSIONS below.
+export enum Permission {
+  VIEW_REPORTS = "VIEW_REPORTS",
+  CHANGE_STATUS = "CHANGE_STATUS",
+  EDIT_REPORTS = "EDIT_REPORTS",
+  MESSAGE_REPORTERS = "MESSAGE_REPORTERS",
+  DELETE_REPORTS = "DELETE_REPORTS",
+  EXPORT_REPORTS = "EXPORT_REPORTS",
+  MANAGE_USERS = "MANAGE_USERS",
+  // See every agency's queue rather than only the actor's own
+  VIEW_ALL_REPORTS = "VIEW_ALL_REPORTS",
+  // Assign reports to other staff; anyone who can change status may claim
+  ASSIGN_REPORTS = "ASSIGN_REPORTS",
+  // Set up agencies and move reports between their queues
+  MANAGE_AGENCIES = "MANAGE_AGENCIES",
+  // Set up notification routing rules and read the delivery log
+  MANAGE_NOTIFICATIONS = "MANAGE_NOTIFICATIONS",
+  // Subscribe outside systems to report events and replay deliveries
+  MANAGE_WEBHOOKS = "MANAGE_WEBHOOKS",
+}
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  [Role.ADMIN]: Object.values(Permission),
+  [Role.MODERATOR]: [
+    Permission.VIEW_REPORTS,
+    Permission.CHANGE_STATUS,
+    Permission.EDIT_REPORTS,
+    Permission.MESSAGE_REPORTERS,
+  ],
+  // Plain accounts have no staff access at all
+  [Role.USER]: [],
+};
+
+export function hasPermission(
+  role: string | null | undefined,
+  permission: Permission
+): boolean {
+  if (!role || !(role in ROLE_PERMISSIONS)) {
+    return false;
+  }
+  return ROLE_PERMISSIONS[role as Role].includes(permission);
+}
@@ -2,6 +2,8 @@ import { PrismaClient } from "@prisma/client";
 
 // Declare global variable for PrismaClient
 declare global {
+  // Globals can only be declared with var
+  // eslint-disable-next-line no-var
   var prisma: PrismaClient | undefined;
 }
 
@@ -0,0 +1,46 @@
+// Fixed-window rate limiting held in memory. Like the report stream it is
+// per server process, which is enough to keep one client from hammering an
+// endpoint.
+
+type RateLimitResult = { ok: true } | { ok: false; retryAfterSeconds: number };
+
+interface RateLimiterOptions {
+  // Requests allowed per key within each window
+  limit: number;
+  windowMs: number;
+}
+
+// Expired windows are swept once this many keys are tracked
+const SWEEP_THRESHOLD = 10000;
+
+export function createRateLimiter({ limit, windowMs }: RateLimiterOptions) {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  const sweep = (now: number) => {
+    windows.forEach((window, key) => {
+      if (window.resetAt <= now) windows.delete(key);
+    });
+  };
+
+  return {
+    // Counts one request for the key, or says how long until it may retry
+    take(key: string): RateLimitResult {
+      const now = Date.now();
+      if (windows.size >= SWEEP_THRESHOLD) sweep(now);
+
+      let window = windows.get(key);
+      if (!window || window.resetAt <= now) {
+        window = { count: 0, resetAt: now + windowMs };
+        windows.set(key, window);
+      }
+      if (window.count >= limit) {
+        return {
+          ok: false,
+          retryAfterSeconds: Math.ceil((window.resetAt - now) / 1000),
+        };
+      }
+      window.count++;
+      return { ok: true };
+    },
+  };
+}
@@ -0,0 +1,58 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  checkReportAccess,
+  generatePassphrase,
+  hashPassphrase,
+} from "./report-access";
+import { PASSPHRASE_HEADER } from "./passphrase";
+
+function requestWith(passphrase?: string) {
+  return new Request("http://localhost/api/reports/HH/details", {
+    headers: passphrase ? { [PASSPHRASE_HEADER]: passphrase } : {},
+  });
+}
+
+describe("generatePassphrase", () => {
+  it("issues four groups of five unambiguous characters", () => {
+    const passphrase = generatePassphrase();
+    const group = "[2-9a-hjkmnp-tv-z]{5}";
+    assert.match(passphrase, new RegExp(`^(${group}-){3}${group}$`));
+    assert.notEqual(generatePassphrase(), passphrase);
+  });
+});
+
+describe("checkReportAccess", () => {
+  it("grants the passphrase however it is typed", async () => {
+    const passphrase = generatePassphrase();
+    const hash = await hashPassphrase(passphrase);
+
+    const retyped = passphrase.toUpperCase().replace(/-/g, " ");
+    for (const typed of [passphrase, retyped]) {
+      assert.equal(
+        await checkReportAccess(requestWith(typed), hash),
+        "granted"
+      );
+    }
+  });
+
+  it("denies any other passphrase", async () => {
+    const hash = await hashPassphrase(generatePassphrase());
+    assert.equal(
+      await checkReportAccess(requestWith(generatePassphrase()), hash),
+      "denied"
+    );
+  });
+
+  it("denies reports created without a passphrase", async () => {
+    assert.equal(
+      await checkReportAccess(requestWith(generatePassphrase()), null),
+      "denied"
+    );
+  });
+
+  it("treats a request without a passphrase as a status lookup", async () => {
+    const hash = await hashPassphrase(generatePassphrase());
+    assert.equal(await checkReportAccess(requestWith(), hash), "missing");
+  });
+});
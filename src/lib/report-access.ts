@@ -0,0 +1,45 @@
+import crypto from "crypto";
+import bcrypt from "bcryptjs";
+import { PASSPHRASE_HEADER, normalizePassphrase } from "./passphrase";
+
+const ALPHABET = "23456789abcdefghjkmnpqrstvwxyz";
+const GROUPS = 4;
+const GROUP_SIZE = 5;
+
+// Roughly 98 bits of entropy, grouped for readability: "k7mq2-xvp9a-..."
+export function generatePassphrase(): string {
+  const groups = [];
+  for (let g = 0; g < GROUPS; g++) {
+    let group = "";
+    for (let i = 0; i < GROUP_SIZE; i++) {
+      group += ALPHABET[crypto.randomInt(ALPHABET.length)];
+    }
+    groups.push(group);
+  }
+  return groups.join("-");
+}
+
+export function hashPassphrase(passphrase: string) {
+  return bcrypt.hash(normalizePassphrase(passphrase), 10);
+}
+
+export type ReportAccess = "granted" | "denied" | "missing";
+
+// Checks the passphrase sent with a request against the report's stored hash.
+// "missing" means no passphrase was sent at all, which callers treat as a
+// status-only lookup rather than a failed attempt.
+export async function checkReportAccess(
+  request: Request,
+  accessHash: string | null
+): Promise<ReportAccess> {
+  const passphrase = request.headers.get(PASSPHRASE_HEADER);
+  if (!passphrase) {
+    return "missing";
+  }
+  if (!accessHash) {
+    return "denied";
+  }
+  return (await bcrypt.compare(normalizePassphrase(passphrase), accessHash))
+    ? "granted"
+    : "denied";
+}
@@ -0,0 +1,72 @@
+import { Prisma, ReportEventType } from "@prisma/client";
+
+type Client = Prisma.TransactionClient;
+
+export interface ReportEventInput {
+  reportId: string;
+  type: ReportEventType;
+  field?: string;
+  oldValue?: string | null;
+  newValue?: string | null;
+  note?: string | null;
+  actorId?: number | null;
+}
+
+export function recordReportEvent(client: Client, event: ReportEventInput) {
+  return client.reportEvent.create({
+    data: {
+      reportId: event.reportId,
+      type: event.type,
+      field: event.field ?? null,
+      oldValue: event.oldValue ?? null,
+      newValue: event.newValue ?? null,
+      note: event.note ?? null,
+      actorId: event.actorId ?? null,
+    },
+  });
+}
+
+// Event types a reporter may see. Assignments and edits name staff or expose
+// internal handling, so they only appear in the dashboard history.
+export const PUBLIC_EVENT_TYPES: ReportEventType[] = [
+  "CREATED",
+  "STATUS_CHANGED",
+  "MERGED",
+  "UNMERGED",
+];
+
+// Merge events name the other report, whose tracking code belongs to another
+// reporter; reporters only learn that a merge happened.
+export function toPublicEvent<
+  T extends {
+    type: ReportEventType;
+    oldValue: string | null;
+    newValue: string | null;
+  },
+>(event: T): T {
+  return event.type === "MERGED" || event.type === "UNMERGED"
+    ? { ...event, oldValue: null, newValue: null }
+    : event;
+}
+
+export const publicEventSelect = {
+  id: true,
+  type: true,
+  field: true,
+  oldValue: true,
+  newValue: true,
+  createdAt: true,
+} satisfies Prisma.ReportEventSelect;
+
+export const internalEventSelect = {
+  id: true,
+  type: true,
+  field: true,
+  oldValue: true,
+  newValue: true,
+  note: true,
+  createdAt: true,
+  actor: {
+    select: { id: true, name: true, email: true },
+  },
+} satisfies Prisma.ReportEventSelect;
@@ -0,0 +1,141 @@
+import { Prisma } from "@prisma/client";
+import prisma from "./prisma";
+
+// Paging, ordering, date range and full-text search for the staff report
+// list. Pages are fetched with a cursor, the id of the last report on the
+// previous page, so new reports arriving while staff scroll never shift or
+// repeat entries.
+//
+//   sort=newest|oldest|priority|severity|status
+//   limit=1-100&cursor=<id of the last report>
+//   from=2025-01-01&to=2025-01-31   (dates in UTC; a bare `to` date is inclusive)
+//   q=burst pipe                    (websearch syntax: "quotes", -exclude, or)
+
+export type ReportSort = "newest" | "oldest" | "priority" | "severity" | "status";
+
+export interface ReportQuery {
+  sort: ReportSort;
+  limit: number;
+  cursor: string | null;
+  from: Date | null;
+  to: Date | null;
+  search: string | null;
+}
+
+type ReportQueryResult =
+  | { ok: true; value: ReportQuery }
+  | { ok: false; error: string };
+
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+const MAX_SEARCH_LENGTH = 200;
+// Searches consider this many of the best matches
+const MAX_SEARCH_MATCHES = 1000;
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+// Every order ends on id so reports with equal keys keep a stable position
+// across pages. Untriaged reports sort after triaged ones.
+const SORT_ORDERS: Record<ReportSort, Prisma.ReportOrderByWithRelationInput[]> =
+  {
+    newest: [{ createdAt: "desc" }, { id: "desc" }],
+    oldest: [{ createdAt: "asc" }, { id: "asc" }],
+    priority: [
+      { priorityScore: { sort: "desc", nulls: "last" } },
+      { createdAt: "desc" },
+      { id: "desc" },
+    ],
+    severity: [
+      { severity: { sort: "desc", nulls: "last" } },
+      { priorityScore: { sort: "desc", nulls: "last" } },
+      { createdAt: "desc" },
+      { id: "desc" },
+    ],
+    status: [{ status: "asc" }, { createdAt: "desc" }, { id: "desc" }],
+  };
+
+function failure(error: string): ReportQueryResult {
+  return { ok: false, error };
+}
+
+function isReportSort(value: string): value is ReportSort {
+  return value in SORT_ORDERS;
+}
+
+function parseDate(value: string | null, { endOfDay = false } = {}) {
+  if (value === null) return null;
+  const date = new Date(DATE_ONLY.test(value) ? `${value}T00:00:00Z` : value);
+  if (Number.isNaN(date.getTime())) return undefined;
+  if (endOfDay && DATE_ONLY.test(value)) {
+    date.setUTCDate(date.getUTCDate() + 1);
+  }
+  return date;
+}
+
+export function parseReportQuery(params: URLSearchParams): ReportQueryResult {
+  const sort = params.get("sort") ?? "newest";
+  if (!isReportSort(sort)) {
+    return failure(`sort must be one of ${Object.keys(SORT_ORDERS).join(", ")}`);
+  }
+
+  const limit = Number(params.get("limit") ?? DEFAULT_PAGE_SIZE);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return failure(`limit must be between 1 and ${MAX_PAGE_SIZE}`);
+  }
+
+  const from = parseDate(params.get("from"));
+  // A bare date covers the whole day, so `to` is exclusive of the next one
+  const to = parseDate(params.get("to"), { endOfDay: true });
+  if (from === undefined || to === undefined) {
+    return failure("from and to must be dates, e.g. 2025-01-31");
+  }
+  if (from && to && from >= to) {
+    return failure("from must be before to");
+  }
+
+  const search = params.get("q")?.trim() || null;
+  if (search && search.length > MAX_SEARCH_LENGTH) {
+    return failure(`q must be at most ${MAX_SEARCH_LENGTH} characters`);
+  }
+
+  return {
+    ok: true,
+    value: {
+      sort,
+      limit,
+      cursor: params.get("cursor") || null,
+      from,
+      to,
+      search,
+    },
+  };
+}
+
+export function reportOrderBy(sort: ReportSort) {
+  return SORT_ORDERS[sort];
+}
+
+export function dateRangeWhere({
+  from,
+  to,
+}: Pick<ReportQuery, "from" | "to">): Prisma.ReportWhereInput {
+  if (!from && !to) return {};
+  return {
+    createdAt: {
+      ...(from && { gte: from }),
+      ...(to && { lt: to }),
+    },
+  };
+}
+
+// Ids of the reports whose title, description or location match the search,
+// most relevant first. Backed by the GIN index on Report.searchVector.
+export async function searchReportIds(search: string) {
+  const rows = await prisma.$queryRaw<{ id: string }[]>`
+    SELECT "id" FROM "Report"
+    WHERE "searchVector" @@ websearch_to_tsquery('english', ${search})
+    ORDER BY ts_rank("searchVector", websearch_to_tsquery('english', ${search})) DESC
+    LIMIT ${MAX_SEARCH_MATCHES}
+  `;
+  return rows.map(({ id }) => id);
+}
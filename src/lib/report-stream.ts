@@ -0,0 +1,143 @@
+import { EventEmitter } from "events";
+import { Prisma } from "@prisma/client";
+import prisma from "./prisma";
+import type { Actor } from "./authorize";
+import { Permission, hasPermission } from "./permissions";
+import { reportSelect } from "./reports";
+import { messageSelect } from "./messages";
+
+// Live report changes for the staff dashboard, and the messages staff send
+// reporters. Routes publish after a change is committed and every open
+// stream picks out what its subscriber may see.
+// Events travel within one server process, so deployments running several
+// instances need sticky sessions for the dashboard to see every change.
+
+export type ReportStreamEventType =
+  | "report.created"
+  | "report.updated"
+  | "report.assigned"
+  | "report.removed";
+
+type StreamReport = Prisma.ReportGetPayload<{ select: typeof reportSelect }>;
+
+export interface ReportStreamEvent {
+  type: ReportStreamEventType;
+  reportId: string;
+  // The queue the report is in now, and the one it left if it moved
+  agencyId: string | null;
+  previousAgencyId?: string | null;
+  // The report as the list shows it; null once it has been removed
+  report: StreamReport | null;
+}
+
+export interface ReportMessageEvent {
+  reportId: string;
+  message: Prisma.ReportMessageGetPayload<{ select: typeof messageSelect }>;
+}
+
+const EVENT = "report";
+const MESSAGE_EVENT = "message";
+
+// Kept on globalThis in development so hot reloads share one emitter
+const globalForStream = globalThis as { reportStream?: EventEmitter };
+const emitter = globalForStream.reportStream ?? new EventEmitter();
+emitter.setMaxListeners(0);
+if (process.env.NODE_ENV !== "production") {
+  globalForStream.reportStream = emitter;
+}
+
+function canSeeQueue(actor: Actor, agencyId: string | null | undefined) {
+  return (
+    hasPermission(actor.role, Permission.VIEW_ALL_REPORTS) ||
+    actor.agencyId === agencyId
+  );
+}
+
+// Publishes the current state of a report. Like routing it never throws; a
+// dashboard that misses an event catches up on its next reload.
+export async function publishReportEvent(
+  type: Exclude<ReportStreamEventType, "report.removed">,
+  reportId: string,
+  { previousAgencyId }: { previousAgencyId?: string | null } = {}
+) {
+  try {
+    const report = await prisma.report.findUnique({
+      where: { reportId },
+      select: reportSelect,
+    });
+    if (!report) return;
+
+    emitter.emit(EVENT, {
+      type,
+      reportId,
+      agencyId: report.agency?.id ?? null,
+      previousAgencyId,
+      report,
+    } satisfies ReportStreamEvent);
+  } catch (error) {
+    console.error("Error publishing report event:", error);
+  }
+}
+
+export function publishReportRemoved(
+  reportId: string,
+  agencyId: string | null
+) {
+  emitter.emit(EVENT, {
+    type: "report.removed",
+    reportId,
+    agencyId,
+    report: null,
+  } satisfies ReportStreamEvent);
+}
+
+// What a subscriber receives for an event, or null when it is outside their
+// jurisdiction. Staff whose queue a report just left are told it is gone.
+export function eventFor(
+  actor: Actor,
+  event: ReportStreamEvent
+): ReportStreamEvent | null {
+  if (canSeeQueue(actor, event.agencyId)) {
+    return event;
+  }
+  if (
+    event.previousAgencyId !== undefined &&
+    canSeeQueue(actor, event.previousAgencyId)
+  ) {
+    return {
+      type: "report.removed",
+      reportId: event.reportId,
+      agencyId: event.previousAgencyId,
+      report: null,
+    };
+  }
+  return null;
+}
+
+export function subscribeToReports(
+  listener: (event: ReportStreamEvent) => void
+) {
+  emitter.on(EVENT, listener);
+  return () => {
+    emitter.off(EVENT, listener);
+  };
+}
+
+export function publishReportMessage(
+  reportId: string,
+  message: ReportMessageEvent["message"]
+) {
+  emitter.emit(MESSAGE_EVENT, {
+    reportId,
+    message,
+  } satisfies ReportMessageEvent);
+}
+
+export function subscribeToMessages(
+  listener: (event: ReportMessageEvent) => void
+) {
+  emitter.on(MESSAGE_EVENT, listener);
+  return () => {
+    emitter.off(MESSAGE_EVENT, listener);
+  };
+}
@@ -0,0 +1,16 @@
+// Specific incident types a reporter can pick. Stored as plain text in
+// Report.reportType, so older reports may hold values outside this list.
+export const REPORT_TYPES = [
+  "Theft",
+  "Fire Outbreak",
+  "Medical Emergency",
+  "Natural Disaster",
+  "Violence",
+  "Other",
+] as const;
+
+export type ReportTypeName = (typeof REPORT_TYPES)[number];
+
+export function isReportTypeName(value: unknown): value is ReportTypeName {
+  return REPORT_TYPES.includes(value as ReportTypeName);
+}
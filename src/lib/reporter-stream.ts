@@ -0,0 +1,110 @@
+import prisma from "./prisma";
+import type { SendEvent } from "./sse";
+import { subscribeToMessages, subscribeToReports } from "./report-stream";
+
+// The reporter's live view of their own report: its status and, once the
+// passphrase has been given, the agency's messages. Nothing else about the
+// report is sent, so internal notes, assignees and history notes never
+// reach this stream.
+//
+//   event: status    data: { "status": "IN_PROGRESS", "updatedAt": "..." }
+//   event: message   data: { "id": "...", "sender": "AGENCY", ... }
+//   event: removed   data: {}
+
+interface WatchedReport {
+  // Internal id, which report events identify parents by
+  id: string;
+  reportId: string;
+  status: string;
+  parentId: string | null;
+}
+
+// Open streams per report. A tracker page needs one; a few allow for the
+// reporter having the page open on more than one device. Status-only streams
+// need nothing but the public tracking code, so they are counted apart from
+// the reporter's and can never use up the reporter's slots. The same key
+// separates their connection rate limits.
+const MAX_STREAMS_PER_REPORT = 3;
+const openStreams = new Map<string, number>();
+
+export function streamKey(reportId: string, withMessages: boolean) {
+  return `${reportId}:${withMessages ? "reporter" : "status"}`;
+}
+
+// Claims a stream slot for the report, or returns false when all are in use
+export function acquireStream(reportId: string, withMessages: boolean) {
+  const key = streamKey(reportId, withMessages);
+  const open = openStreams.get(key) ?? 0;
+  if (open >= MAX_STREAMS_PER_REPORT) {
+    return false;
+  }
+  openStreams.set(key, open + 1);
+  return true;
+}
+
+function releaseStream(reportId: string, withMessages: boolean) {
+  const key = streamKey(reportId, withMessages);
+  const open = (openStreams.get(key) ?? 1) - 1;
+  if (open > 0) {
+    openStreams.set(key, open);
+  } else {
+    openStreams.delete(key);
+  }
+}
+
+// Sends the current status straight away, so a reconnecting tracker is back
+// in step, and then every change. A merged report's status follows its
+// incident, so changes to the parent are watched as well.
+export function watchReport(
+  report: WatchedReport,
+  { withMessages }: { withMessages: boolean },
+  send: SendEvent
+) {
+  let { status, parentId } = report;
+  send("status", { status });
+
+  const refresh = async () => {
+    try {
+      const current = await prisma.report.findUnique({
+        where: { id: report.id },
+        select: { status: true, parentId: true, updatedAt: true },
+      });
+      if (!current) {
+        send("removed", {});
+        return;
+      }
+      parentId = current.parentId;
+      if (current.status !== status) {
+        status = current.status;
+        send("status", { status, updatedAt: current.updatedAt });
+      }
+    } catch (error) {
+      console.error("Error refreshing watched report:", error);
+    }
+  };
+
+  const unsubscribeReports = subscribeToReports((event) => {
+    if (event.reportId === report.reportId) {
+      if (event.type === "report.removed") {
+        send("removed", {});
+      } else {
+        refresh();
+      }
+    } else if (parentId && event.report?.id === parentId) {
+      refresh();
+    }
+  });
+  const unsubscribeMessages = withMessages
+    ? subscribeToMessages((event) => {
+        if (event.reportId === report.reportId) {
+          send("message", event.message);
+        }
+      })
+    : () => {};
+
+  return () => {
+    unsubscribeReports();
+    unsubscribeMessages();
+    releaseStream(report.reportId, withMessages);
+  };
+}
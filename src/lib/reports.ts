@@ -0,0 +1,279 @@
+import { Prisma, Report, Severity } from "@prisma/client";
+import prisma from "./prisma";
+import { recordReportEvent } from "./report-events";
+import { Permission } from "./permissions";
+import { generateTrackingCode } from "./tracking-code";
+import { attachmentSelect, unclaimedUploadCutoff } from "./attachments";
+import { encodeGeohash } from "./geo";
+import { assigneeSelect } from "./assignments";
+import { getWorkflow, isStatus } from "./workflow";
+
+// How many fresh tracking codes to try before giving up on a collision
+const MAX_TRACKING_CODE_ATTEMPTS = 5;
+
+export type NewReport = Omit<
+  Prisma.ReportUncheckedCreateInput,
+  "id" | "reportId" | "status" | "createdAt" | "updatedAt"
+>;
+
+function isUniqueViolation(error: unknown) {
+  return (
+    error instanceof Prisma.PrismaClientKnownRequestError &&
+    error.code === "P2002"
+  );
+}
+
+// Stores a new report under a server-issued tracking code, claims the
+// uploaded attachments that are neither part of another report nor expired,
+// and records its creation in the audit trail.
+export async function createReport(
+  data: NewReport,
+  attachmentIds: string[] = []
+) {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const created = await tx.report.create({
+          data: {
+            ...data,
+            reportId: generateTrackingCode(),
+            status: getWorkflow().initial,
+            geohash:
+              data.latitude != null && data.longitude != null
+                ? encodeGeohash({
+                    latitude: data.latitude,
+                    longitude: data.longitude,
+                  })
+                : null,
+          },
+        });
+
+        if (attachmentIds.length > 0) {
+          await tx.attachment.updateMany({
+            where: {
+              id: { in: attachmentIds },
+              reportId: null,
+              createdAt: { gte: unclaimedUploadCutoff() },
+            },
+            data: { reportId: created.id },
+          });
+        }
+
+        await recordReportEvent(tx, {
+          reportId: created.id,
+          type: "CREATED",
+          newValue: created.status,
+        });
+
+        return created;
+      });
+    } catch (error) {
+      if (!isUniqueViolation(error) || attempt >= MAX_TRACKING_CODE_ATTEMPTS) {
+        throw error;
+      }
+    }
+  }
+}
+
+// Columns returned to staff. Secrets such as accessHash are never included.
+export const reportSelect = {
+  id: true,
+  reportId: true,
+  type: true,
+  title: true,
+  description: true,
+  reportType: true,
+  location: true,
+  latitude: true,
+  longitude: true,
+  attachments: { select: attachmentSelect, orderBy: { createdAt: "asc" } },
+  status: true,
+  priorityScore: true,
+  severity: true,
+  department: true,
+  hazards: true,
+  possibleDuplicateOfId: true,
+  triagedAt: true,
+  parentId: true,
+  mergedAt: true,
+  agency: { select: { id: true, name: true } },
+  routedAt: true,
+  assignee: { select: assigneeSelect },
+  assignedAt: true,
+  _count: { select: { mergedReports: true } },
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.ReportSelect;
+
+// Report fields staff may edit after submission
+export const EDITABLE_FIELDS = [
+  "title",
+  "description",
+  "reportType",
+  "location",
+] as const;
+
+type EditableField = (typeof EDITABLE_FIELDS)[number];
+
+// Triage results staff may override. A possible-duplicate flag can only be
+// cleared, not pointed at another report.
+export const TRIAGE_FIELDS = [
+  "priorityScore",
+  "severity",
+  "department",
+  "possibleDuplicateOfId",
+] as const;
+
+type TriageField = (typeof TRIAGE_FIELDS)[number];
+
+export type ReportChanges = Partial<
+  Pick<Report, EditableField | TriageField>
+> & {
+  status?: string;
+};
+
+function isValidTriageValue(field: TriageField, value: unknown) {
+  if (value === null) return true;
+  switch (field) {
+    case "priorityScore":
+      return (
+        Number.isInteger(value) && Number(value) >= 0 && Number(value) <= 100
+      );
+    case "severity":
+      return Object.values(Severity).includes(value as Severity);
+    case "department":
+      return typeof value === "string";
+    case "possibleDuplicateOfId":
+      return false;
+  }
+}
+
+function asEventValue(value: unknown) {
+  return value === null || value === undefined ? null : String(value);
+}
+
+interface UpdateContext {
+  actorId: number | null;
+  note?: string | null;
+}
+
+// Picks the known fields out of a request body, ignoring anything else.
+export function parseReportChanges(
+  body: Record<string, unknown>
+): { ok: true; value: ReportChanges } | { ok: false; error: string } {
+  const changes: ReportChanges = {};
+
+  if (body.status !== undefined) {
+    if (!isStatus(body.status)) {
+      const statuses = getWorkflow().states.map((state) => state.name);
+      return {
+        ok: false,
+        error: `Unknown status ${JSON.stringify(body.status)}; expected one of ${statuses.join(", ")}`,
+      };
+    }
+    changes.status = body.status;
+  }
+
+  for (const field of EDITABLE_FIELDS) {
+    if (body[field] === undefined) continue;
+    if (typeof body[field] !== "string") {
+      return { ok: false, error: `${field} must be a string` };
+    }
+    changes[field] = body[field] as string;
+  }
+
+  for (const field of TRIAGE_FIELDS) {
+    if (body[field] === undefined) continue;
+    if (!isValidTriageValue(field, body[field])) {
+      return { ok: false, error: `Invalid value for ${field}` };
+    }
+    Object.assign(changes, { [field]: body[field] });
+  }
+
+  return { ok: true, value: changes };
+}
+
+// Status changes and field edits are separate permissions; an update needs
+// every permission its changes touch.
+export function permissionsFor(changes: ReportChanges): Permission[] {
+  const permissions: Permission[] = [];
+  if (changes.status !== undefined) {
+    permissions.push(Permission.CHANGE_STATUS);
+  }
+  if (
+    [...EDITABLE_FIELDS, ...TRIAGE_FIELDS].some(
+      (field) => changes[field] !== undefined
+    )
+  ) {
+    permissions.push(Permission.EDIT_REPORTS);
+  }
+  return permissions;
+}
+
+// Applies the changes to the report identified by its public reportId and
+// writes one audit event per field that actually changed.
+export async function updateReport(
+  reportId: string,
+  changes: ReportChanges,
+  { actorId, note }: UpdateContext
+) {
+  return prisma.$transaction(async (tx) => {
+    const current = await tx.report.findUnique({
+      where: { reportId },
+      select: reportSelect,
+    });
+    if (!current) {
+      return null;
+    }
+
+    const changed = (Object.keys(changes) as (keyof ReportChanges)[]).filter(
+      (field) => changes[field] !== current[field]
+    );
+    if (changed.length === 0) {
+      return current;
+    }
+
+    const report = await tx.report.update({
+      where: { id: current.id },
+      data: changes,
+      select: reportSelect,
+    });
+
+    for (const field of changed) {
+      await recordReportEvent(tx, {
+        reportId: current.id,
+        type: field === "status" ? "STATUS_CHANGED" : "EDITED",
+        field,
+        oldValue: asEventValue(current[field]),
+        newValue: asEventValue(report[field]),
+        note,
+        actorId,
+      });
+    }
+
+    // Reports merged into this one follow its status
+    if (changed.includes("status")) {
+      const merged = await tx.report.findMany({
+        where: { parentId: current.id, status: { not: report.status } },
+        select: { id: true, status: true },
+      });
+      await tx.report.updateMany({
+        where: { id: { in: merged.map(({ id }) => id) } },
+        data: { status: report.status },
+      });
+      for (const child of merged) {
+        await recordReportEvent(tx, {
+          reportId: child.id,
+          type: "STATUS_CHANGED",
+          field: "status",
+          oldValue: child.status,
+          newValue: report.status,
+          note: "Updated with the incident it was merged into",
+          actorId,
+        });
+      }
+    }
+
+    return report;
+  });
+}
@@ -0,0 +1,195 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { sanitizeMedia } from "./sanitize-media";
+
+function segment(marker: number, payload: Buffer) {
+  const header = Buffer.alloc(4);
+  header.writeUInt16BE(0xff00 | marker, 0);
+  header.writeUInt16BE(payload.length + 2, 2);
+  return Buffer.concat([header, payload]);
+}
+
+function entry(tag: number, type: number, count: number, value: Buffer) {
+  const bytes = Buffer.alloc(12);
+  bytes.writeUInt16BE(tag, 0);
+  bytes.writeUInt16BE(type, 2);
+  bytes.writeUInt32BE(count, 4);
+  value.copy(bytes, 8);
+  return bytes;
+}
+
+function u32(value: number) {
+  const bytes = Buffer.alloc(4);
+  bytes.writeUInt32BE(value);
+  return bytes;
+}
+
+function rationals(...values: [number, number][]) {
+  return Buffer.concat(values.flatMap(([n, d]) => [u32(n), u32(d)]));
+}
+
+// A big-endian EXIF block with a camera make, orientation 6 and a GPS
+// position of 51.5 N, 0.125 W
+function exifBlock() {
+  const gpsOffset = 8 + 2 + 3 * 12 + 4;
+  const latitudeOffset = gpsOffset + 2 + 4 * 12 + 4;
+  const longitudeOffset = latitudeOffset + 24;
+  const orientation = Buffer.alloc(4);
+  orientation.writeUInt16BE(6);
+
+  return Buffer.concat([
+    Buffer.from("MM\0\x2a", "binary"),
+    u32(8),
+    Buffer.from([0, 3]),
+    entry(0x010f, 2, 4, Buffer.from("Cam\0", "binary")),
+    entry(0x0112, 3, 1, orientation),
+    entry(0x8825, 4, 1, u32(gpsOffset)),
+    u32(0),
+    Buffer.from([0, 4]),
+    entry(0x01, 2, 2, Buffer.from("N\0", "binary")),
+    entry(0x02, 5, 3, u32(latitudeOffset)),
+    entry(0x03, 2, 2, Buffer.from("W\0", "binary")),
+    entry(0x04, 5, 3, u32(longitudeOffset)),
+    u32(0),
+    rationals([51, 1], [30, 1], [0, 1]),
+    rationals([0, 1], [7, 1], [30, 1]),
+  ]);
+}
+
+const SCAN = Buffer.concat([
+  segment(0xda, Buffer.from([1, 1, 0])),
+  // Entropy-coded data with a stuffed 0xFF and a restart marker
+  Buffer.from([0x12, 0xff, 0x00, 0x34, 0xff, 0xd0, 0x56]),
+]);
+const EOI = Buffer.from([0xff, 0xd9]);
+
+function jpeg(...parts: Buffer[]) {
+  return Buffer.concat([Buffer.from([0xff, 0xd8]), ...parts]);
+}
+
+describe("sanitizeMedia JPEG", () => {
+  const icc = segment(0xe2, Buffer.from("ICC_PROFILE\0\x01\x01", "binary"));
+  const quantization = segment(0xdb, Buffer.from([0, 1, 2, 3]));
+
+  it("removes EXIF, reading its location and keeping the orientation", async () => {
+    const exif = segment(
+      0xe1,
+      Buffer.concat([Buffer.from("Exif\0\0", "binary"), exifBlock()])
+    );
+    const result = await sanitizeMedia(
+      jpeg(exif, quantization, SCAN, EOI),
+      "image/jpeg"
+    );
+
+    assert.ok(result);
+    assert.deepEqual(result.location, { latitude: 51.5, longitude: -0.125 });
+    assert.ok(result.removed.includes("EXIF:Make"));
+    assert.ok(result.removed.includes("EXIF:GPSLatitude"));
+    assert.ok(!result.data.includes("Cam\0"));
+    assert.ok(!result.data.includes(rationals([51, 1], [30, 1], [0, 1])));
+    // Only the orientation survives, in a block of its own
+    assert.ok(result.data.includes(Buffer.from([0x01, 0x12, 0x00, 0x03])));
+    assert.ok(result.data.includes(Buffer.concat([quantization, SCAN, EOI])));
+  });
+
+  it("keeps the ICC profile but drops MPF and trailing data", async () => {
+    const mpf = segment(0xe2, Buffer.from("MPF\0MM\0\x2a", "binary"));
+    const trailer = Buffer.from("second image with GPS");
+    const result = await sanitizeMedia(
+      jpeg(icc, mpf, quantization, SCAN, EOI, trailer),
+      "image/jpeg"
+    );
+
+    assert.ok(result);
+    assert.deepEqual(result.data, jpeg(icc, quantization, SCAN, EOI));
+    assert.deepEqual(result.removed, ["MPF", "Trailing data"]);
+  });
+
+  it("reads on through the tables between progressive scans", async () => {
+    const xmp = segment(
+      0xe1,
+      Buffer.from("http://ns.adobe.com/xap/1.0/\0<x/>")
+    );
+    const result = await sanitizeMedia(
+      jpeg(quantization, SCAN, xmp, quantization, SCAN, EOI),
+      "image/jpeg"
+    );
+
+    assert.ok(result);
+    assert.deepEqual(
+      result.data,
+      jpeg(quantization, SCAN, quantization, SCAN, EOI)
+    );
+    assert.deepEqual(result.removed, ["XMP"]);
+  });
+
+  it("refuses files it cannot parse", async () => {
+    const truncated = jpeg(Buffer.from([0xff, 0xe1, 0x40, 0x00, 0x01]));
+    assert.equal(await sanitizeMedia(truncated, "image/jpeg"), null);
+  });
+});
+
+describe("sanitizeMedia PNG", () => {
+  function chunk(type: string, data: Buffer) {
+    return Buffer.concat([u32(data.length), Buffer.from(type), data, u32(0)]);
+  }
+
+  it("drops text and time chunks", async () => {
+    const signature = Buffer.from("89504e470d0a1a0a", "hex");
+    const header = chunk("IHDR", Buffer.alloc(13));
+    const image = chunk("IDAT", Buffer.from([1, 2, 3]));
+    const end = chunk("IEND", Buffer.alloc(0));
+    const result = await sanitizeMedia(
+      Buffer.concat([
+        signature,
+        header,
+        chunk("tEXt", Buffer.from("Author\0Jane", "latin1")),
+        chunk("tIME", Buffer.alloc(7)),
+        image,
+        end,
+      ]),
+      "image/png"
+    );
+
+    assert.ok(result);
+    assert.deepEqual(
+      result.data,
+      Buffer.concat([signature, header, image, end])
+    );
+    assert.deepEqual(result.removed, ["tEXt:Author", "tIME"]);
+  });
+});
+
+describe("sanitizeMedia MP4", () => {
+  function box(type: string, ...children: Buffer[]) {
+    const body = Buffer.concat(children);
+    return Buffer.concat([
+      u32(body.length + 8),
+      Buffer.from(type, "latin1"),
+      body,
+    ]);
+  }
+
+  it("blanks metadata boxes without moving the media data", async () => {
+    const location = Buffer.from("+51.5000-000.1250/");
+    const video = Buffer.concat([
+      box("ftyp", Buffer.from("isom")),
+      box(
+        "moov",
+        box("mvhd", Buffer.alloc(8)),
+        box("trak", box("tkhd", Buffer.alloc(8))),
+        box("udta", box("\xa9xyz", location))
+      ),
+      box("mdat", Buffer.from("frames")),
+    ]);
+
+    const result = await sanitizeMedia(video, "video/mp4");
+
+    assert.ok(result);
+    assert.equal(result.data.length, video.length);
+    assert.ok(!result.data.includes(location));
+    assert.ok(result.data.includes(box("tkhd", Buffer.alloc(8))));
+    assert.equal(result.data.indexOf("mdat"), video.indexOf("mdat"));
+    assert.deepEqual(result.removed, ["udta"]);
+  });
+});
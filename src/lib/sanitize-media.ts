@@ -0,0 +1,540 @@
+import { PDFDict, PDFDocument, PDFName, PDFRef } from "pdf-lib";
+import { MediaType } from "./media";
+
+// Removes metadata that could identify a reporter (EXIF, XMP, IPTC, comments,
+// document info) from uploads before they reach storage. Pixel data is never
+// re-encoded; only the metadata containers are dropped. MP4 and QuickTime
+// video has its metadata boxes blanked; other video and audio formats are
+// passed through unchanged.
+
+export interface SanitizedMedia {
+  data: Buffer;
+  // Names of the removed fields, never their values, so they can be logged
+  removed: string[];
+  // Photo GPS position, read before it is stripped
+  location: { latitude: number; longitude: number } | null;
+}
+
+const EXIF_TAG_NAMES: Record<number, string> = {
+  0x010e: "ImageDescription",
+  0x010f: "Make",
+  0x0110: "Model",
+  0x0112: "Orientation",
+  0x0131: "Software",
+  0x0132: "DateTime",
+  0x013b: "Artist",
+  0x8298: "Copyright",
+  0x8769: "ExifIFD",
+  0x8825: "GPSInfo",
+  0x9003: "DateTimeOriginal",
+  0x9004: "DateTimeDigitized",
+  0x927c: "MakerNote",
+  0x9286: "UserComment",
+  0xa420: "ImageUniqueID",
+  0xa430: "CameraOwnerName",
+  0xa431: "BodySerialNumber",
+  0xa434: "LensModel",
+};
+
+const GPS_TAG_NAMES: Record<number, string> = {
+  0x00: "GPSVersionID",
+  0x01: "GPSLatitudeRef",
+  0x02: "GPSLatitude",
+  0x03: "GPSLongitudeRef",
+  0x04: "GPSLongitude",
+  0x05: "GPSAltitudeRef",
+  0x06: "GPSAltitude",
+  0x07: "GPSTimeStamp",
+  0x1d: "GPSDateStamp",
+};
+
+const EXIF_IFD_POINTER = 0x8769;
+const GPS_IFD_POINTER = 0x8825;
+const ORIENTATION = 0x0112;
+
+interface ExifSummary {
+  tags: string[];
+  orientation: number | null;
+  location: SanitizedMedia["location"];
+}
+
+function tagName(names: Record<number, string>, tag: number) {
+  return names[tag] ?? `0x${tag.toString(16).padStart(4, "0")}`;
+}
+
+// Reads tag names, orientation and GPS position out of a TIFF-structured EXIF
+// block. Anything malformed is ignored; the block is dropped either way.
+function readExif(tiff: Buffer): ExifSummary {
+  const summary: ExifSummary = { tags: [], orientation: null, location: null };
+  const little = tiff.toString("ascii", 0, 2) === "II";
+  const u16 = (at: number) =>
+    little ? tiff.readUInt16LE(at) : tiff.readUInt16BE(at);
+  const u32 = (at: number) =>
+    little ? tiff.readUInt32LE(at) : tiff.readUInt32BE(at);
+
+  const entries = (offset: number) => {
+    const result: { tag: number; at: number }[] = [];
+    if (offset + 2 > tiff.length) return result;
+    const count = u16(offset);
+    for (let i = 0; i < count; i++) {
+      const at = offset + 2 + i * 12;
+      if (at + 12 > tiff.length) break;
+      result.push({ tag: u16(at), at });
+    }
+    return result;
+  };
+
+  const degrees = (at: number) => {
+    const offset = u32(at + 8);
+    if (offset + 24 > tiff.length) return null;
+    let value = 0;
+    for (let i = 0; i < 3; i++) {
+      const denominator = u32(offset + i * 8 + 4);
+      if (denominator === 0) return null;
+      value += u32(offset + i * 8) / denominator / Math.pow(60, i);
+    }
+    return value;
+  };
+
+  try {
+    const ifd0 = u32(4);
+    const subIfds: number[] = [];
+    let gpsIfd: number | null = null;
+
+    for (const { tag, at } of entries(ifd0)) {
+      summary.tags.push(tagName(EXIF_TAG_NAMES, tag));
+      if (tag === ORIENTATION) summary.orientation = u16(at + 8);
+      if (tag === EXIF_IFD_POINTER) subIfds.push(u32(at + 8));
+      if (tag === GPS_IFD_POINTER) gpsIfd = u32(at + 8);
+    }
+    for (const offset of subIfds) {
+      for (const { tag } of entries(offset)) {
+        summary.tags.push(tagName(EXIF_TAG_NAMES, tag));
+      }
+    }
+
+    if (gpsIfd !== null) {
+      let latitude: number | null = null;
+      let longitude: number | null = null;
+      let latitudeRef = "N";
+      let longitudeRef = "E";
+
+      for (const { tag, at } of entries(gpsIfd)) {
+        summary.tags.push(tagName(GPS_TAG_NAMES, tag));
+        if (tag === 0x01) latitudeRef = tiff.toString("ascii", at + 8, at + 9);
+        if (tag === 0x02) latitude = degrees(at);
+        if (tag === 0x03) longitudeRef = tiff.toString("ascii", at + 8, at + 9);
+        if (tag === 0x04) longitude = degrees(at);
+      }
+
+      if (
+        latitude !== null &&
+        longitude !== null &&
+        latitude <= 90 &&
+        longitude <= 180
+      ) {
+        summary.location = {
+          latitude: latitudeRef === "S" ? -latitude : latitude,
+          longitude: longitudeRef === "W" ? -longitude : longitude,
+        };
+      }
+    }
+
+    // A second IFD holds the embedded thumbnail
+    const count = ifd0 + 2 <= tiff.length ? u16(ifd0) : 0;
+    const next = ifd0 + 2 + count * 12;
+    if (next + 4 <= tiff.length && u32(next) !== 0) {
+      summary.tags.push("Thumbnail");
+    }
+  } catch {
+    // Truncated block; keep whatever was read
+  }
+
+  summary.tags = Array.from(new Set(summary.tags));
+  return summary;
+}
+
+// A minimal EXIF block carrying only the orientation, so photos taken
+// sideways still display upright once everything else is gone
+function orientationSegment(orientation: number) {
+  const tiff = Buffer.alloc(26);
+  tiff.write("MM", 0, "ascii");
+  tiff.writeUInt16BE(42, 2);
+  tiff.writeUInt32BE(8, 4);
+  tiff.writeUInt16BE(1, 8);
+  tiff.writeUInt16BE(ORIENTATION, 10);
+  tiff.writeUInt16BE(3, 12);
+  tiff.writeUInt32BE(1, 14);
+  tiff.writeUInt16BE(orientation, 18);
+
+  const header = Buffer.alloc(4);
+  header.writeUInt16BE(0xffe1, 0);
+  header.writeUInt16BE(2 + 6 + tiff.length, 2);
+  return Buffer.concat([header, Buffer.from("Exif\0\0", "binary"), tiff]);
+}
+
+// APP0 (JFIF), APP2 (ICC colour profile) and APP14 (Adobe colour transform)
+// affect how the image renders; every other application segment is metadata.
+// APP2 is shared with MPF, which points at further images after the first.
+const KEPT_JPEG_MARKERS = new Set([0xe0, 0xe2, 0xee]);
+const ICC_PROFILE = "ICC_PROFILE\0";
+
+// Whether the byte after 0xFF inside entropy-coded data starts a marker,
+// rather than being a stuffed zero or a restart marker
+function endsScan(byte: number) {
+  return byte !== 0x00 && (byte < 0xd0 || byte > 0xd7);
+}
+
+function sanitizeJpeg(data: Buffer): SanitizedMedia {
+  const kept: Buffer[] = [data.subarray(0, 2)];
+  const removed: string[] = [];
+  let location: SanitizedMedia["location"] = null;
+  let orientation: number | null = null;
+  let pos = 2;
+
+  while (pos < data.length) {
+    if (data[pos] !== 0xff) throw new Error("Malformed JPEG segment");
+    const marker = data[pos + 1];
+
+    // End of image. Anything after it, such as MPF secondary images, gain
+    // maps or a motion photo's video, is dropped.
+    if (marker === 0xd9) {
+      kept.push(data.subarray(pos, pos + 2));
+      if (pos + 2 < data.length) removed.push("Trailing data");
+      break;
+    }
+    if (marker === 0xff) {
+      pos++;
+      continue;
+    }
+
+    const end = pos + 2 + data.readUInt16BE(pos + 2);
+    if (end > data.length) throw new Error("Truncated JPEG segment");
+    const payload = data.subarray(pos + 4, end);
+    const isApp = marker >= 0xe0 && marker <= 0xef;
+
+    // Start of scan: image data follows the header up to the next marker.
+    // Progressive images have several scans with tables between them, so
+    // reading carries on after it.
+    if (marker === 0xda) {
+      let scanEnd = end;
+      while (
+        scanEnd + 1 < data.length &&
+        !(data[scanEnd] === 0xff && endsScan(data[scanEnd + 1]))
+      ) {
+        scanEnd++;
+      }
+      if (scanEnd + 1 >= data.length) {
+        // No end of image marker; the scan runs to the end of the file
+        kept.push(data.subarray(pos));
+        break;
+      }
+      kept.push(data.subarray(pos, scanEnd));
+      pos = scanEnd;
+      continue;
+    }
+
+    if (
+      marker === 0xe2 &&
+      payload.toString("binary", 0, ICC_PROFILE.length) !== ICC_PROFILE
+    ) {
+      removed.push(
+        payload.toString("binary", 0, 4) === "MPF\0" ? "MPF" : "APP2"
+      );
+    } else if (
+      marker === 0xe1 &&
+      payload.toString("binary", 0, 6) === "Exif\0\0"
+    ) {
+      const exif = readExif(payload.subarray(6));
+      removed.push(...exif.tags.map((tag) => `EXIF:${tag}`));
+      location = location ?? exif.location;
+      orientation = orientation ?? exif.orientation;
+    } else if (
+      marker === 0xe1 &&
+      payload.toString("ascii", 0, 20).startsWith("http://ns.adobe.com/")
+    ) {
+      removed.push("XMP");
+    } else if (marker === 0xed) {
+      removed.push("IPTC");
+    } else if (marker === 0xfe) {
+      removed.push("Comment");
+    } else if (isApp && !KEPT_JPEG_MARKERS.has(marker)) {
+      removed.push(`APP${marker - 0xe0}`);
+    } else {
+      kept.push(data.subarray(pos, end));
+    }
+
+    pos = end;
+  }
+
+  if (orientation && orientation !== 1) {
+    // Straight after SOI and any JFIF header
+    const insertAt = kept.length > 1 && kept[1][1] === 0xe0 ? 2 : 1;
+    kept.splice(insertAt, 0, orientationSegment(orientation));
+  }
+
+  return {
+    data: Buffer.concat(kept),
+    removed: Array.from(new Set(removed)),
+    location,
+  };
+}
+
+const PNG_METADATA_CHUNKS = new Set(["eXIf", "tEXt", "zTXt", "iTXt", "tIME"]);
+
+function sanitizePng(data: Buffer): SanitizedMedia {
+  const kept: Buffer[] = [data.subarray(0, 8)];
+  const removed: string[] = [];
+  let location: SanitizedMedia["location"] = null;
+  let pos = 8;
+
+  while (pos < data.length) {
+    const length = data.readUInt32BE(pos);
+    const type = data.toString("ascii", pos + 4, pos + 8);
+    const end = pos + 12 + length;
+    if (end > data.length) throw new Error("Truncated PNG chunk");
+    const chunk = data.subarray(pos + 8, pos + 8 + length);
+
+    if (!PNG_METADATA_CHUNKS.has(type)) {
+      kept.push(data.subarray(pos, end));
+    } else if (type === "eXIf") {
+      const exif = readExif(chunk);
+      removed.push(...exif.tags.map((tag) => `EXIF:${tag}`));
+      location = location ?? exif.location;
+    } else if (type === "tIME") {
+      removed.push("tIME");
+    } else {
+      // Text chunks start with a keyword naming what they hold
+      const keyword = chunk.toString("latin1", 0, chunk.indexOf(0));
+      removed.push(
+        keyword === "XML:com.adobe.xmp" ? "XMP" : `${type}:${keyword}`
+      );
+    }
+
+    pos = end;
+    if (type === "IEND") break;
+  }
+
+  return {
+    data: Buffer.concat(kept),
+    removed: Array.from(new Set(removed)),
+    location,
+  };
+}
+
+// VP8X feature flags announcing EXIF and XMP chunks
+const WEBP_EXIF_FLAG = 0x08;
+const WEBP_XMP_FLAG = 0x04;
+
+function sanitizeWebp(data: Buffer): SanitizedMedia {
+  const kept: Buffer[] = [];
+  const removed: string[] = [];
+  let location: SanitizedMedia["location"] = null;
+  let pos = 12;
+
+  while (pos + 8 <= data.length) {
+    const type = data.toString("ascii", pos, pos + 4);
+    const size = data.readUInt32LE(pos + 4);
+    const end = pos + 8 + size + (size % 2);
+    if (pos + 8 + size > data.length) throw new Error("Truncated WebP chunk");
+
+    if (type === "EXIF") {
+      const exif = readExif(data.subarray(pos + 8, pos + 8 + size));
+      removed.push(...exif.tags.map((tag) => `EXIF:${tag}`));
+      location = exif.location;
+    } else if (type === "XMP ") {
+      removed.push("XMP");
+    } else {
+      const chunk = Buffer.from(data.subarray(pos, Math.min(end, data.length)));
+      if (type === "VP8X") chunk[8] &= ~(WEBP_EXIF_FLAG | WEBP_XMP_FLAG);
+      kept.push(chunk);
+    }
+
+    pos = end;
+  }
+
+  const body = Buffer.concat(kept);
+  const header = Buffer.from(data.subarray(0, 12));
+  header.writeUInt32LE(body.length + 4, 4);
+
+  return { data: Buffer.concat([header, body]), removed, location };
+}
+
+function sanitizeGif(data: Buffer): SanitizedMedia {
+  const removed: string[] = [];
+  const kept: Buffer[] = [];
+
+  // Skips a run of data sub-blocks and returns the offset after the terminator
+  const skipSubBlocks = (at: number) => {
+    while (data[at] !== 0) {
+      if (at >= data.length) throw new Error("Truncated GIF block");
+      at += data[at] + 1;
+    }
+    return at + 1;
+  };
+
+  const flags = data[10];
+  let pos = 13 + (flags & 0x80 ? 3 * 2 ** ((flags & 0x07) + 1) : 0);
+  kept.push(data.subarray(0, pos));
+
+  while (pos < data.length) {
+    const introducer = data[pos];
+
+    if (introducer === 0x3b) {
+      kept.push(data.subarray(pos, pos + 1));
+      break;
+    }
+
+    if (introducer === 0x21) {
+      const label = data[pos + 1];
+      const end = skipSubBlocks(pos + 2);
+      const application =
+        label === 0xff ? data.toString("ascii", pos + 3, pos + 14) : "";
+
+      if (label === 0xfe) {
+        removed.push("Comment");
+      } else if (application === "XMP DataXMP") {
+        removed.push("XMP");
+      } else if (label === 0xff && application !== "NETSCAPE2.0") {
+        removed.push(`Application:${application.trim()}`);
+      } else {
+        kept.push(data.subarray(pos, end));
+      }
+      pos = end;
+      continue;
+    }
+
+    if (introducer === 0x2c) {
+      const imageFlags = data[pos + 9];
+      let end =
+        pos + 10 + (imageFlags & 0x80 ? 3 * 2 ** ((imageFlags & 0x07) + 1) : 0);
+      end = skipSubBlocks(end + 1);
+      kept.push(data.subarray(pos, end));
+      pos = end;
+      continue;
+    }
+
+    throw new Error("Malformed GIF block");
+  }
+
+  return { data: Buffer.concat(kept), removed, location: null };
+}
+
+// Boxes holding user metadata: titles, device, creation tool and the
+// recording location (©xyz, loci, or Apple's location key in meta/ilst)
+const ISO_METADATA_BOXES = new Set(["udta", "meta"]);
+// Boxes whose children may hold metadata boxes
+const ISO_CONTAINER_BOXES = new Set(["moov", "trak", "mdia", "minf"]);
+// UUID box type XMP is stored under
+const XMP_UUID = "be7acfcb97a942e89c71999491e3afac";
+
+// Blanks metadata boxes in an MP4 or QuickTime file in place: each becomes a
+// zero-filled "free" box of the same size, so the sample offsets pointing
+// into the media data stay valid. Location embedded in the media data itself,
+// such as a GPS track, is not touched.
+function sanitizeIsoMedia(data: Buffer): SanitizedMedia {
+  const output = Buffer.from(data);
+  const removed: string[] = [];
+
+  const walk = (start: number, end: number) => {
+    let pos = start;
+    while (pos + 8 <= end) {
+      let size = output.readUInt32BE(pos);
+      const type = output.toString("latin1", pos + 4, pos + 8);
+      let header = 8;
+      if (size === 1) {
+        if (pos + 16 > end) throw new Error("Truncated MP4 box");
+        size = Number(output.readBigUInt64BE(pos + 8));
+        header = 16;
+      } else if (size === 0) {
+        size = end - pos;
+      }
+      if (size < header || pos + size > end) {
+        throw new Error("Malformed MP4 box");
+      }
+
+      const isXmp =
+        type === "uuid" &&
+        output.toString("hex", pos + header, pos + header + 16) === XMP_UUID;
+
+      if (ISO_METADATA_BOXES.has(type) || isXmp) {
+        removed.push(isXmp ? "XMP" : type);
+        output.write("free", pos + 4, "latin1");
+        output.fill(0, pos + header, pos + size);
+      } else if (ISO_CONTAINER_BOXES.has(type)) {
+        walk(pos + header, pos + size);
+      }
+
+      pos += size;
+    }
+  };
+
+  walk(0, output.length);
+  return {
+    data: output,
+    removed: Array.from(new Set(removed)),
+    location: null,
+  };
+}
+
+async function sanitizePdf(data: Buffer): Promise<SanitizedMedia> {
+  // Encrypted documents cannot be rewritten and are refused by the caller
+  const pdf = await PDFDocument.load(data, { updateMetadata: false });
+  const removed: string[] = [];
+
+  const infoRef = pdf.context.trailerInfo.Info;
+  if (infoRef) {
+    const info = pdf.context.lookup(infoRef);
+    if (info instanceof PDFDict) {
+      removed.push(
+        ...info.keys().map((key) => `Info:${key.asString().slice(1)}`)
+      );
+    }
+    if (infoRef instanceof PDFRef) pdf.context.delete(infoRef);
+    pdf.context.trailerInfo.Info = undefined;
+  }
+
+  const metadata = pdf.catalog.get(PDFName.of("Metadata"));
+  if (metadata) {
+    if (metadata instanceof PDFRef) pdf.context.delete(metadata);
+    pdf.catalog.delete(PDFName.of("Metadata"));
+    removed.push("XMP");
+  }
+
+  return {
+    data: Buffer.from(await pdf.save({ updateFieldAppearances: false })),
+    removed,
+    location: null,
+  };
+}
+
+// Returns the file with its metadata removed, or null when it cannot be
+// parsed well enough to be sure nothing identifying is left behind.
+export async function sanitizeMedia(
+  data: Buffer,
+  mimeType: MediaType
+): Promise<SanitizedMedia | null> {
+  try {
+    switch (mimeType) {
+      case "image/jpeg":
+        return sanitizeJpeg(data);
+      case "image/png":
+        return sanitizePng(data);
+      case "image/webp":
+        return sanitizeWebp(data);
+      case "image/gif":
+        return sanitizeGif(data);
+      case "video/mp4":
+      case "video/quicktime":
+      case "audio/mp4":
+        return sanitizeIsoMedia(data);
+      case "application/pdf":
+        return await sanitizePdf(data);
+      default:
+        return { data, removed: [], location: null };
+    }
+  } catch (error) {
+    console.error("Error sanitizing upload:", error);
+    return null;
+  }
+}
@@ -0,0 +1,72 @@
+// Server-sent event responses. Each stream sends a comment every
+// HEARTBEAT_MS so proxies keep the connection open, and stops listening as
+// soon as the client goes away.
+
+const HEARTBEAT_MS = 25000;
+// How long browsers wait before reconnecting after the stream drops
+const RETRY_MS = 5000;
+
+export type SendEvent = (event: string, data: unknown) => void;
+
+export const SSE_HEADERS = {
+  "Content-Type": "text/event-stream",
+  "Cache-Control": "no-cache, no-transform",
+  Connection: "keep-alive",
+  // Stops nginx from buffering the stream
+  "X-Accel-Buffering": "no",
+};
+
+// Opens an event stream. `subscribe` starts listening for events to send and
+// returns the function that stops it. With maxDurationMs the server ends the
+// stream after that long and the browser reconnects.
+export function eventStream(
+  request: Request,
+  subscribe: (send: SendEvent) => () => void,
+  { maxDurationMs }: { maxDurationMs?: number } = {}
+) {
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      const write = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // The client disconnected between events
+          cleanup();
+        }
+      };
+
+      write(`retry: ${RETRY_MS}\n\n`);
+      const unsubscribe = subscribe((event, data) =>
+        write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+      );
+      const heartbeat = setInterval(() => write(": heartbeat\n\n"), HEARTBEAT_MS);
+      const expiry = maxDurationMs
+        ? setTimeout(() => cleanup(), maxDurationMs)
+        : undefined;
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        clearTimeout(expiry);
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the runtime
+        }
+      };
+      request.signal.addEventListener("abort", () => cleanup());
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, { headers: SSE_HEADERS });
+}
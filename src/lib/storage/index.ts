@@ -0,0 +1,41 @@
+import { createLocalStorage } from "./local";
+import { createS3Storage } from "./s3";
+import { StorageDriver } from "./types";
+
+export type { StorageDriver } from "./types";
+
+let storage: StorageDriver | undefined;
+
+// Picks the driver from STORAGE_DRIVER ("local" by default, or "s3")
+export function getStorage(): StorageDriver {
+  if (storage) {
+    return storage;
+  }
+
+  const driver = process.env.STORAGE_DRIVER || "local";
+
+  switch (driver) {
+    case "local":
+      storage = createLocalStorage(
+        process.env.STORAGE_LOCAL_DIR || ".storage"
+      );
+      break;
+    case "s3":
+      if (!process.env.S3_BUCKET) {
+        throw new Error("S3_BUCKET must be set when STORAGE_DRIVER=s3");
+      }
+      storage = createS3Storage({
+        bucket: process.env.S3_BUCKET,
+        region: process.env.S3_REGION || "us-east-1",
+        endpoint: process.env.S3_ENDPOINT || undefined,
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+        accessKeyId: process.env.S3_ACCESS_KEY_ID,
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+      });
+      break;
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER: ${driver}`);
+  }
+
+  return storage;
+}
@@ -0,0 +1,40 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { StorageDriver } from "./types";
+
+// Stores objects as files under a root directory. Meant for development and
+// single-server deployments; use the S3 driver anywhere with more than one
+// instance.
+export function createLocalStorage(root: string): StorageDriver {
+  const resolve = (key: string) => {
+    const file = path.resolve(root, key);
+    // Keys come from our own upload route, but never let one escape the root
+    if (!file.startsWith(path.resolve(root) + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return file;
+  };
+
+  return {
+    async put(key, body) {
+      const file = resolve(key);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, body);
+    },
+
+    async get(key) {
+      try {
+        return await fs.readFile(resolve(key));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    async delete(key) {
+      await fs.rm(resolve(key), { force: true });
+    },
+  };
+}
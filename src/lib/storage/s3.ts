@@ -0,0 +1,70 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  NoSuchKey,
+  PutObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+import { StorageDriver } from "./types";
+
+interface S3StorageOptions {
+  bucket: string;
+  region: string;
+  // Set for S3-compatible services such as MinIO or Cloudflare R2
+  endpoint?: string;
+  forcePathStyle?: boolean;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+}
+
+export function createS3Storage(options: S3StorageOptions): StorageDriver {
+  const client = new S3Client({
+    region: options.region,
+    endpoint: options.endpoint,
+    forcePathStyle: options.forcePathStyle,
+    // Fall back to the SDK's default credential chain when no keys are given
+    credentials:
+      options.accessKeyId && options.secretAccessKey
+        ? {
+            accessKeyId: options.accessKeyId,
+            secretAccessKey: options.secretAccessKey,
+          }
+        : undefined,
+  });
+
+  return {
+    async put(key, body, contentType) {
+      await client.send(
+        new PutObjectCommand({
+          Bucket: options.bucket,
+          Key: key,
+          Body: body,
+          ContentType: contentType,
+        })
+      );
+    },
+
+    async get(key) {
+      try {
+        const object = await client.send(
+          new GetObjectCommand({ Bucket: options.bucket, Key: key })
+        );
+        if (!object.Body) {
+          return null;
+        }
+        return Buffer.from(await object.Body.transformToByteArray());
+      } catch (error) {
+        if (error instanceof NoSuchKey) {
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    async delete(key) {
+      await client.send(
+        new DeleteObjectCommand({ Bucket: options.bucket, Key: key })
+      );
+    },
+  };
+}
@@ -0,0 +1,8 @@
+// Object storage for report media. Keys are opaque paths such as
+// "reports/<uuid>.jpg"; drivers must not interpret them beyond that.
+export interface StorageDriver {
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  // Resolves to null when the object does not exist
+  get(key: string): Promise<Buffer | null>;
+  delete(key: string): Promise<void>;
+}
@@ -0,0 +1,46 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { generateTrackingCode, normalizeTrackingId } from "./tracking-code";
+
+const ALPHABET = "23456789ABCDEFGHJKMNPQRSTVWXYZ";
+
+describe("generateTrackingCode", () => {
+  it("issues grouped codes that pass their own check digit", () => {
+    for (let i = 0; i < 200; i++) {
+      const code = generateTrackingCode();
+      assert.match(code, /^HH-[2-9A-Z]{4}-[2-9A-Z]{4}-[2-9A-Z]$/);
+      assert.equal(normalizeTrackingId(code), code);
+    }
+  });
+});
+
+describe("normalizeTrackingId", () => {
+  const code = generateTrackingCode();
+
+  it("forgives case, spaces and dashes", () => {
+    const typed = code.toLowerCase().replace(/-/g, " ");
+    assert.equal(normalizeTrackingId(typed), code);
+    assert.equal(normalizeTrackingId(code.replace(/-/g, "")), code);
+  });
+
+  it("rejects every single-character typo", () => {
+    const compact = code.replace(/-/g, "");
+    for (let i = 2; i < compact.length; i++) {
+      for (const replacement of ALPHABET) {
+        if (replacement === compact[i]) continue;
+        const typo = compact.slice(0, i) + replacement + compact.slice(i + 1);
+        assert.equal(normalizeTrackingId(typo), null, typo);
+      }
+    }
+  });
+
+  it("rejects characters outside the alphabet and wrong lengths", () => {
+    assert.equal(normalizeTrackingId(code.replace(/.$/, "O")), null);
+    assert.equal(normalizeTrackingId(code.slice(0, -2)), null);
+    assert.equal(normalizeTrackingId(""), null);
+  });
+
+  it("accepts legacy hex IDs unchanged", () => {
+    assert.equal(normalizeTrackingId("0123456789ABCDEF"), "0123456789abcdef");
+  });
+});
@@ -0,0 +1,82 @@
+// Human-friendly report tracking codes such as HH-7KQ4-M2XP-9.
+//
+// The alphabet leaves out characters that are easy to misread or mistype
+// (0/O, 1/I/L, U), and the final character is a Luhn mod N check digit so
+// single-character typos and most swapped neighbours are caught before a
+// lookup is ever made. This module runs in the browser as well as on the
+// server, so it only relies on the Web Crypto API.
+
+const ALPHABET = "23456789ABCDEFGHJKMNPQRSTVWXYZ";
+const PREFIX = "HH";
+const BODY_LENGTH = 8;
+const GROUP_SIZE = 4;
+
+const CODE_PATTERN = new RegExp(
+  `^${PREFIX}([${ALPHABET}]{${BODY_LENGTH}})([${ALPHABET}])$`
+);
+// IDs issued before tracking codes existed: 16 lowercase hex characters
+const LEGACY_PATTERN = /^[0-9a-f]{16}$/;
+
+function checkCharacter(body: string): string {
+  const n = ALPHABET.length;
+  let factor = 2;
+  let sum = 0;
+
+  for (let i = body.length - 1; i >= 0; i--) {
+    let addend = factor * ALPHABET.indexOf(body[i]);
+    factor = factor === 2 ? 1 : 2;
+    addend = Math.floor(addend / n) + (addend % n);
+    sum += addend;
+  }
+
+  return ALPHABET[(n - (sum % n)) % n];
+}
+
+function format(body: string, check: string): string {
+  const groups = [];
+  for (let i = 0; i < body.length; i += GROUP_SIZE) {
+    groups.push(body.slice(i, i + GROUP_SIZE));
+  }
+  return [PREFIX, ...groups, check].join("-");
+}
+
+export function generateTrackingCode(): string {
+  const bytes = new Uint8Array(BODY_LENGTH);
+  crypto.getRandomValues(bytes);
+
+  // 256 is not a multiple of the alphabet size, so reject the top of the
+  // range to keep every character equally likely.
+  const limit = 256 - (256 % ALPHABET.length);
+  let body = "";
+  while (body.length < BODY_LENGTH) {
+    for (let i = 0; i < bytes.length && body.length < BODY_LENGTH; i++) {
+      if (bytes[i] < limit) body += ALPHABET[bytes[i] % ALPHABET.length];
+    }
+    crypto.getRandomValues(bytes);
+  }
+
+  return format(body, checkCharacter(body));
+}
+
+// Returns the canonical form of a tracking ID typed by a reporter, or null if
+// it is not a well-formed code. Case, spaces and dashes are forgiven; a wrong
+// check digit is not. Legacy hex IDs are accepted unchanged.
+export function normalizeTrackingId(input: string): string | null {
+  const compact = input.replace(/[\s-]/g, "");
+
+  if (LEGACY_PATTERN.test(compact.toLowerCase())) {
+    return compact.toLowerCase();
+  }
+
+  const match = compact.toUpperCase().match(CODE_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const [, body, check] = match;
+  if (checkCharacter(body) !== check) {
+    return null;
+  }
+
+  return format(body, check);
+}
@@ -0,0 +1,193 @@
+import { ReportType, Severity } from "@prisma/client";
+import prisma from "./prisma";
+import { getStorage } from "./storage";
+import { getImageAnalyzer, ImageAnalysis } from "./image-analysis";
+import { LOW_CONFIDENCE } from "./image-analysis/schema";
+import { findDuplicateCandidates } from "./duplicates";
+
+// Triage runs once when a report is created. It ranks the report for the
+// dashboard, estimates how severe it is, suggests which department should
+// pick it up and flags reports that probably describe an incident already on
+// file. Everything it decides is a suggestion that staff can override.
+
+export interface TriageInput {
+  id: string;
+  type: ReportType;
+  title: string;
+  description: string;
+  reportType: string;
+  latitude: number | null;
+  longitude: number | null;
+  createdAt: Date;
+}
+
+export interface TriageResult {
+  priorityScore: number;
+  severity: Severity;
+  department: string;
+  hazards: string[];
+  possibleDuplicateOfId: string | null;
+}
+
+// Words that push a report towards a higher severity when the photo gives no
+// confident answer. Matched on whole words, case-insensitively.
+const SEVERITY_KEYWORDS: [Severity, string[]][] = [
+  [
+    "CRITICAL",
+    [
+      "gun",
+      "shooting",
+      "shot",
+      "explosion",
+      "unconscious",
+      "not breathing",
+      "trapped",
+      "collapsed",
+      "stabbed",
+    ],
+  ],
+  [
+    "HIGH",
+    [
+      "fire",
+      "smoke",
+      "bleeding",
+      "injured",
+      "knife",
+      "weapon",
+      "assault",
+      "flood",
+      "crash",
+    ],
+  ],
+  ["MEDIUM", ["broken", "stolen", "damage", "threat", "fight", "leak"]],
+];
+
+const SEVERITY_SCORES: Record<Severity, number> = {
+  LOW: 20,
+  MEDIUM: 45,
+  HIGH: 70,
+  CRITICAL: 90,
+};
+
+const SEVERITY_RANK: Severity[] = ["LOW", "MEDIUM", "HIGH", "CRITICAL"];
+
+// Incident types that put lives at risk rank above property crime
+const URGENT_REPORT_TYPES = ["Fire Outbreak", "Medical Emergency", "Violence"];
+
+const DEPARTMENTS: Record<string, string> = {
+  "Fire Outbreak": "Fire & Rescue",
+  "Medical Emergency": "Emergency Medical Services",
+  "Natural Disaster": "Disaster Management",
+  Theft: "Police",
+  Violence: "Police",
+};
+
+const DEFAULT_DEPARTMENT = "General Services";
+
+const DUPLICATE_MIN_SCORE = 0.7;
+
+function maxSeverity(a: Severity, b: Severity) {
+  return SEVERITY_RANK.indexOf(a) >= SEVERITY_RANK.indexOf(b) ? a : b;
+}
+
+function keywordSeverity(text: string): Severity {
+  const normalized = text.toLowerCase();
+  for (const [severity, words] of SEVERITY_KEYWORDS) {
+    if (
+      words.some((word) => new RegExp(`\\b${word}\\b`).test(normalized))
+    ) {
+      return severity;
+    }
+  }
+  return "LOW";
+}
+
+// Only a strong match is flagged; staff can search for weaker ones
+async function findPossibleDuplicate(report: TriageInput) {
+  const [best] = await findDuplicateCandidates(report, {
+    earlierOnly: true,
+    minScore: DUPLICATE_MIN_SCORE,
+  });
+  return best?.id ?? null;
+}
+
+// Analyzes the report's first photo. Triage still runs without it when there
+// is no photo or the provider is unavailable.
+async function analyzeFirstImage(reportId: string) {
+  const attachment = await prisma.attachment.findFirst({
+    where: { reportId, mimeType: { startsWith: "image/" } },
+    orderBy: { createdAt: "asc" },
+    select: { storageKey: true, mimeType: true },
+  });
+  if (!attachment) {
+    return null;
+  }
+
+  try {
+    const data = await getStorage().get(attachment.storageKey);
+    if (!data) return null;
+    return await getImageAnalyzer().analyze({
+      data,
+      mimeType: attachment.mimeType,
+    });
+  } catch (error) {
+    console.error("Error analyzing image for triage:", error);
+    return null;
+  }
+}
+
+export function scoreReport(
+  report: Pick<TriageInput, "type" | "title" | "description" | "reportType">,
+  analysis: ImageAnalysis | null
+) {
+  let severity = keywordSeverity(`${report.title} ${report.description}`);
+  if (analysis && analysis.confidence.severity >= LOW_CONFIDENCE) {
+    severity = maxSeverity(severity, analysis.severity);
+  }
+  if (report.type === "EMERGENCY") {
+    severity = maxSeverity(severity, "MEDIUM");
+  }
+
+  const hazards = analysis?.hazards ?? [];
+  let score = SEVERITY_SCORES[severity];
+  if (report.type === "EMERGENCY") score += 10;
+  if (URGENT_REPORT_TYPES.includes(report.reportType)) score += 5;
+  score += Math.min(hazards.length * 5, 15);
+
+  return {
+    severity,
+    priorityScore: Math.min(score, 100),
+    hazards,
+  };
+}
+
+export async function triageReport(report: TriageInput): Promise<TriageResult> {
+  const [analysis, possibleDuplicateOfId] = await Promise.all([
+    analyzeFirstImage(report.id),
+    findPossibleDuplicate(report),
+  ]);
+
+  return {
+    ...scoreReport(report, analysis),
+    department: DEPARTMENTS[report.reportType] ?? DEFAULT_DEPARTMENT,
+    possibleDuplicateOfId,
+  };
+}
+
+// Triages a stored report and saves the result. Failures are logged rather
+// than thrown so a report is never lost because triage went wrong; it simply
+// stays untriaged.
+export async function applyTriage(report: TriageInput) {
+  try {
+    const result = await triageReport(report);
+    await prisma.report.update({
+      where: { id: report.id },
+      data: { ...result, triagedAt: new Date() },
+    });
+    return result;
+  } catch (error) {
+    console.error("Error triaging report:", error);
+    return null;
+  }
+}
@@ -0,0 +1,25 @@
+import { Prisma, Role } from "@prisma/client";
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+// Everything about a user that is safe to send to the admin console
+export const userSelect = {
+  id: true,
+  email: true,
+  name: true,
+  role: true,
+  active: true,
+  agencyId: true,
+  createdAt: true,
+} satisfies Prisma.UserSelect;
+
+export function isRole(value: unknown): value is Role {
+  return Object.values(Role).includes(value as Role);
+}
+
+export function validatePassword(password: unknown): string | null {
+  if (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  return null;
+}
@@ -0,0 +1,14 @@
+// Report lifecycle events outside systems can subscribe to. Kept apart from
+// lib/webhooks.ts so the admin page can list them.
+export const WEBHOOK_EVENTS = [
+  "report.created",
+  "report.status_changed",
+  "report.assigned",
+  "message.created",
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+export function isWebhookEvent(value: unknown): value is WebhookEvent {
+  return WEBHOOK_EVENTS.includes(value as WebhookEvent);
+}
@@ -0,0 +1,41 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { generateSecret, retryDelay, signPayload } from "./webhooks";
+
+describe("signPayload", () => {
+  const body = JSON.stringify({ event: "report.created" });
+
+  it("signs the timestamp and raw body with HMAC-SHA256", () => {
+    assert.equal(
+      signPayload("whsec_test", 1700000000, body),
+      "4170ac77891765a8d223b8b0319c23b1970e393afe6db5345fbd57f7523320b1"
+    );
+  });
+
+  it("changes with the secret, the timestamp and the body", () => {
+    const signature = signPayload("whsec_test", 1700000000, body);
+    assert.notEqual(signPayload("whsec_other", 1700000000, body), signature);
+    assert.notEqual(signPayload("whsec_test", 1700000001, body), signature);
+    assert.notEqual(
+      signPayload("whsec_test", 1700000000, `${body} `),
+      signature
+    );
+  });
+});
+
+describe("generateSecret", () => {
+  it("issues distinct prefixed secrets", () => {
+    const secret = generateSecret();
+    assert.match(secret, /^whsec_[A-Za-z0-9_-]{43}$/);
+    assert.notEqual(generateSecret(), secret);
+  });
+});
+
+describe("retryDelay", () => {
+  it("starts at a minute and doubles after each failure", () => {
+    const minutes = [1, 2, 3, 4, 9].map(
+      (attempts) => retryDelay(attempts) / 60000
+    );
+    assert.deepEqual(minutes, [1, 2, 4, 8, 256]);
+  });
+});
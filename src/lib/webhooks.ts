@@ -0,0 +1,453 @@
+import crypto from "crypto";
+import { Prisma, WebhookDeliveryStatus } from "@prisma/client";
+import prisma from "./prisma";
+import { messageSelect } from "./messages";
+import {
+  WEBHOOK_EVENTS,
+  WebhookEvent,
+  isWebhookEvent,
+} from "./webhook-events";
+
+// Outbound webhooks for systems such as CAD and ticketing. Admins subscribe
+// a URL to report lifecycle events; every event is stored as one delivery
+// per subscription and POSTed as JSON:
+//
+//   { "id": "<event id>", "event": "report.created",
+//     "createdAt": "...", "data": { "report": { ... } } }
+//
+// The body is signed with the subscription's secret. Receivers recompute
+//   X-Webhook-Signature: sha256=HMAC-SHA256(secret, "<timestamp>.<body>")
+// with X-Webhook-Timestamp and reject old timestamps to stop replays by
+// third parties. Failed deliveries are retried with exponential backoff;
+// the event id stays the same on retries and admin replays so receivers
+// can ignore duplicates.
+
+type WebhookFailure = { ok: false; error: string; status: 400 | 404 };
+type WebhookResult<T> = { ok: true; value: T } | WebhookFailure;
+
+export interface SubscriptionInput {
+  name: string;
+  url: string;
+  events: WebhookEvent[];
+  active?: boolean;
+}
+
+// The first retry waits BASE_DELAY_MS and each later one twice as long as
+// the last, so the final attempt comes about eight and a half hours after
+// the first
+const BASE_DELAY_MS = 60 * 1000;
+const MAX_ATTEMPTS = 10;
+const TIMEOUT_MS = 10000;
+// How long a claimed delivery is left alone before another worker may
+// retry it
+const CLAIM_MS = 5 * 60 * 1000;
+const MAX_ERROR_LENGTH = 500;
+
+// Everything about a subscription except its secret, which is only shown
+// when it is created or rotated
+export const subscriptionSelect = {
+  id: true,
+  name: true,
+  url: true,
+  events: true,
+  active: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.WebhookSubscriptionSelect;
+
+export const deliverySelect = {
+  id: true,
+  event: true,
+  payload: true,
+  status: true,
+  attempts: true,
+  nextAttemptAt: true,
+  responseStatus: true,
+  lastError: true,
+  deliveredAt: true,
+  replayOfId: true,
+  createdAt: true,
+  subscription: { select: { id: true, name: true, url: true } },
+} satisfies Prisma.WebhookDeliverySelect;
+
+// What receivers learn about a report. Reporter passphrases, attachments
+// and internal notes never leave the system.
+const webhookReportSelect = {
+  reportId: true,
+  type: true,
+  reportType: true,
+  title: true,
+  description: true,
+  location: true,
+  latitude: true,
+  longitude: true,
+  status: true,
+  severity: true,
+  priorityScore: true,
+  department: true,
+  hazards: true,
+  agency: { select: { id: true, name: true } },
+  assignee: { select: { id: true, name: true } },
+  assignedAt: true,
+  parent: { select: { reportId: true } },
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.ReportSelect;
+
+type Subscription = Prisma.WebhookSubscriptionGetPayload<{
+  select: typeof subscriptionSelect;
+}>;
+type Delivery = Prisma.WebhookDeliveryGetPayload<{
+  select: typeof deliverySelect;
+}>;
+
+function failure(error: string, status: 400 | 404 = 400): WebhookFailure {
+  return { ok: false, error, status };
+}
+
+function isHttpUrl(value: string) {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === "https:" || protocol === "http:";
+  } catch {
+    return false;
+  }
+}
+
+export function generateSecret() {
+  return `whsec_${crypto.randomBytes(32).toString("base64url")}`;
+}
+
+export function signPayload(secret: string, timestamp: number, body: string) {
+  return crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+}
+
+// Validates the fields of a create (name, url and events required) or
+// update request
+export function parseSubscriptionInput(
+  body: Record<string, unknown>,
+  { partial }: { partial: boolean }
+): WebhookResult<Partial<SubscriptionInput>> {
+  const input: Partial<SubscriptionInput> = {};
+
+  if (body.name !== undefined || !partial) {
+    if (typeof body.name !== "string" || !body.name.trim()) {
+      return failure("Name is required");
+    }
+    input.name = body.name.trim();
+  }
+
+  if (body.url !== undefined || !partial) {
+    if (typeof body.url !== "string" || !isHttpUrl(body.url.trim())) {
+      return failure("URL must be an http(s) URL");
+    }
+    input.url = body.url.trim();
+  }
+
+  if (body.events !== undefined || !partial) {
+    const events = body.events;
+    if (
+      !Array.isArray(events) ||
+      events.length === 0 ||
+      !events.every(isWebhookEvent)
+    ) {
+      return failure(
+        `Choose at least one event from ${WEBHOOK_EVENTS.join(", ")}`
+      );
+    }
+    input.events = Array.from(new Set(events));
+  }
+
+  if (body.active !== undefined) {
+    if (typeof body.active !== "boolean") {
+      return failure("active must be a boolean");
+    }
+    input.active = body.active;
+  }
+
+  return { ok: true, value: input };
+}
+
+// Creates a subscription with a new secret, returned this once
+export async function createSubscription(input: SubscriptionInput) {
+  const secret = generateSecret();
+  const subscription = await prisma.webhookSubscription.create({
+    data: { ...input, secret },
+    select: subscriptionSelect,
+  });
+  return { ...subscription, secret };
+}
+
+// Replaces a subscription's secret. Deliveries signed from now on use the
+// new one, including retries of earlier events.
+export async function rotateSecret(
+  id: string
+): Promise<WebhookResult<Subscription & { secret: string }>> {
+  const secret = generateSecret();
+  const { count } = await prisma.webhookSubscription.updateMany({
+    where: { id },
+    data: { secret },
+  });
+  if (count === 0) {
+    return failure("Subscription not found", 404);
+  }
+  const subscription = await prisma.webhookSubscription.findUniqueOrThrow({
+    where: { id },
+    select: subscriptionSelect,
+  });
+  return { ok: true, value: { ...subscription, secret } };
+}
+
+function errorMessage(error: unknown) {
+  const message = error instanceof Error ? error.message : String(error);
+  return message.slice(0, MAX_ERROR_LENGTH);
+}
+
+// Wait after the given number of failed attempts: 1 minute, then doubling
+export function retryDelay(attempts: number) {
+  return BASE_DELAY_MS * 2 ** (attempts - 1);
+}
+
+// Takes the delivery for this worker by pushing its next attempt into the
+// future, so the background send and the delivery script never both send it
+async function claim(id: string) {
+  const now = new Date();
+  const { count } = await prisma.webhookDelivery.updateMany({
+    where: {
+      id,
+      status: WebhookDeliveryStatus.PENDING,
+      nextAttemptAt: { lte: now },
+    },
+    data: {
+      attempts: { increment: 1 },
+      nextAttemptAt: new Date(now.getTime() + CLAIM_MS),
+    },
+  });
+  if (count === 0) {
+    return null;
+  }
+  return prisma.webhookDelivery.findUnique({
+    where: { id },
+    include: {
+      subscription: { select: { url: true, secret: true, active: true } },
+    },
+  });
+}
+
+// Makes one attempt at a pending delivery and records the receiver's
+// response. Resolves to its status afterwards, or null when it was not due.
+export async function deliverWebhook(id: string) {
+  const delivery = await claim(id);
+  if (!delivery) {
+    return null;
+  }
+
+  const { subscription } = delivery;
+  if (!subscription.active) {
+    await prisma.webhookDelivery.update({
+      where: { id },
+      data: {
+        status: WebhookDeliveryStatus.FAILED,
+        lastError: "Subscription is disabled",
+      },
+    });
+    return WebhookDeliveryStatus.FAILED;
+  }
+
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+  try {
+    const response = await fetch(subscription.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Webhook-Id": delivery.id,
+        "X-Webhook-Event": delivery.event,
+        "X-Webhook-Timestamp": String(timestamp),
+        "X-Webhook-Signature": `sha256=${signPayload(subscription.secret, timestamp, body)}`,
+      },
+      body,
+      // A redirect could carry the signed body somewhere unexpected
+      redirect: "manual",
+      signal: AbortSignal.timeout(TIMEOUT_MS),
+    });
+    responseStatus = response.status;
+    if (!response.ok) {
+      const text = await response.text().catch(() => "");
+      error = `Responded with ${response.status}${text ? `: ${text}` : ""}`;
+    }
+  } catch (err) {
+    error = errorMessage(err);
+  }
+
+  if (!error) {
+    await prisma.webhookDelivery.update({
+      where: { id },
+      data: {
+        status: WebhookDeliveryStatus.SUCCEEDED,
+        responseStatus,
+        lastError: null,
+        deliveredAt: new Date(),
+      },
+    });
+    return WebhookDeliveryStatus.SUCCEEDED;
+  }
+
+  const exhausted = delivery.attempts >= MAX_ATTEMPTS;
+  await prisma.webhookDelivery.update({
+    where: { id },
+    data: {
+      status: exhausted
+        ? WebhookDeliveryStatus.FAILED
+        : WebhookDeliveryStatus.PENDING,
+      responseStatus,
+      lastError: error.slice(0, MAX_ERROR_LENGTH),
+      nextAttemptAt: new Date(Date.now() + retryDelay(delivery.attempts)),
+    },
+  });
+  return exhausted
+    ? WebhookDeliveryStatus.FAILED
+    : WebhookDeliveryStatus.PENDING;
+}
+
+async function deliverAll(ids: string[]) {
+  for (const id of ids) {
+    try {
+      await deliverWebhook(id);
+    } catch (error) {
+      console.error("Error delivering webhook:", error);
+    }
+  }
+}
+
+async function subscribersTo(event: WebhookEvent) {
+  return prisma.webhookSubscription.findMany({
+    where: { active: true, events: { has: event } },
+    select: { id: true },
+  });
+}
+
+// Stores one delivery of the event per subscriber and starts sending them
+// in the background
+async function enqueue(
+  event: WebhookEvent,
+  subscriptions: { id: string }[],
+  data: Record<string, unknown>
+) {
+  // Through JSON so dates are stored as the strings receivers get
+  const payload = JSON.parse(
+    JSON.stringify({
+      id: crypto.randomUUID(),
+      event,
+      createdAt: new Date(),
+      data,
+    })
+  ) as Prisma.InputJsonObject;
+
+  const deliveries = await prisma.webhookDelivery.createManyAndReturn({
+    data: subscriptions.map(({ id }) => ({
+      subscriptionId: id,
+      event,
+      payload,
+    })),
+    select: { id: true },
+  });
+  void deliverAll(deliveries.map(({ id }) => id));
+}
+
+// Sends a report event with the report as it is now, plus any extra fields
+// such as the previous status. Never throws; an event that could not be
+// stored is logged and lost.
+export async function publishReportWebhook(
+  event: Exclude<WebhookEvent, "message.created">,
+  reportId: string,
+  extra: Record<string, unknown> = {}
+) {
+  try {
+    const subscriptions = await subscribersTo(event);
+    if (subscriptions.length === 0) return;
+
+    const report = await prisma.report.findUnique({
+      where: { reportId },
+      select: webhookReportSelect,
+    });
+    if (!report) return;
+
+    await enqueue(event, subscriptions, { report, ...extra });
+  } catch (error) {
+    console.error("Error publishing webhook:", error);
+  }
+}
+
+export async function publishMessageWebhook(
+  reportId: string,
+  message: Prisma.ReportMessageGetPayload<{ select: typeof messageSelect }>
+) {
+  try {
+    const subscriptions = await subscribersTo("message.created");
+    if (subscriptions.length === 0) return;
+
+    await enqueue("message.created", subscriptions, { reportId, message });
+  } catch (error) {
+    console.error("Error publishing webhook:", error);
+  }
+}
+
+// Sends a delivery's payload again as a new delivery, whatever became of
+// the original. It is signed afresh, with the subscription's current secret.
+export async function replayDelivery(
+  id: string
+): Promise<WebhookResult<Delivery>> {
+  const original = await prisma.webhookDelivery.findUnique({
+    where: { id },
+    select: { subscriptionId: true, event: true, payload: true },
+  });
+  if (!original) {
+    return failure("Delivery not found", 404);
+  }
+
+  const replay = await prisma.webhookDelivery.create({
+    data: {
+      subscriptionId: original.subscriptionId,
+      event: original.event,
+      payload: original.payload as Prisma.InputJsonObject,
+      replayOfId: id,
+    },
+    select: { id: true },
+  });
+  await deliverWebhook(replay.id);
+
+  const delivery = await prisma.webhookDelivery.findUniqueOrThrow({
+    where: { id: replay.id },
+    select: deliverySelect,
+  });
+  return { ok: true, value: delivery };
+}
+
+// Attempts every pending delivery that is due, oldest first, and counts the
+// outcomes
+export async function deliverDueWebhooks({ limit = 100 } = {}) {
+  const due = await prisma.webhookDelivery.findMany({
+    where: {
+      status: WebhookDeliveryStatus.PENDING,
+      nextAttemptAt: { lte: new Date() },
+    },
+    select: { id: true },
+    orderBy: { nextAttemptAt: "asc" },
+    take: limit,
+  });
+
+  const counts = { succeeded: 0, retrying: 0, failed: 0 };
+  for (const { id } of due) {
+    const status = await deliverWebhook(id);
+    if (status === WebhookDeliveryStatus.SUCCEEDED) counts.succeeded++;
+    else if (status === WebhookDeliveryStatus.PENDING) counts.retrying++;
+    else if (status === WebhookDeliveryStatus.FAILED) counts.failed++;
+  }
+  return counts;
+}
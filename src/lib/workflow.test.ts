@@ -0,0 +1,64 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { checkTransition, getWorkflow, openStatuses } from "./workflow";
+
+describe("default workflow", () => {
+  it("starts reports as pending and counts only open states", () => {
+    assert.equal(getWorkflow().initial, "PENDING");
+    assert.deepEqual(openStatuses(), ["PENDING", "IN_PROGRESS"]);
+  });
+});
+
+describe("checkTransition", () => {
+  const assigned = { hasAssignee: true };
+
+  it("allows the transitions the workflow lists", () => {
+    assert.equal(checkTransition("PENDING", "IN_PROGRESS", assigned), null);
+    assert.equal(
+      checkTransition("IN_PROGRESS", "RESOLVED", {
+        ...assigned,
+        reason: "Pothole filled",
+      }),
+      null
+    );
+    assert.equal(checkTransition("PENDING", "PENDING", assigned), null);
+  });
+
+  it("refuses transitions the workflow does not list", () => {
+    const skipped = checkTransition("PENDING", "RESOLVED", {
+      ...assigned,
+      reason: "Done",
+    });
+    assert.match(skipped ?? "", /can only move to IN_PROGRESS, DISMISSED/);
+    assert.match(
+      checkTransition("PENDING", "ARCHIVED", assigned) ?? "",
+      /Unknown status/
+    );
+  });
+
+  it("needs a reason to close or reopen a report", () => {
+    const blank = checkTransition("IN_PROGRESS", "DISMISSED", {
+      ...assigned,
+      reason: " ",
+    });
+    assert.match(blank ?? "", /Give a reason/);
+    assert.match(
+      checkTransition("DISMISSED", "PENDING", assigned) ?? "",
+      /Give a reason/
+    );
+    assert.equal(
+      checkTransition("DISMISSED", "PENDING", {
+        ...assigned,
+        reason: "New evidence",
+      }),
+      null
+    );
+  });
+
+  it("needs an assignee to start work", () => {
+    assert.match(
+      checkTransition("PENDING", "IN_PROGRESS", { hasAssignee: false }) ?? "",
+      /Assign the report/
+    );
+  });
+});
@@ -0,0 +1,180 @@
+import { readFileSync } from "fs";
+
+// The states a report moves through and the transitions staff may make
+// between them. Deployments can replace the default workflow with their own
+// by pointing REPORT_WORKFLOW_FILE at a JSON file of the same shape, e.g. to
+// add VERIFIED, ESCALATED or CLOSED. Report.status stores the state name.
+
+export interface WorkflowState {
+  name: string;
+  label: string;
+  // Still needs attention: counted as workload and searched for duplicates
+  open: boolean;
+  // Entering this state needs a reason, such as why a report was dismissed
+  requiresReason?: boolean;
+  // Entering this state needs someone assigned to the report
+  requiresAssignee?: boolean;
+  // States staff may move a report to from this one
+  next: string[];
+}
+
+export interface Workflow {
+  // Where new reports start
+  initial: string;
+  states: WorkflowState[];
+}
+
+interface TransitionContext {
+  reason?: string | null;
+  hasAssignee: boolean;
+}
+
+export const DEFAULT_WORKFLOW: Workflow = {
+  initial: "PENDING",
+  states: [
+    {
+      name: "PENDING",
+      label: "Pending",
+      open: true,
+      next: ["IN_PROGRESS", "DISMISSED"],
+    },
+    {
+      name: "IN_PROGRESS",
+      label: "In progress",
+      open: true,
+      requiresAssignee: true,
+      next: ["PENDING", "RESOLVED", "DISMISSED"],
+    },
+    {
+      name: "RESOLVED",
+      label: "Resolved",
+      open: false,
+      requiresReason: true,
+      next: ["IN_PROGRESS"],
+    },
+    {
+      name: "DISMISSED",
+      label: "Dismissed",
+      open: false,
+      requiresReason: true,
+      next: ["PENDING"],
+    },
+  ],
+};
+
+let workflow: Workflow | undefined;
+
+function validateWorkflow(value: unknown): Workflow {
+  const candidate = value as Partial<Workflow> | null;
+  if (!candidate || !Array.isArray(candidate.states)) {
+    throw new Error("Workflow must have a states array");
+  }
+
+  const names = new Set<string>();
+  for (const state of candidate.states) {
+    if (
+      typeof state?.name !== "string" ||
+      !/^[A-Z][A-Z0-9_]*$/.test(state.name)
+    ) {
+      throw new Error(
+        `Workflow state names must be UPPER_SNAKE_CASE, got ${JSON.stringify(state?.name)}`
+      );
+    }
+    if (names.has(state.name)) {
+      throw new Error(`Workflow state ${state.name} is defined twice`);
+    }
+    if (typeof state.open !== "boolean" || !Array.isArray(state.next)) {
+      throw new Error(`Workflow state ${state.name} needs open and next`);
+    }
+    names.add(state.name);
+  }
+
+  for (const state of candidate.states) {
+    const unknown = state.next.find((name) => !names.has(name));
+    if (unknown) {
+      throw new Error(
+        `Workflow state ${state.name} moves to unknown state ${unknown}`
+      );
+    }
+  }
+  if (typeof candidate.initial !== "string" || !names.has(candidate.initial)) {
+    throw new Error("Workflow initial state must be one of its states");
+  }
+
+  return {
+    initial: candidate.initial,
+    states: candidate.states.map((state) => ({
+      ...state,
+      label: typeof state.label === "string" ? state.label : state.name,
+    })),
+  };
+}
+
+// Loads REPORT_WORKFLOW_FILE once, or falls back to the default workflow.
+// A broken file stops the server rather than letting any transition through.
+export function getWorkflow(): Workflow {
+  if (workflow) {
+    return workflow;
+  }
+
+  const file = process.env.REPORT_WORKFLOW_FILE;
+  if (!file) {
+    workflow = DEFAULT_WORKFLOW;
+    return workflow;
+  }
+
+  try {
+    workflow = validateWorkflow(JSON.parse(readFileSync(file, "utf8")));
+  } catch (error) {
+    throw new Error(
+      `Invalid REPORT_WORKFLOW_FILE ${file}: ${(error as Error).message}`
+    );
+  }
+  return workflow;
+}
+
+export function getState(name: string) {
+  return getWorkflow().states.find((state) => state.name === name);
+}
+
+export function isStatus(value: unknown): value is string {
+  return typeof value === "string" && getState(value) !== undefined;
+}
+
+export function openStatuses() {
+  return getWorkflow()
+    .states.filter((state) => state.open)
+    .map((state) => state.name);
+}
+
+// Why moving a report from one status to another is not allowed, or null
+// when it is. Leaving a closed state (reopening) also needs a reason, so a
+// resolved report never silently goes back into a queue.
+export function checkTransition(
+  from: string,
+  to: string,
+  { reason, hasAssignee }: TransitionContext
+): string | null {
+  const target = getState(to);
+  if (!target) {
+    return `Unknown status ${to}`;
+  }
+  if (from === to) {
+    return null;
+  }
+
+  const source = getState(from);
+  if (source && !source.next.includes(to)) {
+    const allowed = source.next.join(", ") || "no other status";
+    return `A ${source.label.toLowerCase()} report can only move to ${allowed}`;
+  }
+
+  const needsReason = target.requiresReason || (source && !source.open);
+  if (needsReason && !reason?.trim()) {
+    return `Give a reason for moving this report to ${target.label.toLowerCase()}`;
+  }
+  if (target.requiresAssignee && !hasAssignee) {
+    return `Assign the report before moving it to ${target.label.toLowerCase()}`;
+  }
+  return null;
+}
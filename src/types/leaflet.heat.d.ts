@@ -0,0 +1,29 @@
+import "leaflet";
+
+// leaflet.heat ships without types. It adds L.heatLayer to the global
+// Leaflet namespace when imported.
+declare module "leaflet" {
+  // [latitude, longitude, intensity]
+  type HeatLatLngTuple = [number, number, number];
+
+  interface HeatLayerOptions {
+    minOpacity?: number;
+    maxZoom?: number;
+    max?: number;
+    radius?: number;
+    blur?: number;
+    gradient?: Record<number, string>;
+  }
+
+  interface HeatLayer extends Layer {
+    setLatLngs(latlngs: HeatLatLngTuple[]): this;
+    addLatLng(latlng: HeatLatLngTuple): this;
+    setOptions(options: HeatLayerOptions): this;
+    redraw(): this;
+  }
+
+  function heatLayer(
+    latlngs: HeatLatLngTuple[],
+    options?: HeatLayerOptions
+  ): HeatLayer;
+}